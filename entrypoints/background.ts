@@ -6,6 +6,31 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 /* global chrome */
 import { defineBackground } from "wxt/utils/define-background";
+import { mergeProviders } from "@/src/components/cmdk-palette/SearchProviders";
+import {
+  getCustomProviders,
+  CUSTOM_PROVIDERS_KEY,
+} from "@/src/utils/custom-providers";
+import {
+  getProviderBundles,
+  buildBundleUrls,
+  PROVIDER_BUNDLES_KEY,
+} from "@/src/utils/provider-bundles";
+import { getBarcodeScannerSettings } from "@/src/utils/barcode-scanner";
+import {
+  EBAY_CATEGORY_REFRESH_ALARM,
+  EBAY_CATEGORY_REFRESH_MINUTES,
+  getEbayCategoryMeta,
+  isEbayCategoryCacheStale,
+  refreshEbayCategories,
+} from "@/src/utils/ebay-categories";
+import { encodeQr, qrToPngDataUrl, qrToSvgDataUrl } from "@/src/lib/qrcode";
+import {
+  getManagedConfig,
+  applyManagedConfig,
+  onManagedConfigChanged,
+  MANAGED_STORAGE_KEYS,
+} from "@/src/utils/managed-config";
 
 export default defineBackground({
   main() {
@@ -51,6 +76,11 @@ export default defineBackground({
     };
     const DEFAULT_ACTION_POPUP = "popup.html";
     const OPTIONS_ACTION_POPUP = "options.html";
+    // Extension pages for the palette's page tools (see cmdk-palette/Tools.tsx)
+    const TOOL_PAGES = {
+      "display-test": "display-test.html",
+      "digitizer-test": "digitizer-test.html",
+    };
 
     async function openOptionsAsActionPopup() {
       const manifest = chrome.runtime?.getManifest?.();
@@ -156,6 +186,25 @@ export default defineBackground({
       }
     });
 
+    // Layer the enterprise policy (chrome.storage.managed) under user
+    // settings at startup and whenever the policy changes
+    getManagedConfig()
+      .then(applyManagedConfig)
+      .catch((err) => log("Failed to apply managed policy", err?.message || err));
+    onManagedConfigChanged((config) => {
+      log("Managed policy changed", config);
+      applyManagedConfig(config);
+    });
+
+    // Put locked settings back if another page changes them
+    chrome.storage.onChanged.addListener((changes, area) => {
+      const keys = MANAGED_STORAGE_KEYS[area];
+      if (!keys || !keys.some((key) => changes[key])) return;
+      getManagedConfig().then((config) => {
+        if (config.lockedSettings?.length) applyManagedConfig(config);
+      });
+    });
+
     // Create context menu items that operate on the current text selection
     try {
       const EBAY_SOLD_BASE =
@@ -165,45 +214,133 @@ export default defineBackground({
       const PRICE_CHARTING_BASE =
         "https://www.pricecharting.com/search-products?type=prices&q=grand+theft+auto&go=Go";
 
-      // Ensure no stale items
-      try {
-        chrome.contextMenus.removeAll(() => {});
-      } catch (_) {}
+      // Built-in selection entries; the enterprise policy's
+      // contextMenuEntries can limit which of these are shown
+      const SELECTION_MENU_ENTRIES = [
+        { id: "pm-search-ebay-sold", title: "Search for sold listings on eBay" },
+        { id: "pm-search-google-upc", title: "Search for UPC on Google" },
+        { id: "pm-search-google-mpn", title: "Search for MPN on Google" },
+        { id: "pm-search-upc", title: "Search on UPCItemDB" },
+        { id: "pm-search-price-charting", title: "Search on PriceCharting" },
+      ];
+
+      const isMenuEntryAllowed = (managed, id) =>
+        !managed.contextMenuEntries ||
+        managed.contextMenuEntries.includes(id.replace(/^pm-/, ""));
+
+      // Comp search bundles live under their own parent so they can be
+      // rebuilt whenever bundles or custom providers change. Bundle items
+      // get their own namespace so no bundle id can collide with the parent.
+      const COMP_MENU_PARENT = "pm-comp-search";
+      const COMP_MENU_PREFIX = "pm-comp-bundle-";
+
+      // Rebuilds remove and re-create menu ids; run them one at a time so
+      // overlapping rebuilds can't create the same id twice
+      let menuRebuild = Promise.resolve();
+      const queueMenuRebuild = (build) => {
+        menuRebuild = menuRebuild
+          .then(build)
+          .catch((e) => log("context menu rebuild error", e?.message || e));
+        return menuRebuild;
+      };
 
-      try {
-        chrome.contextMenus.create({
-          id: "pm-search-ebay-sold",
-          title: "Search for sold listings on eBay",
-          contexts: ["selection"],
-        });
-        chrome.contextMenus.create({
-          id: "pm-search-google-upc",
-          title: "Search for UPC on Google",
-          contexts: ["selection"],
-        });
-        chrome.contextMenus.create({
-          id: "pm-search-google-mpn",
-          title: "Search for MPN on Google",
-          contexts: ["selection"],
-        });
-        chrome.contextMenus.create({
-          id: "pm-search-upc",
-          title: "Search on UPCItemDB",
-          contexts: ["selection"],
+      const buildCompSearchMenus = async () => {
+        const [bundles, managed] = await Promise.all([
+          getProviderBundles(),
+          getManagedConfig(),
+        ]);
+        await new Promise((resolve) => {
+          chrome.contextMenus.remove(COMP_MENU_PARENT, () => {
+            void chrome.runtime.lastError; // Ignore "not found" on first build
+            if (
+              !bundles.length ||
+              !isMenuEntryAllowed(managed, COMP_MENU_PARENT)
+            ) {
+              resolve();
+              return;
+            }
+            try {
+              chrome.contextMenus.create({
+                id: COMP_MENU_PARENT,
+                title: "Comp search",
+                contexts: ["selection"],
+              });
+              bundles.forEach((bundle) => {
+                chrome.contextMenus.create({
+                  id: `${COMP_MENU_PREFIX}${bundle.id}`,
+                  parentId: COMP_MENU_PARENT,
+                  title: bundle.name,
+                  contexts: ["selection"],
+                });
+              });
+            } catch (e) {
+              log("comp search menu create error", e?.message || e);
+            }
+            resolve();
+          });
         });
-        chrome.contextMenus.create({
-          id: "pm-search-price-charting",
-          title: "Search on PriceCharting",
-          contexts: ["selection"],
+      };
+
+      const buildContextMenus = async () => {
+        const managed = await getManagedConfig();
+        // Ensure no stale items
+        await new Promise((resolve) => {
+          chrome.contextMenus.removeAll(() => {
+            try {
+              SELECTION_MENU_ENTRIES.filter((entry) =>
+                isMenuEntryAllowed(managed, entry.id)
+              ).forEach((entry) =>
+                chrome.contextMenus.create({
+                  ...entry,
+                  contexts: ["selection"],
+                })
+              );
+            } catch (e) {
+              log("contextMenus.create error", e?.message || e);
+            }
+            resolve();
+          });
         });
-      } catch (e) {
-        log("contextMenus.create error", e?.message || e);
-      }
+        await buildCompSearchMenus();
+      };
+
+      queueMenuRebuild(buildContextMenus);
+      onManagedConfigChanged(() => queueMenuRebuild(buildContextMenus));
+      chrome.storage.onChanged.addListener((changes, area) => {
+        if (
+          area === "sync" &&
+          (changes[PROVIDER_BUNDLES_KEY] || changes[CUSTOM_PROVIDERS_KEY])
+        ) {
+          queueMenuRebuild(buildCompSearchMenus);
+        }
+      });
 
       chrome.contextMenus.onClicked.addListener((info, _tab) => {
         const selection = (info.selectionText || "").trim();
         if (!selection) return;
 
+        if (
+          typeof info.menuItemId === "string" &&
+          info.menuItemId.startsWith(COMP_MENU_PREFIX)
+        ) {
+          const bundleId = info.menuItemId.slice(COMP_MENU_PREFIX.length);
+          Promise.all([getProviderBundles(), getCustomProviders()])
+            .then(([bundles, custom]) => {
+              const bundle = bundles.find((b) => b.id === bundleId);
+              if (!bundle) return;
+              const urls = buildBundleUrls(
+                bundle,
+                mergeProviders(custom),
+                selection
+              );
+              return openCompSearch(urls, selection);
+            })
+            .catch((err) =>
+              log("Failed to open comp search", err?.message || err)
+            );
+          return;
+        }
+
         if (info.menuItemId === "pm-search-ebay-sold") {
           try {
             const u = new URL(EBAY_SOLD_BASE);
@@ -293,17 +430,35 @@ export default defineBackground({
       });
     } catch (_) {}
 
+    // Keep the local eBay category tree fresh for offline CMDK lookups.
+    // The worker restarts often and re-creating the alarm would restart its
+    // period, so only create it when it is missing.
+    chrome.alarms.get(EBAY_CATEGORY_REFRESH_ALARM, (alarm) => {
+      if (alarm) return;
+      chrome.alarms.create(EBAY_CATEGORY_REFRESH_ALARM, {
+        periodInMinutes: EBAY_CATEGORY_REFRESH_MINUTES,
+      });
+    });
+    chrome.alarms.onAlarm.addListener((alarm) => {
+      if (alarm.name !== EBAY_CATEGORY_REFRESH_ALARM) return;
+      refreshEbayCategories().catch((err) =>
+        log("eBay category refresh failed", err?.message || err)
+      );
+    });
+
     /**
      * Handles extension installation and initial setup
      * Sets default storage values and configuration
      */
     chrome.runtime.onInstalled.addListener((details) => {
       log("onInstalled", details);
-      chrome.storage.local.set({
-        isEnabled: true,
-        autoShowModal: true,
-        vibrationEnabled: true,
-        debugLogs: true,
+      getManagedConfig().then((managed) => {
+        chrome.storage.local.set({
+          isEnabled: true,
+          autoShowModal: managed.controllerAutoOpen ?? true,
+          vibrationEnabled: true,
+          debugLogs: true,
+        });
       });
 
       // Open install page on first installation
@@ -314,6 +469,10 @@ export default defineBackground({
           active: true,
         });
       }
+
+      refreshEbayCategoriesIfStale().catch((err) =>
+        log("eBay category refresh failed", err?.message || err)
+      );
     });
 
     /**
@@ -328,6 +487,9 @@ export default defineBackground({
       });
       // Start controller detection
       startControllerDetection();
+      refreshEbayCategoriesIfStale().catch((err) =>
+        log("eBay category refresh failed", err?.message || err)
+      );
     });
 
     /**
@@ -757,6 +919,47 @@ export default defineBackground({
             sendResponse({ success: false, error: "No URL provided" });
           }
           return true;
+        case "OPEN_COMP_SEARCH": {
+          const urls = Array.isArray(message?.urls) ? message.urls : [];
+          if (!urls.length) {
+            sendResponse({ success: false, error: "missing_urls" });
+            break;
+          }
+          openCompSearch(urls, message?.title || "")
+            .then((groupId) => sendResponse({ success: true, groupId }))
+            .catch((err) => {
+              log("OPEN_COMP_SEARCH error", err?.message || err);
+              sendResponse({ success: false, error: String(err?.message || err) });
+            });
+          return true;
+        }
+        case "barcodeScanned": {
+          const code = message?.code;
+          if (!code) {
+            sendResponse({ success: false, error: "missing_code" });
+            break;
+          }
+          routeBarcodeScan(code)
+            .then(() => sendResponse({ success: true }))
+            .catch((err) => {
+              log("barcodeScanned error", err?.message || err);
+              sendResponse({ success: false, error: String(err?.message || err) });
+            });
+          return true;
+        }
+        case "REFRESH_EBAY_CATEGORIES":
+          (message.ifStale
+            ? refreshEbayCategoriesIfStale()
+            : refreshEbayCategories(!!message.force)
+          )
+            .then((meta) =>
+              sendResponse({ success: true, meta, refreshed: !!meta })
+            )
+            .catch((err) => {
+              log("eBay category refresh failed", err?.message || err);
+              sendResponse({ success: false, error: String(err?.message || err) });
+            });
+          return true;
         case "FETCH_CSV_LINKS":
           // Fetch CSV data (bypasses CORS in content scripts)
           const csvUrl = message.url;
@@ -783,31 +986,38 @@ export default defineBackground({
         case "generateQr": {
           // Generate QR in SW to bypass page CSP (return as data URL)
           const text = message?.text || "";
-          const size = Number(message?.size || 256);
+          // qrToPngDataUrl clamps this, so callers can't ask for huge images
+          const size = Number(message?.size) || 256;
           if (!text) {
             sendResponse({ success: false, error: "missing_text" });
             break;
           }
-          const endpoint = `https://api.qrserver.com/v1/create-qr-code/?size=${size}x${size}&data=${encodeURIComponent(
-            text
-          )}`;
-          fetch(endpoint)
-            .then(async (r) => {
-              if (!r.ok) throw new Error(`HTTP ${r.status}`);
-              const buf = await r.arrayBuffer();
-              const base64 = arrayBufferToBase64(buf);
-              const dataUrl = `data:image/png;base64,${base64}`;
-              sendResponse({ success: true, dataUrl });
-            })
+          try {
+            // Encoded locally so QR codes work offline and text never leaves the browser
+            const qr = encodeQr(text, { ecc: message?.ecc || "M" });
+            const dataUrl =
+              message?.format === "svg"
+                ? qrToSvgDataUrl(qr)
+                : qrToPngDataUrl(qr, size);
+            sendResponse({ success: true, dataUrl });
+          } catch (err) {
+            log("generateQr error", err?.message || err);
+            sendResponse({
+              success: false,
+              error: String(err?.message || err),
+            });
+          }
+          break;
+        }
+        case "GET_QR_SOURCE":
+          // Selected text on the active page, falling back to its URL
+          getQrSource()
+            .then((source) => sendResponse({ success: true, ...source }))
             .catch((err) => {
-              log("generateQr error", err?.message || err);
-              sendResponse({
-                success: false,
-                error: String(err?.message || err),
-              });
+              log("GET_QR_SOURCE error", err?.message || err);
+              sendResponse({ success: false, error: String(err?.message || err) });
             });
           return true;
-        }
         case "ping":
           log("pong");
           sendResponse({ pong: true, time: Date.now() });
@@ -822,6 +1032,16 @@ export default defineBackground({
           sendResponse({ success: true });
           break;
         }
+        case "openToolPage": {
+          const page = TOOL_PAGES[message?.tool];
+          if (!page) {
+            sendResponse({ success: false, error: "unknown_tool" });
+            break;
+          }
+          openToolPage(page);
+          sendResponse({ success: true });
+          break;
+        }
         case "goBackToPOS":
           goBackToPOS();
           sendResponse({ success: true });
@@ -924,6 +1144,79 @@ export default defineBackground({
       return true; // keep the message channel open if needed
     });
 
+    /**
+     * Opens each URL in a new tab and collects them into a tab group titled
+     * after the search query
+     * @param {string[]} urls - Provider search URLs
+     * @param {string} title - Tab group title (the query)
+     * @returns {Promise<number|null>} Created tab group id
+     */
+    async function openCompSearch(urls, title) {
+      const tabs = [];
+      for (let i = 0; i < urls.length; i++) {
+        tabs.push(await chrome.tabs.create({ url: urls[i], active: i === 0 }));
+      }
+      const tabIds = tabs.map((t) => t.id).filter((id) => id != null);
+      if (!tabIds.length || !chrome.tabs.group) return null;
+
+      const groupId = await chrome.tabs.group({
+        tabIds,
+        createProperties: { windowId: tabs[0].windowId },
+      });
+      try {
+        await chrome.tabGroups.update(groupId, {
+          title: title.length > 40 ? `${title.slice(0, 39)}…` : title,
+          color: "green",
+        });
+      } catch (e) {
+        log("tabGroups.update error", e?.message || e);
+      }
+      log("Comp search opened", { title, tabIds, groupId });
+      return groupId;
+    }
+
+    /**
+     * Act on a validated scan from the barcode scanner content script:
+     * run the configured comp bundle, or look the code up on UPCItemDB.
+     * Pasting is handled in the page and never reaches here.
+     */
+    async function routeBarcodeScan(code) {
+      const [settings, custom] = await Promise.all([
+        getBarcodeScannerSettings(),
+        getCustomProviders(),
+      ]);
+      const providers = mergeProviders(custom);
+
+      if (settings.action === "comp-bundle") {
+        const bundles = await getProviderBundles();
+        const bundle =
+          bundles.find((b) => b.id === settings.bundleId) || bundles[0];
+        if (bundle) {
+          await openCompSearch(buildBundleUrls(bundle, providers, code), code);
+          return;
+        }
+      }
+
+      const upc = providers.find((p) => p.id === "upcitemdb");
+      if (!upc) return;
+      await chrome.tabs.create({
+        url: upc.searchUrl.replace("{query}", encodeURIComponent(code)),
+      });
+      log("Barcode scan looked up", { code });
+    }
+
+    /**
+     * Download the eBay category tree when it is missing or past its
+     * refresh interval, e.g. after the worker missed the weekly alarm.
+     * Resolves to the new metadata, or null when the cache was fresh.
+     */
+    async function refreshEbayCategoriesIfStale() {
+      if (!isEbayCategoryCacheStale(await getEbayCategoryMeta())) return null;
+      const meta = await refreshEbayCategories();
+      log("eBay categories refreshed", meta);
+      return meta;
+    }
+
     function openControllerTest() {
       log("Opening Controller Test");
       // Use sidebar instead of action popup
@@ -986,6 +1279,24 @@ export default defineBackground({
       });
     }
 
+    // Open an extension tool page in its own fullscreen window, falling back
+    // to a normal tab where fullscreen windows aren't allowed
+    function openToolPage(page) {
+      const url = chrome.runtime.getURL(page);
+      try {
+        chrome.windows.create({ url, state: "fullscreen" }, () => {
+          const err = chrome.runtime.lastError;
+          if (err) {
+            log("openToolPage window error", err.message);
+            chrome.tabs.create({ url, active: true });
+          }
+        });
+      } catch (e) {
+        log("openToolPage error", e?.message || e);
+        chrome.tabs.create({ url, active: true });
+      }
+    }
+
     function toggleSidePanelForTab(tabId, tool) {
       const desiredTool = tool || "controller-testing";
 
@@ -1085,21 +1396,44 @@ export default defineBackground({
       }
     }
 
-    function arrayBufferToBase64(buffer) {
-      let binary = "";
-      const bytes = new Uint8Array(buffer);
-      const len = bytes.byteLength;
-      for (let i = 0; i < len; i++) {
-        binary += String.fromCharCode(bytes[i]);
+    /**
+     * Resolve the text to encode for the palette's QR command: the page
+     * selection when there is one, otherwise the tab URL. Uses the last
+     * focused normal window so it works when the palette is its own window.
+     */
+    async function getQrSource() {
+      const win = await chrome.windows.getLastFocused({
+        windowTypes: ["normal"],
+      });
+      const [tab] = await chrome.tabs.query({ active: true, windowId: win.id });
+      if (!tab?.id) throw new Error("No active tab found");
+
+      let selection = "";
+      try {
+        const [result] = await chrome.scripting.executeScript({
+          target: { tabId: tab.id },
+          func: () => String(window.getSelection?.() || "").trim(),
+        });
+        selection = result?.result || "";
+      } catch (_) {
+        // Restricted pages (chrome://, Web Store) cannot be scripted
       }
-      // btoa works with binary strings
-      return btoa(binary);
+
+      return selection
+        ? { text: selection, kind: "selection", title: tab.title || "" }
+        : { text: tab.url || "", kind: "url", title: tab.title || "" };
     }
 
     function toolToPath(tool) {
       switch (tool) {
         case "controller-testing":
           return "/tools/controller-testing";
+        case "keyboard-testing":
+          return "/tools/keyboard-testing";
+        case "media-check":
+          return "/tools/media-check";
+        case "audio-test":
+          return "/tools/audio-test";
         case "price-charting":
           return "/tools/price-charting";
         case "upc-search":
@@ -0,0 +1,132 @@
+import { defineContentScript } from "wxt/utils/define-content-script";
+import {
+  BarcodeScannerSettings,
+  DEFAULT_BARCODE_SCANNER_SETTINGS,
+  createScanDetector,
+  getBarcodeScannerSettings,
+  onBarcodeScannerSettingsChanged,
+} from "@/src/utils/barcode-scanner";
+import { BARCODE_LABELS, matchBarcode } from "@/src/utils/identifiers";
+
+type TextField = HTMLInputElement | HTMLTextAreaElement;
+
+const TOAST_MS = 2500;
+
+const isTextField = (target: EventTarget | null): target is TextField =>
+  target instanceof HTMLTextAreaElement ||
+  (target instanceof HTMLInputElement &&
+    ["text", "search", "number", "tel", ""].includes(target.type));
+
+const isEditable = (target: EventTarget | null) =>
+  isTextField(target) ||
+  (target instanceof HTMLElement && target.isContentEditable);
+
+function showToast(text: string) {
+  const toast = document.createElement("div");
+  toast.textContent = text;
+  Object.assign(toast.style, {
+    position: "fixed",
+    bottom: "16px",
+    right: "16px",
+    zIndex: "2147483647",
+    padding: "8px 12px",
+    borderRadius: "6px",
+    background: "rgba(0,0,0,0.8)",
+    color: "#fff",
+    font: "13px system-ui, sans-serif",
+  });
+  document.body.appendChild(toast);
+  setTimeout(() => toast.remove(), TOAST_MS);
+}
+
+/**
+ * Set a field's value the way typing would, so pages built with React and
+ * similar frameworks see the change
+ */
+function fillField(field: TextField, value: string) {
+  const setter = Object.getOwnPropertyDescriptor(
+    Object.getPrototypeOf(field),
+    "value"
+  )?.set;
+  field.focus();
+  if (setter) setter.call(field, value);
+  else field.value = value;
+  field.dispatchEvent(new Event("input", { bubbles: true }));
+  field.dispatchEvent(new Event("change", { bubbles: true }));
+}
+
+/**
+ * Watches keyboard input for barcode scanner bursts. Scans into a text
+ * field are left alone since someone is using that field; a scan that
+ * lands anywhere else is validated and routed by the scanner settings.
+ */
+export default defineContentScript({
+  matches: ["<all_urls>"],
+  runAt: "document_idle",
+  allFrames: false,
+  main() {
+    if (window.top !== window) return;
+
+    let settings: BarcodeScannerSettings = DEFAULT_BARCODE_SCANNER_SETTINGS;
+    getBarcodeScannerSettings().then((next) => (settings = next));
+    onBarcodeScannerSettingsChanged((next) => (settings = next));
+
+    const detector = createScanDetector();
+    // The POS field to paste into once focus has moved off it
+    let lastField: TextField | null = null;
+
+    document.addEventListener(
+      "focusin",
+      (e) => {
+        if (isTextField(e.target)) lastField = e.target;
+      },
+      true
+    );
+
+    const handleScan = (scanned: string) => {
+      const match = matchBarcode(scanned);
+      if (!match) {
+        showToast(`Scanned ${scanned}: not a UPC, EAN or ISBN`);
+        return;
+      }
+      const label = BARCODE_LABELS[match.type];
+      if (!match.valid) {
+        showToast(`${label} ${match.code} has a bad check digit, scan again`);
+        return;
+      }
+
+      if (settings.action === "paste") {
+        if (lastField?.isConnected) {
+          fillField(lastField, match.code);
+        } else {
+          showToast(`${label} ${match.code}: click the field to paste into`);
+        }
+        return;
+      }
+
+      showToast(`${label} ${match.code}`);
+      try {
+        chrome.runtime.sendMessage({
+          action: "barcodeScanned",
+          code: match.code,
+          type: match.type,
+        });
+      } catch (e) {
+        console.error("[Scanner] Failed to send scan:", e);
+      }
+    };
+
+    window.addEventListener(
+      "keydown",
+      (e) => {
+        if (!settings.enabled) return;
+        const scanned = detector.keydown(e.key, e.timeStamp);
+        if (!scanned || isEditable(e.target)) return;
+        // Keep the scanner's Enter from clicking a focused button
+        e.preventDefault();
+        handleScan(scanned);
+      },
+      true
+    );
+  },
+});
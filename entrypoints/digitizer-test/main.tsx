@@ -0,0 +1,7 @@
+import { createRoot } from "react-dom/client";
+import DigitizerTest from "../../src/components/digitizer-test/DigitizerTest";
+
+const container = document.getElementById("app");
+if (!container) throw new Error("Failed to find the app element");
+const root = createRoot(container);
+root.render(<DigitizerTest />);
@@ -1,5 +1,9 @@
+import { ReactNode, useEffect, useState } from "react";
 import { createRoot } from "react-dom/client";
+import AudioTest from "../../src/components/sidepanel/AudioTest";
 import ControllerTesting from "../../src/components/sidepanel/ControllerTesting";
+import KeyboardTesting from "../../src/components/sidepanel/KeyboardTesting";
+import MediaCheck from "../../src/components/sidepanel/MediaCheck";
 
 /**
  * @fileoverview PayMore Chrome Extension Side Panel Script
@@ -9,34 +13,94 @@ import ControllerTesting from "../../src/components/sidepanel/ControllerTesting"
  * @license MIT
  */
 
+const DEFAULT_TOOL = "controller-testing";
+
+// Tools the side panel can show, keyed by the tool id the background
+// stores in `sidePanelTool` when it opens the panel
+const SIDEPANEL_TOOLS: Record<
+  string,
+  { title: string; render: () => ReactNode }
+> = {
+  "controller-testing": {
+    title: "Controller Testing",
+    render: () => <ControllerTesting />,
+  },
+  "keyboard-testing": {
+    title: "Keyboard Testing",
+    render: () => <KeyboardTesting />,
+  },
+  "audio-test": {
+    title: "Audio Test",
+    render: () => <AudioTest />,
+  },
+  "media-check": {
+    title: "Camera & Mic Check",
+    render: () => <MediaCheck />,
+  },
+};
+
+function SidepanelTool() {
+  const [toolId, setToolId] = useState<string | null>(null);
+
+  useEffect(() => {
+    chrome.storage.local.get({ sidePanelTool: DEFAULT_TOOL }, (cfg) => {
+      const tool = cfg?.sidePanelTool || DEFAULT_TOOL;
+      setToolId(tool);
+
+      // Send a message to background script indicating sidepanel is ready
+      try {
+        chrome.runtime.sendMessage({
+          action: "sidepanelReady",
+          tool,
+          timestamp: Date.now(),
+        });
+      } catch (e) {
+        console.error("Error sending sidepanel ready message:", e);
+      }
+    });
+
+    // Opening another tool while the panel is open only updates storage
+    const listener = (
+      changes: Record<string, { newValue?: unknown }>,
+      area: string
+    ) => {
+      const next = changes.sidePanelTool?.newValue;
+      if (area === "local" && typeof next === "string") setToolId(next);
+    };
+    chrome.storage.onChanged.addListener(listener);
+    return () => chrome.storage.onChanged.removeListener(listener);
+  }, []);
+
+  const tool = toolId
+    ? SIDEPANEL_TOOLS[toolId] || SIDEPANEL_TOOLS[DEFAULT_TOOL]
+    : null;
+
+  useEffect(() => {
+    const toolHeader = document.querySelector("#current-tool");
+    if (toolHeader && tool) {
+      toolHeader.textContent = tool.title;
+    }
+  }, [tool]);
+
+  return tool ? (
+    <div key={toolId} className="h-full">
+      {tool.render()}
+    </div>
+  ) : null;
+}
+
 // Initialize immediately without waiting for DOMContentLoaded
 const initSidepanel = () => {
   const container = document.getElementById("controller-testing-container");
   if (container) {
     const root = createRoot(container);
-    root.render(<ControllerTesting />);
-  }
-
-  const toolHeader = document.querySelector("#current-tool");
-  if (toolHeader) {
-    toolHeader.textContent = "Controller Testing";
+    root.render(<SidepanelTool />);
   }
 
   const settingsBtn = document.querySelector("#btn-settings");
   settingsBtn?.addEventListener("click", () => {
     chrome.runtime.openOptionsPage();
   });
-
-  // Send a message to background script indicating sidepanel is ready
-  try {
-    chrome.runtime.sendMessage({
-      action: "sidepanelReady",
-      tool: "controller-testing",
-      timestamp: Date.now(),
-    });
-  } catch (e) {
-    console.error("Error sending sidepanel ready message:", e);
-  }
 };
 
 // Try to initialize immediately
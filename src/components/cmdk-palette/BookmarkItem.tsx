@@ -1,17 +1,18 @@
 import { Bookmark } from "@/src/utils/bookmarks";
 import { Bookmark as BookmarkIcon } from "lucide-react";
+import { HighlightedText } from "./HighlightedText";
 
 interface BookmarkItemProps {
   bookmark: Bookmark;
   kbdHintAction?: string;
+  query?: string;
 }
 
-export function BookmarkItem({ bookmark, kbdHintAction }: BookmarkItemProps) {
-  const truncateText = (text: string, maxLength: number) => {
-    if (text.length <= maxLength) return text;
-    return text.substring(0, maxLength) + "...";
-  };
-
+export function BookmarkItem({
+  bookmark,
+  kbdHintAction,
+  query,
+}: BookmarkItemProps) {
   return (
     <div className="flex items-center gap-3 px-4 py-3 w-full">
       <div className="flex-shrink-0 w-4 h-4">
@@ -19,10 +20,10 @@ export function BookmarkItem({ bookmark, kbdHintAction }: BookmarkItemProps) {
       </div>
       <div className="flex-1 min-w-0">
         <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
-          {truncateText(bookmark.title, 60)}
+          <HighlightedText text={bookmark.title} query={query} maxLength={60} />
         </p>
         <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
-          {truncateText(bookmark.url, 80)}
+          <HighlightedText text={bookmark.url} query={query} maxLength={80} />
         </p>
       </div>
       {kbdHintAction && (
@@ -1,7 +1,7 @@
 /* global chrome */
 declare const chrome: any;
 
-import React, { useEffect, useState, useRef } from "react";
+import React, { useEffect, useMemo, useState, useRef } from "react";
 import { Command } from "cmdk";
 import { TabManager, TabInfo } from "@/src/utils/tab-manager";
 import { fetchCSVLinks, filterCSVLinks, CSVLink } from "@/src/utils/csv-links";
@@ -18,16 +18,68 @@ import {
 import {
   searchProviders,
   findProviderByTrigger,
+  mergeProviders,
   SearchProvider,
 } from "./SearchProviders";
+import {
+  getCustomProviders,
+  onCustomProvidersChanged,
+} from "@/src/utils/custom-providers";
+import {
+  getProviderBundles,
+  onProviderBundlesChanged,
+  findBundleByTrigger,
+  buildBundleUrls,
+  openBundleSearch,
+  ProviderBundle,
+} from "@/src/utils/provider-bundles";
+import {
+  getFrecencyData,
+  recordSelection,
+  rankByFrecency,
+  frecencyKeyForUrl,
+  FrecencyData,
+} from "@/src/utils/frecency";
+import {
+  getEbayCategories,
+  buildEbayCategoryIndex,
+  searchEbayCategories,
+  frecencyKeyForEbayCategory,
+  lookupEbayCategoriesOnline,
+  EbayCategory,
+  EbayCategoryHit,
+} from "@/src/utils/ebay-categories";
+import { getQrSource, generateQrDataUrl, QrSource } from "@/src/utils/qr";
 import { TabItem } from "./TabItem";
 import { CSVLinkItem } from "./CSVLinkItem";
 import { BookmarkItem } from "./BookmarkItem";
 import { HistoryItemComponent } from "./HistoryItem";
+import { findTool, tools } from "./Tools";
+import { identifierActions } from "./IdentifierActions";
+import {
+  classifyIdentifier,
+  IDENTIFIER_LABELS,
+} from "@/src/utils/identifiers";
 import { Skeleton } from "@/src/components/ui/skeleton";
-import { X, Search as SearchIcon, Gamepad2, Layers } from "lucide-react";
+import {
+  X,
+  Search as SearchIcon,
+  Layers,
+  Download,
+  AlertTriangle,
+} from "lucide-react";
 import "./styles.css";
 
+// Wait for a pause in typing before searching eBay categories
+const EBAY_SEARCH_DELAY = 200;
+
+// An item from any source that can be promoted into "Best matches"
+interface RankedCandidate {
+  value: string;
+  key: string;
+  node: React.ReactNode;
+}
+
 interface CMDKPaletteProps {
   isOpen: boolean;
   onClose: () => void;
@@ -46,15 +98,24 @@ export function CMDKPalette({
   const [csvLinksLoading, setCSVLinksLoading] = useState(false);
   const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
   const [history, setHistory] = useState<HistoryItem[]>([]);
+  const [frecency, setFrecency] = useState<FrecencyData>({});
   const [activeProvider, setActiveProvider] = useState<SearchProvider | null>(
     null
   );
   const [providerQuery, setProviderQuery] = useState("");
-  const [ebaySuggestions, setEbaySuggestions] = useState<any[]>([]);
+  const [providers, setProviders] = useState<SearchProvider[]>(searchProviders);
+  const [bundles, setBundles] = useState<ProviderBundle[]>([]);
+  const [ebayCategories, setEbayCategories] = useState<EbayCategory[]>([]);
+  const [onlineEbaySuggestions, setOnlineEbaySuggestions] = useState<
+    EbayCategoryHit[]
+  >([]);
   const [ebayLoading, setEbayLoading] = useState(false);
   const [copiedEbayId, setCopiedEbayId] = useState<string | null>(null);
   const [userNavigated, setUserNavigated] = useState(false);
   const [selectedValue, setSelectedValue] = useState<string>("");
+  const [qrPreview, setQrPreview] = useState<
+    (QrSource & { dataUrl: string }) | null
+  >(null);
   const listRef = useRef<HTMLDivElement>(null);
   const [enabledSources, setEnabledSources] = useState({
     tabs: true,
@@ -93,6 +154,18 @@ export function CMDKPalette({
         setSourceOrder(result.cmdkSettings.sourceOrder);
       }
     });
+
+    // Merge user-defined providers and keep them in sync with Settings
+    getCustomProviders().then((custom) => setProviders(mergeProviders(custom)));
+    getProviderBundles().then(setBundles);
+    const unsubscribeProviders = onCustomProvidersChanged((custom) =>
+      setProviders(mergeProviders(custom))
+    );
+    const unsubscribeBundles = onProviderBundlesChanged(setBundles);
+    return () => {
+      unsubscribeProviders();
+      unsubscribeBundles();
+    };
   }, []);
 
   useEffect(() => {
@@ -101,7 +174,10 @@ export function CMDKPalette({
       if (enabledSources.quickLinks) loadCSVLinks();
       if (enabledSources.bookmarks) loadBookmarks();
       if (enabledSources.history) loadHistory();
+      if (enabledSources.ebayCategories) loadEbayCategories();
+      getFrecencyData().then(setFrecency);
       setSearch("");
+      setQrPreview(null);
       setActiveProvider(null);
       setProviderQuery("");
       setUserNavigated(false);
@@ -140,6 +216,23 @@ export function CMDKPalette({
     setHistory(recentHistory);
   };
 
+  const loadEbayCategories = async () => {
+    setEbayCategories(await getEbayCategories());
+
+    // Have the background download the tree if it is missing or stale
+    const response = await new Promise<any>((resolve) => {
+      chrome.runtime.sendMessage(
+        { action: "REFRESH_EBAY_CATEGORIES", ifStale: true },
+        (resp: any) => resolve(resp)
+      );
+    });
+    if (response?.refreshed) {
+      setEbayCategories(await getEbayCategories());
+    } else if (!response?.success) {
+      console.error("Failed to refresh eBay categories:", response?.error);
+    }
+  };
+
   const handleValueChange = (value: string) => {
     setSearch(value);
 
@@ -150,7 +243,7 @@ export function CMDKPalette({
 
     // Check if user is typing a provider trigger
     if (!activeProvider) {
-      const provider = findProviderByTrigger(value);
+      const provider = findProviderByTrigger(value, providers);
       if (provider && value.toLowerCase().trim() === provider.trigger[0]) {
         // Don't auto-activate, wait for Tab key
       }
@@ -173,7 +266,7 @@ export function CMDKPalette({
 
     // Tab key to activate provider
     if (e.key === "Tab" && !activeProvider) {
-      const provider = findProviderByTrigger(search);
+      const provider = findProviderByTrigger(search, providers);
       if (provider) {
         e.preventDefault();
         // If the user typed the trigger followed by a query, preserve the remainder
@@ -189,9 +282,12 @@ export function CMDKPalette({
       }
     }
 
-    // Escape to close or deactivate provider
+    // Escape to close the QR preview, deactivate provider or close
     if (e.key === "Escape") {
-      if (activeProvider) {
+      if (qrPreview) {
+        e.preventDefault();
+        setQrPreview(null);
+      } else if (activeProvider) {
         setActiveProvider(null);
         setProviderQuery("");
         setSearch("");
@@ -201,7 +297,40 @@ export function CMDKPalette({
     }
   };
 
+  // Map a CMDK item value to its frecency key (null for non-rankable items)
+  const frecencyKeyForValue = (value: string): string | null => {
+    if (value.startsWith("tab-")) {
+      const tab = tabs.find((t) => `tab-${t.id}` === value);
+      return tab?.url ? frecencyKeyForUrl(tab.url) : null;
+    }
+    if (value.startsWith("csv-link-")) {
+      const link = csvLinks.find((l) => l.id === value);
+      return link ? frecencyKeyForUrl(link.url) : null;
+    }
+    if (value.startsWith("bookmark-")) {
+      const bookmark = bookmarks.find((b) => `bookmark-${b.id}` === value);
+      return bookmark ? frecencyKeyForUrl(bookmark.url) : null;
+    }
+    if (value.startsWith("history-")) {
+      const item = history.find((h) => `history-${h.id}` === value);
+      return item ? frecencyKeyForUrl(item.url) : null;
+    }
+    if (value.startsWith("tool-")) {
+      return `tool:${value.replace("tool-", "")}`;
+    }
+    if (value.startsWith("ebay-cat-")) {
+      return frecencyKeyForEbayCategory(value.replace("ebay-cat-", ""));
+    }
+    return null;
+  };
+
   const handleSelect = async (value: string) => {
+    const frecencyKey = frecencyKeyForValue(value);
+    if (frecencyKey) {
+      // Await the write so it lands before the popup closes
+      setFrecency(await recordSelection(frecencyKey));
+    }
+
     if (value.startsWith("tab-")) {
       const tabId = parseInt(value.replace("tab-", ""));
       await TabManager.switchToTab(tabId);
@@ -209,7 +338,7 @@ export function CMDKPalette({
     } else if (value.startsWith("provider-switch-")) {
       // Handle switching between providers when one is already active
       const providerId = value.replace("provider-switch-", "");
-      const provider = searchProviders.find((p) => p.id === providerId);
+      const provider = providers.find((p) => p.id === providerId);
       if (provider) {
         // When switching providers, preserve the current query if one exists
         const currentQuery = activeProvider ? providerQuery : "";
@@ -219,7 +348,7 @@ export function CMDKPalette({
       }
     } else if (value.startsWith("provider-")) {
       const providerId = value.replace("provider-", "");
-      const provider = searchProviders.find((p) => p.id === providerId);
+      const provider = providers.find((p) => p.id === providerId);
       if (provider) {
         // When switching providers, preserve the current query if one exists
         const currentQuery = activeProvider ? providerQuery : "";
@@ -227,6 +356,12 @@ export function CMDKPalette({
         setProviderQuery(currentQuery);
         setSearch("");
       }
+    } else if (value.startsWith("bundle-")) {
+      const bundleId = value.replace("bundle-", "");
+      const bundle = bundles.find((b) => b.id === bundleId);
+      if (bundle && bundleQuery) {
+        await runBundleSearch(bundle, bundleQuery);
+      }
     } else if (value.startsWith("csv-link-")) {
       const linkId = value;
       const link = csvLinks.find((l) => l.id === linkId);
@@ -250,13 +385,16 @@ export function CMDKPalette({
       }
     } else if (value.startsWith("tool-")) {
       const toolId = value.replace("tool-", "");
-      if (toolId === "controller-testing") {
-        // Send message to open controller testing in sidebar and await ack before closing
+      const tool = findTool(toolId);
+      if (tool?.launch === "sidepanel" || tool?.launch === "page") {
+        // Ask the background to open the tool and await ack before closing
         try {
           const response = await new Promise<any>((resolve) => {
             try {
               chrome.runtime.sendMessage(
-                { action: "openInSidebar", tool: "controller-testing" },
+                tool.launch === "sidepanel"
+                  ? { action: "openInSidebar", tool: toolId }
+                  : { action: "openToolPage", tool: toolId },
                 (resp: any) => resolve(resp)
               );
             } catch (err) {
@@ -264,18 +402,26 @@ export function CMDKPalette({
             }
           });
           if (!response?.success && chrome.runtime.lastError) {
-            console.error("Error opening sidebar:", chrome.runtime.lastError);
+            console.error("Error opening tool:", chrome.runtime.lastError);
           }
         } finally {
           onClose();
         }
+      } else if (toolId === "qr-code") {
+        await showQrForActiveTab();
+      }
+    } else if (value.startsWith("identifier-")) {
+      const actionId = value.replace("identifier-", "");
+      const action = identifierItems.find((a) => a.id === actionId);
+      if (action) {
+        await openUrlAndClose(action.url);
       }
     } else if (value.startsWith("ebay-cat-")) {
       // Copy category path to clipboard but keep the palette open and show feedback
       const catId = value.replace("ebay-cat-", "");
-      const suggestion = ebaySuggestions.find((s) => s.categoryId === catId);
+      const suggestion = ebaySuggestions.find((s) => s.category.id === catId);
       if (suggestion) {
-        await copyEbayCategory(suggestion.categoryPath, suggestion.categoryId);
+        await copyEbayCategory(suggestion.path, suggestion.category.id);
       }
     }
   };
@@ -304,6 +450,17 @@ export function CMDKPalette({
     }
   };
 
+  // Open every provider in the bundle in one tab group named after the query
+  const runBundleSearch = async (bundle: ProviderBundle, query: string) => {
+    const urls = buildBundleUrls(bundle, providers, query);
+    if (!urls.length) return;
+    try {
+      await openBundleSearch(urls, query);
+    } finally {
+      onClose();
+    }
+  };
+
   // Copy helper for ebay categories
   const copyEbayCategory = async (categoryPath: string, categoryId: string) => {
     try {
@@ -315,47 +472,82 @@ export function CMDKPalette({
     }
   };
 
-  // Fetch eBay suggestions when search changes (not tied to provider)
+  // Search the locally cached category tree once typing pauses; recently
+  // copied categories rank first among similar matches
+  const [ebayQuery, setEbayQuery] = useState("");
   useEffect(() => {
-    if (!enabledSources.ebayCategories) {
-      setEbaySuggestions([]);
+    const query = enabledSources.ebayCategories ? trimmedSearch : "";
+    // Too short to search: clear right away instead of after the delay
+    if (query.length < 2) {
+      setEbayQuery(query);
+      return;
+    }
+    const t = setTimeout(() => setEbayQuery(query), EBAY_SEARCH_DELAY);
+    return () => clearTimeout(t);
+  }, [trimmedSearch, enabledSources.ebayCategories]);
+
+  const ebayCacheEmpty = ebayCategories.length === 0;
+  const ebayIndex = useMemo(
+    () => buildEbayCategoryIndex(ebayCategories),
+    [ebayCategories]
+  );
+  const localEbaySuggestions = useMemo(
+    () =>
+      ebayQuery.length < 2
+        ? []
+        : searchEbayCategories(ebayIndex, ebayQuery, frecency),
+    [ebayIndex, ebayQuery, frecency]
+  );
+
+  // Until the tree has been downloaded, fall back to the online lookup
+  useEffect(() => {
+    if (!ebayCacheEmpty || ebayQuery.length < 2) {
+      setOnlineEbaySuggestions([]);
       return;
     }
 
     let cancelled = false;
     const fetchSuggestions = async () => {
-      const q = search.trim();
-      if (q.length < 2) {
-        setEbaySuggestions([]);
-        return;
-      }
       setEbayLoading(true);
-      try {
-        const res = await fetch(
-          `https://paymore-extension.vercel.app/api/ebay-categories?q=${encodeURIComponent(
-            q
-          )}`
-        );
-        const data = await res.json().catch(() => ({}));
-        if (!cancelled) {
-          setEbaySuggestions((data.suggestions || []).slice(0, 1));
-        }
-      } catch (err) {
-        console.error("Failed to fetch eBay suggestions:", err);
-        if (!cancelled) {
-          setEbaySuggestions([]);
-        }
-      } finally {
-        if (!cancelled) setEbayLoading(false);
+      const hits = await lookupEbayCategoriesOnline(ebayQuery);
+      if (!cancelled) {
+        setOnlineEbaySuggestions(hits);
+        setEbayLoading(false);
       }
     };
 
-    const t = setTimeout(fetchSuggestions, 250);
+    // ebayQuery is already debounced
+    fetchSuggestions();
     return () => {
       cancelled = true;
-      clearTimeout(t);
+      setEbayLoading(false);
     };
-  }, [search, enabledSources.ebayCategories]);
+  }, [ebayQuery, ebayCacheEmpty]);
+
+  const ebaySuggestions = ebayCacheEmpty
+    ? onlineEbaySuggestions
+    : localEbaySuggestions;
+
+  // "comp <query>" narrows to the matching bundle; otherwise every bundle is
+  // offered for the whole search text
+  const bundleMatch =
+    !activeProvider && trimmedSearch
+      ? findBundleByTrigger(search, bundles)
+      : null;
+  const bundleQuery = bundleMatch ? bundleMatch.query : trimmedSearch;
+  const visibleBundles =
+    activeProvider || !enabledSources.searchProviders || !bundleQuery
+      ? []
+      : bundleMatch
+      ? [bundleMatch.bundle]
+      : bundles;
+
+  // A pasted UPC, ISBN, ASIN or IMEI gets its own lookups above everything
+  const identifier =
+    !activeProvider && trimmedSearch ? classifyIdentifier(trimmedSearch) : null;
+  const identifierItems = identifier
+    ? identifierActions(identifier, providers)
+    : [];
 
   const filteredTabs =
     activeProvider || !enabledSources.tabs
@@ -376,17 +568,17 @@ export function CMDKPalette({
       ? []
       : filterHistory(history, search);
 
-  // Filter tools by search (always include controller testing)
+  // Tools are always listed while the tools source is enabled
   const filteredTools =
-    activeProvider || !enabledSources.tools
-      ? []
-      : [
-          {
-            id: "controller-testing",
-            label: "Controller Testing",
-            description: "Test hardware controllers",
-          },
-        ];
+    activeProvider || !enabledSources.tools ? [] : tools;
+
+  // Encode the page selection (or tab URL) and show it inside the palette
+  const showQrForActiveTab = async () => {
+    const source = await getQrSource();
+    if (!source) return;
+    const dataUrl = await generateQrDataUrl(source.text, 256);
+    if (dataUrl) setQrPreview({ ...source, dataUrl });
+  };
 
   const getUrlFromInput = (input: string): string | null => {
     const value = input.trim();
@@ -426,8 +618,95 @@ export function CMDKPalette({
     await openUrlAndClose(url);
   };
 
+  // Rank every visible item by how often and how recently it was picked.
+  // Candidates are listed in order of preferred source so a URL that is open
+  // in a tab is offered as a tab switch rather than a new tab.
+  const rankingCandidates: RankedCandidate[] = [
+    ...filteredTabs.map((tab) => ({
+      value: `tab-${tab.id}`,
+      key: frecencyKeyForUrl(tab.url || ""),
+      node: (
+        <TabItem tab={tab} kbdHintAction="Switch to tab" query={search} />
+      ),
+    })),
+    ...filteredCSVLinks.map((link) => ({
+      value: link.id,
+      key: frecencyKeyForUrl(link.url),
+      node: (
+        <CSVLinkItem link={link} kbdHintAction="Open in new tab" query={search} />
+      ),
+    })),
+    ...filteredTools.map((tool) => ({
+      value: `tool-${tool.id}`,
+      key: `tool:${tool.id}`,
+      node: (
+        <div className="flex items-center gap-3 px-4 py-3 w-full">
+          <div className="p-2 rounded bg-blue-500">
+            <tool.icon className="w-4 h-4 text-white" />
+          </div>
+          <div className="flex-1">
+            <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+              {tool.label}
+            </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {tool.description}
+            </p>
+          </div>
+          <div className="cmdk-item-kbd-hint">
+            <kbd className="cmdk-kbd">↵</kbd>
+          </div>
+        </div>
+      ),
+    })),
+    ...filteredBookmarks.map((bookmark) => ({
+      value: `bookmark-${bookmark.id}`,
+      key: frecencyKeyForUrl(bookmark.url),
+      node: (
+        <BookmarkItem
+          bookmark={bookmark}
+          kbdHintAction="Open in new tab"
+          query={search}
+        />
+      ),
+    })),
+    ...filteredHistory.map((item) => ({
+      value: `history-${item.id}`,
+      key: frecencyKeyForUrl(item.url),
+      node: (
+        <HistoryItemComponent
+          item={item}
+          kbdHintAction="Open in new tab"
+          query={search}
+        />
+      ),
+    })),
+  ];
+  const bestMatches = rankByFrecency(
+    rankingCandidates,
+    (candidate) => candidate.key,
+    frecency
+  );
+  const bestMatchValues = new Set(bestMatches.map((c) => c.value));
+
+  // Promoted items are removed from their source group so CMDK values stay unique
+  const visibleTabs = filteredTabs.filter(
+    (tab) => !bestMatchValues.has(`tab-${tab.id}`)
+  );
+  const visibleCSVLinks = filteredCSVLinks.filter(
+    (link) => !bestMatchValues.has(link.id)
+  );
+  const visibleTools = filteredTools.filter(
+    (tool) => !bestMatchValues.has(`tool-${tool.id}`)
+  );
+  const visibleBookmarks = filteredBookmarks.filter(
+    (bookmark) => !bestMatchValues.has(`bookmark-${bookmark.id}`)
+  );
+  const visibleHistory = filteredHistory.filter(
+    (item) => !bestMatchValues.has(`history-${item.id}`)
+  );
+
   // Group CSV links by category and sort alphabetically
-  const csvLinksByCategory = filteredCSVLinks.reduce((acc, link) => {
+  const csvLinksByCategory = visibleCSVLinks.reduce((acc, link) => {
     const category = link.category || "General";
     if (!acc[category]) acc[category] = [];
     acc[category].push(link);
@@ -441,18 +720,26 @@ export function CMDKPalette({
     return b.localeCompare(a); // Reversed: b comes before a
   });
 
-  // Sort links within each category alphabetically by title
-  sortedCategories.forEach((category) => {
-    csvLinksByCategory[category].sort((a, b) => a.title.localeCompare(b.title));
-  });
+  // Sort links within each category alphabetically by title. While
+  // searching, keep the fuzzy score order from filterCSVLinks instead.
+  if (!trimmedSearch) {
+    sortedCategories.forEach((category) => {
+      csvLinksByCategory[category].sort((a, b) =>
+        a.title.localeCompare(b.title)
+      );
+    });
+  }
 
   // Check if there are any visible items
   const hasVisibleItems =
+    identifierItems.length > 0 ||
     filteredTabs.length > 0 ||
     filteredCSVLinks.length > 0 ||
     filteredTools.length > 0 ||
     filteredBookmarks.length > 0 ||
-    filteredHistory.length > 0;
+    filteredHistory.length > 0 ||
+    visibleBundles.length > 0 ||
+    (!ebayLoading && ebaySuggestions.length > 0);
 
   if (!isOpen) return null;
 
@@ -519,6 +806,12 @@ export function CMDKPalette({
                   e.preventDefault();
                   handleSearchSubmit();
                 } else if (!activeProvider && trimmedSearch) {
+                  if (bundleMatch && bundleMatch.query && !userNavigated) {
+                    e.preventDefault();
+                    void runBundleSearch(bundleMatch.bundle, bundleMatch.query);
+                    return;
+                  }
+
                   const urlCandidate = getUrlFromInput(trimmedSearch);
                   if (urlCandidate) {
                     e.preventDefault();
@@ -538,7 +831,44 @@ export function CMDKPalette({
         </div>
       </div>
 
-      <Command.List className="cmdk-list" ref={listRef}>
+      {qrPreview && (
+        <div className="cmdk-qr-preview">
+          <img
+            src={qrPreview.dataUrl}
+            alt="QR code"
+            width={256}
+            height={256}
+            className="rounded bg-white"
+          />
+          <div className="flex-1 min-w-0 space-y-2">
+            <p className="text-xs font-medium uppercase text-gray-500 dark:text-gray-400">
+              {qrPreview.kind === "selection" ? "Selected text" : "Tab URL"}
+            </p>
+            <p className="text-sm text-gray-900 dark:text-gray-100 break-all line-clamp-6">
+              {qrPreview.text}
+            </p>
+            <div className="flex items-center gap-2">
+              <a
+                href={qrPreview.dataUrl}
+                download="qr-code.png"
+                className="flex items-center gap-1 px-3 py-1.5 text-xs rounded bg-blue-500 text-white hover:bg-blue-600"
+              >
+                <Download className="w-3 h-3" />
+                Download
+              </a>
+              <span className="text-xs text-gray-400 dark:text-gray-500">
+                <kbd className="cmdk-kbd">Esc</kbd> to go back
+              </span>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <Command.List
+        className="cmdk-list"
+        ref={listRef}
+        hidden={Boolean(qrPreview)}
+      >
         <Command.Empty className="cmdk-empty">
           <div className="flex flex-col items-center justify-center py-8 px-4">
             <SearchIcon className="w-12 h-12 text-gray-300 dark:text-gray-600 mb-3" />
@@ -562,7 +892,7 @@ export function CMDKPalette({
           <>
             {/* Show all search providers when one is active - for switching */}
             <Command.Group heading="Search Providers" className="cmdk-group">
-              {searchProviders
+              {providers
                 .filter((p: SearchProvider) => !p.hideInSwitcher)
                 .map((provider: SearchProvider) => (
                   <Command.Item
@@ -605,6 +935,49 @@ export function CMDKPalette({
 
         {!activeProvider && (
           <>
+            {/* Identifier lookups - shown first when the input is a code */}
+            {identifier && identifierItems.length > 0 && (
+              <Command.Group
+                heading={IDENTIFIER_LABELS[identifier.type]}
+                className="cmdk-group"
+              >
+                {identifier.valid === false && (
+                  <div className="flex items-center gap-2 mx-2 my-1 px-3 py-2 rounded text-xs text-amber-800 bg-amber-50 dark:text-amber-200 dark:bg-amber-950/30">
+                    <AlertTriangle className="w-4 h-4 shrink-0" />
+                    <span>
+                      Check digit doesn't match; {identifier.code} may be
+                      mistyped
+                    </span>
+                  </div>
+                )}
+                {identifierItems.map((action) => (
+                  <Command.Item
+                    key={action.id}
+                    value={`identifier-${action.id}`}
+                    onSelect={handleSelect}
+                    className="cmdk-item"
+                  >
+                    <div className="flex items-center gap-3 px-4 py-3 w-full">
+                      <div className={`p-2 rounded ${action.color}`}>
+                        <action.icon className="w-4 h-4 text-white" />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                          {action.label}
+                        </p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                          {IDENTIFIER_LABELS[identifier.type]} {identifier.code}
+                        </p>
+                      </div>
+                      <div className="cmdk-item-kbd-hint">
+                        <kbd className="cmdk-kbd">↵</kbd>
+                      </div>
+                    </div>
+                  </Command.Item>
+                ))}
+              </Command.Group>
+            )}
+
             {/* Previous Tab - shown as first option when no search */}
             {showPreviousTabHint && previousTab && (
               <Command.Group heading="Previous Tab" className="cmdk-group">
@@ -619,6 +992,22 @@ export function CMDKPalette({
               </Command.Group>
             )}
 
+            {/* Best matches - most frequently and recently used items */}
+            {bestMatches.length > 0 && (
+              <Command.Group heading="Best matches" className="cmdk-group">
+                {bestMatches.map((candidate) => (
+                  <Command.Item
+                    key={candidate.value}
+                    value={candidate.value}
+                    onSelect={handleSelect}
+                    className="cmdk-item"
+                  >
+                    {candidate.node}
+                  </Command.Item>
+                ))}
+              </Command.Group>
+            )}
+
             {/* Render sources in the order specified by sourceOrder */}
             {sourceOrder.map((sourceKey) => {
               switch (sourceKey) {
@@ -663,6 +1052,7 @@ export function CMDKPalette({
                                 <CSVLinkItem
                                   link={link}
                                   kbdHintAction="Open in new tab"
+                                  query={search}
                                 />
                               </Command.Item>
                             ))}
@@ -700,8 +1090,8 @@ export function CMDKPalette({
                         >
                           {ebaySuggestions.map((s) => (
                             <Command.Item
-                              key={s.categoryId}
-                              value={`ebay-cat-${s.categoryId}`}
+                              key={s.category.id}
+                              value={`ebay-cat-${s.category.id}`}
                               onSelect={handleSelect}
                               className="cmdk-item"
                             >
@@ -713,14 +1103,14 @@ export function CMDKPalette({
                                 </div>
                                 <div className="flex-1">
                                   <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
-                                    {s.categoryName}
+                                    {s.category.name}
                                   </p>
                                   <p className="text-xs text-gray-500 dark:text-gray-400">
-                                    {s.categoryPath}
+                                    {s.path}
                                   </p>
                                 </div>
                                 <div className="cmdk-item-kbd-hint">
-                                  {copiedEbayId === s.categoryId ? (
+                                  {copiedEbayId === s.category.id ? (
                                     <kbd className="cmdk-kbd">Copied</kbd>
                                   ) : (
                                     <kbd className="cmdk-kbd">↵</kbd>
@@ -738,12 +1128,12 @@ export function CMDKPalette({
                   return (
                     <React.Fragment key="bookmarks">
                       {/* Bookmarks */}
-                      {filteredBookmarks.length > 0 && (
+                      {visibleBookmarks.length > 0 && (
                         <Command.Group
                           heading="Bookmarks"
                           className="cmdk-group"
                         >
-                          {filteredBookmarks.map((bookmark) => (
+                          {visibleBookmarks.map((bookmark) => (
                             <Command.Item
                               key={bookmark.id}
                               value={`bookmark-${bookmark.id}`}
@@ -753,6 +1143,7 @@ export function CMDKPalette({
                               <BookmarkItem
                                 bookmark={bookmark}
                                 kbdHintAction="Open in new tab"
+                                query={search}
                               />
                             </Command.Item>
                           ))}
@@ -765,9 +1156,9 @@ export function CMDKPalette({
                   return (
                     <React.Fragment key="tools">
                       {/* Tools */}
-                      {filteredTools.length > 0 && (
+                      {visibleTools.length > 0 && (
                         <Command.Group heading="Tools" className="cmdk-group">
-                          {filteredTools.map((tool) => (
+                          {visibleTools.map((tool) => (
                             <Command.Item
                               key={tool.id}
                               value={`tool-${tool.id}`}
@@ -776,7 +1167,7 @@ export function CMDKPalette({
                             >
                               <div className="flex items-center gap-3 px-4 py-3 w-full">
                                 <div className="p-2 rounded bg-blue-500">
-                                  <Gamepad2 className="w-4 h-4 text-white" />
+                                  <tool.icon className="w-4 h-4 text-white" />
                                 </div>
                                 <div className="flex-1">
                                   <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
@@ -801,9 +1192,9 @@ export function CMDKPalette({
                   return (
                     <React.Fragment key="tabs">
                       {/* Tab results */}
-                      {filteredTabs.length > 0 && (
+                      {visibleTabs.length > 0 && (
                         <Command.Group heading="Tabs" className="cmdk-group">
-                          {filteredTabs.map((tab) => (
+                          {visibleTabs.map((tab) => (
                             <Command.Item
                               key={tab.id}
                               value={`tab-${tab.id}`}
@@ -813,6 +1204,7 @@ export function CMDKPalette({
                               <TabItem
                                 tab={tab}
                                 kbdHintAction="Switch to tab"
+                                query={search}
                               />
                             </Command.Item>
                           ))}
@@ -827,7 +1219,7 @@ export function CMDKPalette({
                       {/* Search providers */}
                       {trimmedSearch && enabledSources.searchProviders && (
                         <Command.Group heading="Search" className="cmdk-group">
-                          {searchProviders
+                          {providers
                             .filter((provider: SearchProvider) =>
                               provider.trigger.some((t) =>
                                 t.startsWith(search.toLowerCase())
@@ -860,6 +1252,53 @@ export function CMDKPalette({
                             ))}
                         </Command.Group>
                       )}
+
+                      {/* Comp search bundles */}
+                      {visibleBundles.length > 0 && (
+                        <Command.Group
+                          heading="Comp Search"
+                          className="cmdk-group"
+                        >
+                          {visibleBundles.map((bundle) => (
+                            <Command.Item
+                              key={bundle.id}
+                              value={`bundle-${bundle.id}`}
+                              onSelect={handleSelect}
+                              className="cmdk-item"
+                            >
+                              <div className="flex items-center gap-3 px-4 py-3 w-full">
+                                <div className="flex -space-x-2">
+                                  {bundle.providerIds.map((id) => {
+                                    const provider = providers.find(
+                                      (p) => p.id === id
+                                    );
+                                    if (!provider) return null;
+                                    return (
+                                      <div
+                                        key={id}
+                                        className={`p-1.5 rounded-full ring-2 ring-white dark:ring-gray-800 ${provider.color}`}
+                                      >
+                                        <provider.icon className="w-3 h-3 text-white" />
+                                      </div>
+                                    );
+                                  })}
+                                </div>
+                                <div className="flex-1 min-w-0">
+                                  <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+                                    {bundle.name}
+                                  </p>
+                                  <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                                    Open “{bundleQuery}” in a new tab group
+                                  </p>
+                                </div>
+                                <div className="cmdk-item-kbd-hint">
+                                  <kbd className="cmdk-kbd">↵</kbd>
+                                </div>
+                              </div>
+                            </Command.Item>
+                          ))}
+                        </Command.Group>
+                      )}
                     </React.Fragment>
                   );
 
@@ -867,12 +1306,12 @@ export function CMDKPalette({
                   return (
                     <React.Fragment key="history">
                       {/* Recent History */}
-                      {filteredHistory.length > 0 && (
+                      {visibleHistory.length > 0 && (
                         <Command.Group
                           heading="Recent History"
                           className="cmdk-group"
                         >
-                          {filteredHistory.map((item) => (
+                          {visibleHistory.map((item) => (
                             <Command.Item
                               key={item.id}
                               value={`history-${item.id}`}
@@ -882,6 +1321,7 @@ export function CMDKPalette({
                               <HistoryItemComponent
                                 item={item}
                                 kbdHintAction="Open in new tab"
+                                query={search}
                               />
                             </Command.Item>
                           ))}
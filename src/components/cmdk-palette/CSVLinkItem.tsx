@@ -1,21 +1,41 @@
 import { CSVLink } from "@/src/utils/csv-links";
 import { ExternalLink, Folder } from "lucide-react";
+import { HighlightedText } from "./HighlightedText";
+import { providerIcons } from "./SearchProviders";
 
 interface CSVLinkItemProps {
   link: CSVLink;
   kbdHintAction?: string;
+  query?: string;
 }
 
-export function CSVLinkItem({ link, kbdHintAction }: CSVLinkItemProps) {
+/**
+ * Icon column from the sheet: a provider icon name, an image URL or an emoji
+ */
+function LinkIcon({ icon }: { icon?: string }) {
+  if (icon && providerIcons[icon]) {
+    const Icon = providerIcons[icon];
+    return <Icon className="w-4 h-4 text-green-500" />;
+  }
+  if (icon && /^(https?:|data:image\/)/.test(icon)) {
+    return <img src={icon} alt="" className="w-4 h-4 rounded-sm" />;
+  }
+  if (icon) {
+    return <span className="text-sm leading-4">{icon}</span>;
+  }
+  return <ExternalLink className="w-4 h-4 text-green-500" />;
+}
+
+export function CSVLinkItem({ link, kbdHintAction, query }: CSVLinkItemProps) {
   return (
     <div className="flex items-center gap-3 px-4 py-3 w-full">
       <div className="flex-shrink-0 w-4 h-4">
-        <ExternalLink className="w-4 h-4 text-green-500" />
+        <LinkIcon icon={link.icon} />
       </div>
       <div className="flex-1 min-w-0">
         <div className="flex items-center gap-2">
           <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
-            {link.title}
+            <HighlightedText text={link.title} query={query} />
           </p>
           {link.category && (
             <span className="flex items-center gap-1 text-xs px-1.5 py-0.5 rounded bg-purple-100 text-purple-700 dark:bg-purple-900 dark:text-purple-300">
@@ -23,10 +43,20 @@ export function CSVLinkItem({ link, kbdHintAction }: CSVLinkItemProps) {
               {link.category}
             </span>
           )}
+          {link.sourceLabel && (
+            <span className="text-xs px-1.5 py-0.5 rounded bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300 whitespace-nowrap">
+              {link.sourceLabel}
+            </span>
+          )}
+          {link.shortcut && (
+            <kbd className="cmdk-kbd text-xs">
+              <HighlightedText text={link.shortcut} query={query} />
+            </kbd>
+          )}
         </div>
         {/* Description intentionally hidden per requirements */}
         <p className="text-xs text-gray-400 dark:text-gray-500 truncate">
-          {link.url}
+          <HighlightedText text={link.url} query={query} />
         </p>
       </div>
       {kbdHintAction && (
@@ -0,0 +1,43 @@
+import { useMemo } from "react";
+import { fuzzyMatch } from "@/src/utils/fuzzy";
+
+interface HighlightedTextProps {
+  text: string;
+  query?: string;
+  maxLength?: number;
+}
+
+/**
+ * Renders text with the characters matched by the fuzzy scorer highlighted
+ */
+export function HighlightedText({ text, query, maxLength }: HighlightedTextProps) {
+  const truncated =
+    maxLength && text.length > maxLength
+      ? text.substring(0, maxLength) + "..."
+      : text;
+  const visibleLength = maxLength ? Math.min(text.length, maxLength) : text.length;
+  // Only rescore when the text or query changes, not on every palette render
+  const ranges = useMemo(
+    () => (query ? fuzzyMatch(query, text)?.ranges ?? [] : []),
+    [query, text]
+  );
+
+  if (!ranges.length) return <>{truncated}</>;
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  for (const [start, rawEnd] of ranges) {
+    if (start >= visibleLength) break;
+    const end = Math.min(rawEnd, visibleLength);
+    if (start > cursor) parts.push(truncated.slice(cursor, start));
+    parts.push(
+      <mark key={start} className="cmdk-match">
+        {truncated.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  }
+  parts.push(truncated.slice(cursor));
+
+  return <>{parts}</>;
+}
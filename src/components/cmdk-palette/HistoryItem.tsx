@@ -1,17 +1,18 @@
 import { HistoryItem } from "@/src/utils/history";
 import { Clock } from "lucide-react";
+import { HighlightedText } from "./HighlightedText";
 
 interface HistoryItemProps {
   item: HistoryItem;
   kbdHintAction?: string;
+  query?: string;
 }
 
-export function HistoryItemComponent({ item, kbdHintAction }: HistoryItemProps) {
-  const truncateText = (text: string, maxLength: number) => {
-    if (text.length <= maxLength) return text;
-    return text.substring(0, maxLength) + "...";
-  };
-
+export function HistoryItemComponent({
+  item,
+  kbdHintAction,
+  query,
+}: HistoryItemProps) {
   return (
     <div className="flex items-center gap-3 px-4 py-3 w-full">
       <div className="flex-shrink-0 w-4 h-4">
@@ -19,10 +20,10 @@ export function HistoryItemComponent({ item, kbdHintAction }: HistoryItemProps)
       </div>
       <div className="flex-1 min-w-0">
         <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
-          {truncateText(item.title, 60)}
+          <HighlightedText text={item.title} query={query} maxLength={60} />
         </p>
         <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
-          {truncateText(item.url, 80)}
+          <HighlightedText text={item.url} query={query} maxLength={80} />
         </p>
       </div>
       {kbdHintAction && (
@@ -0,0 +1,102 @@
+import { Barcode, ShieldCheck, ShoppingCart, Tag } from "lucide-react";
+import type { SearchProvider } from "./SearchProviders";
+import type { IdentifierMatch, IdentifierType } from "@/src/utils/identifiers";
+
+export interface IdentifierAction {
+  id: string;
+  label: string;
+  url: string;
+  icon: React.ComponentType<{ className?: string }>;
+  color: string;
+}
+
+interface ActionDef {
+  id: string;
+  label: string;
+  icon: React.ComponentType<{ className?: string }>;
+  color: string;
+  // Search provider to run the code through, so custom overrides apply
+  providerId?: string;
+  // Direct URL for sites that aren't search providers
+  url?: string;
+}
+
+const upcLookup: ActionDef = {
+  id: "upcitemdb",
+  label: "Look up on UPCItemDB",
+  icon: Barcode,
+  color: "bg-gray-600",
+  providerId: "upcitemdb",
+};
+
+const ebaySold = (by: string): ActionDef => ({
+  id: "ebay",
+  label: `Search eBay sold by ${by}`,
+  icon: Tag,
+  color: "bg-green-800",
+  providerId: "ebay",
+});
+
+const amazonSearch = (by: string): ActionDef => ({
+  id: "amazon",
+  label: `Search Amazon by ${by}`,
+  icon: ShoppingCart,
+  color: "bg-orange-500",
+  providerId: "amazon",
+});
+
+/**
+ * Actions offered at the top of the palette for each identifier type,
+ * most useful first
+ */
+const IDENTIFIER_ACTIONS: Record<IdentifierType, ActionDef[]> = {
+  "upc-a": [upcLookup, ebaySold("UPC"), amazonSearch("UPC")],
+  "ean-13": [upcLookup, ebaySold("EAN"), amazonSearch("EAN")],
+  "isbn-13": [amazonSearch("ISBN"), ebaySold("ISBN"), upcLookup],
+  "isbn-10": [amazonSearch("ISBN"), ebaySold("ISBN")],
+  asin: [
+    {
+      id: "amazon-dp",
+      label: "Open on Amazon",
+      icon: ShoppingCart,
+      color: "bg-orange-500",
+      url: "https://www.amazon.com/dp/{query}",
+    },
+    ebaySold("ASIN"),
+  ],
+  imei: [
+    {
+      id: "imei-check",
+      label: "Check IMEI blacklist site",
+      icon: ShieldCheck,
+      color: "bg-red-500",
+      url: "https://www.imei.info/?imei={query}",
+    },
+  ],
+};
+
+/**
+ * Resolve the actions for an identifier into URLs, skipping provider
+ * actions whose provider has been removed
+ */
+export function identifierActions(
+  match: IdentifierMatch,
+  providers: SearchProvider[]
+): IdentifierAction[] {
+  const encoded = encodeURIComponent(match.code);
+  return IDENTIFIER_ACTIONS[match.type].flatMap((def) => {
+    const template = def.providerId
+      ? providers.find((p) => p.id === def.providerId)?.searchUrl
+      : def.url;
+    if (!template) return [];
+    return [
+      {
+        id: def.id,
+        label: def.label,
+        url: template.replace("{query}", encoded),
+        icon: def.icon,
+        color: def.color,
+      },
+    ];
+  });
+}
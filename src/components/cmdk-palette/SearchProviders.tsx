@@ -9,7 +9,12 @@ import {
   DollarSign,
   Store,
   TrendingUp,
+  Gamepad2,
+  Smartphone,
+  Package,
+  Globe,
 } from "lucide-react";
+import type { CustomProvider } from "@/src/utils/custom-providers";
 
 export interface SearchProvider {
   id: string;
@@ -20,8 +25,51 @@ export interface SearchProvider {
   color: string;
   // When true, provider will be excluded from the "switch providers" list
   hideInSwitcher?: boolean;
+  // Set for providers defined by the user in Settings
+  custom?: boolean;
 }
 
+/**
+ * Icons that can be picked for user-defined providers, keyed by the name
+ * stored in chrome.storage.sync
+ */
+export const providerIcons: Record<
+  string,
+  React.ComponentType<{ className?: string }>
+> = {
+  search: Search,
+  store: Store,
+  cart: ShoppingCart,
+  tag: Tag,
+  barcode: Barcode,
+  dollar: DollarSign,
+  trending: TrendingUp,
+  gamepad: Gamepad2,
+  phone: Smartphone,
+  package: Package,
+  globe: Globe,
+};
+
+/**
+ * Badge colors that can be picked for user-defined providers
+ */
+export const providerColors: string[] = [
+  "bg-green-500",
+  "bg-green-700",
+  "bg-emerald-600",
+  "bg-teal-600",
+  "bg-sky-500",
+  "bg-blue-600",
+  "bg-indigo-600",
+  "bg-purple-600",
+  "bg-pink-500",
+  "bg-red-500",
+  "bg-orange-500",
+  "bg-yellow-500",
+  "bg-gray-600",
+  "bg-stone-800",
+];
+
 export const searchProviders: SearchProvider[] = [
   {
     id: "google",
@@ -107,12 +155,52 @@ export const searchProviders: SearchProvider[] = [
   },
 ];
 
-export function findProviderByTrigger(input: string): SearchProvider | null {
+/**
+ * Turn a stored custom provider into a renderable SearchProvider
+ */
+export function toSearchProvider(custom: CustomProvider): SearchProvider {
+  return {
+    id: custom.id,
+    name: custom.name,
+    trigger: custom.trigger,
+    searchUrl: custom.searchUrl,
+    icon: providerIcons[custom.icon] || Search,
+    color: custom.color || "bg-gray-600",
+    custom: true,
+  };
+}
+
+/**
+ * Merge user-defined providers with the built-ins. A custom provider with
+ * the same id as a built-in replaces it; the editor rejects custom triggers
+ * that overlap another provider's, so order only matters for overrides.
+ */
+export function mergeProviders(custom: CustomProvider[]): SearchProvider[] {
+  const customProviders = custom.map(toSearchProvider);
+  const customIds = new Set(customProviders.map((p) => p.id));
+  return [
+    ...customProviders,
+    ...searchProviders.filter((p) => !customIds.has(p.id)),
+  ];
+}
+
+/**
+ * Whether typing one trigger would also match the other. Lookup matches by
+ * prefix, so "e" and "ebay" overlap just like "ebay" and "ebay".
+ */
+export function triggersOverlap(a: string, b: string): boolean {
+  return a.startsWith(b) || b.startsWith(a);
+}
+
+export function findProviderByTrigger(
+  input: string,
+  providers: SearchProvider[] = searchProviders
+): SearchProvider | null {
   const lowerInput = input.toLowerCase().trim();
 
-  for (const provider of searchProviders) {
+  for (const provider of providers) {
     for (const trigger of provider.trigger) {
-      if (trigger.startsWith(lowerInput) || lowerInput.startsWith(trigger)) {
+      if (triggersOverlap(trigger, lowerInput)) {
         return provider;
       }
     }
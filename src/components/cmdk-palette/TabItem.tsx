@@ -1,17 +1,14 @@
 import { TabInfo } from "@/src/utils/tab-manager";
 import { Globe } from "lucide-react";
+import { HighlightedText } from "./HighlightedText";
 
 interface TabItemProps {
   tab: TabInfo;
   kbdHintAction?: string;
+  query?: string;
 }
 
-export function TabItem({ tab, kbdHintAction }: TabItemProps) {
-  const truncateText = (text: string, maxLength: number) => {
-    if (text.length <= maxLength) return text;
-    return text.substring(0, maxLength) + "...";
-  };
-
+export function TabItem({ tab, kbdHintAction, query }: TabItemProps) {
   return (
     <div className="flex items-center gap-3 px-4 py-3 w-full">
       <div className="flex-shrink-0 w-4 h-4">
@@ -31,7 +28,11 @@ export function TabItem({ tab, kbdHintAction }: TabItemProps) {
       <div className="flex-1 min-w-0">
         <div className="flex items-center gap-2">
           <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
-            {truncateText(tab.title || "Untitled", 60)}
+            <HighlightedText
+              text={tab.title || "Untitled"}
+              query={query}
+              maxLength={60}
+            />
           </p>
           {tab.active && (
             <span className="text-xs px-1.5 py-0.5 rounded bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300">
@@ -40,7 +41,7 @@ export function TabItem({ tab, kbdHintAction }: TabItemProps) {
           )}
         </div>
         <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
-          {truncateText(tab.url || "", 80)}
+          <HighlightedText text={tab.url || ""} query={query} maxLength={80} />
         </p>
       </div>
       {kbdHintAction && (
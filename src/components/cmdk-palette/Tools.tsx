@@ -0,0 +1,83 @@
+import {
+  Camera,
+  Gamepad2,
+  Hand,
+  Headphones,
+  Keyboard,
+  Monitor,
+  QrCode,
+} from "lucide-react";
+
+/**
+ * Where a tool opens: the extension side panel, a fullscreen extension
+ * page (opened by the background) or inside the palette itself
+ */
+export type ToolLaunch = "sidepanel" | "page" | "palette";
+
+export interface Tool {
+  id: string;
+  label: string;
+  description: string;
+  icon: React.ComponentType<{ className?: string }>;
+  launch: ToolLaunch;
+}
+
+/**
+ * Tools listed in the palette's "Tools" group, in display order. Page
+ * tools also need an entry in the background's TOOL_PAGES.
+ */
+export const tools: Tool[] = [
+  {
+    id: "controller-testing",
+    label: "Controller Testing",
+    description: "Test hardware controllers",
+    icon: Gamepad2,
+    launch: "sidepanel",
+  },
+  {
+    id: "audio-test",
+    label: "Audio Test",
+    description: "Left/right channels, frequency sweep and polarity",
+    icon: Headphones,
+    launch: "sidepanel",
+  },
+  {
+    id: "keyboard-testing",
+    label: "Keyboard Testing",
+    description: "Find dead, stuck and chattering keys",
+    icon: Keyboard,
+    launch: "sidepanel",
+  },
+  {
+    id: "media-check",
+    label: "Camera & Mic Check",
+    description: "Preview webcams and record from microphones",
+    icon: Camera,
+    launch: "sidepanel",
+  },
+  {
+    id: "display-test",
+    label: "Display Test",
+    description: "Fullscreen dead pixel and backlight bleed check",
+    icon: Monitor,
+    launch: "page",
+  },
+  {
+    id: "digitizer-test",
+    label: "Touchscreen Test",
+    description: "Paint the screen to find touch and stylus dead zones",
+    icon: Hand,
+    launch: "page",
+  },
+  {
+    id: "qr-code",
+    label: "QR Code",
+    description: "QR for current tab URL / selected text",
+    icon: QrCode,
+    launch: "palette",
+  },
+];
+
+export function findTool(id: string): Tool | undefined {
+  return tools.find((tool) => tool.id === id);
+}
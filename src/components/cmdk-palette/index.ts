@@ -2,5 +2,13 @@ export { CMDKPalette } from "./CMDKPalette";
 export { TabItem } from "./TabItem";
 export { CSVLinkItem } from "./CSVLinkItem";
 export { ToolbarItem } from "./ToolbarItem";
-export { searchProviders, findProviderByTrigger } from "./SearchProviders";
+export {
+  searchProviders,
+  findProviderByTrigger,
+  mergeProviders,
+} from "./SearchProviders";
 export type { SearchProvider } from "./SearchProviders";
+export { tools, findTool } from "./Tools";
+export type { Tool, ToolLaunch } from "./Tools";
+export { identifierActions } from "./IdentifierActions";
+export type { IdentifierAction } from "./IdentifierActions";
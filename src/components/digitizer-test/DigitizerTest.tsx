@@ -0,0 +1,445 @@
+import { PointerEvent, useEffect, useMemo, useRef, useState } from "react";
+import { ArrowUpDown, Maximize } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import ReportPanel from "../sidepanel/ReportPanel";
+import {
+  DIGITIZER_GRADE_DESCRIPTIONS,
+  DIGITIZER_HISTORY_KEY,
+  DigitizerGrid,
+  PointerStats,
+  buildDigitizerReport,
+  cellLabel,
+  coverSegment,
+  createDigitizerGrid,
+  createPointerStats,
+  describeDigitizerDevice,
+  digitizerReportToHtml,
+  recordPointer,
+} from "@/src/utils/digitizer-test";
+import { newReportBase } from "@/src/utils/device-report";
+import { useReportAutosave } from "../sidepanel/useReportAutosave";
+
+const COLOR_BACKGROUND = "#fafafa";
+const COLOR_GRID = "#e5e5e5";
+const COLOR_COVERED = "rgba(34,197,94,0.25)";
+const COLOR_DEAD = "rgba(239,68,68,0.5)";
+const STROKE_COLORS: Record<string, string> = {
+  pen: "#1d4ed8",
+  touch: "#15803d",
+  mouse: "#44403c",
+};
+// Dead cells listed in the summary before it's cut short
+const MAX_LISTED_CELLS = 12;
+
+
+function toggleFullscreen() {
+  if (document.fullscreenElement) {
+    document.exitFullscreen().catch(() => {});
+  } else {
+    document.documentElement.requestFullscreen().catch(() => {});
+  }
+}
+
+/**
+ * Fullscreen digitizer test page. The tester paints the whole screen;
+ * finishing highlights cells that never registered and holds the report.
+ */
+export default function DigitizerTest() {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const gridRef = useRef<DigitizerGrid>(createDigitizerGrid(1, 1));
+  const coveredRef = useRef(new Uint8Array(1));
+  const statsRef = useRef<PointerStats>(createPointerStats());
+  // Last position and type of each pointer in contact
+  const pointersRef = useRef(
+    new Map<number, { x: number; y: number; type: string }>()
+  );
+  const hudFrameRef = useRef<number | null>(null);
+
+  const [coveredCount, setCoveredCount] = useState(0);
+  const [stats, setStats] = useState<PointerStats>(createPointerStats);
+  const [painting, setPainting] = useState(false);
+  const [hudAtTop, setHudAtTop] = useState(true);
+  const [showSummary, setShowSummary] = useState(false);
+  const [finishCount, setFinishCount] = useState(0);
+  const [name, setName] = useState("");
+  const [reportBase, setReportBase] = useState(newReportBase);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const getContext = () => canvasRef.current?.getContext("2d") ?? null;
+
+  const fillCell = (cell: number, color: string) => {
+    const ctx = getContext();
+    const grid = gridRef.current;
+    if (!ctx) return;
+    ctx.fillStyle = color;
+    ctx.fillRect(
+      (cell % grid.columns) * grid.cellSize,
+      Math.floor(cell / grid.columns) * grid.cellSize,
+      grid.cellSize,
+      grid.cellSize
+    );
+  };
+
+  // Background, grid lines and covered cells; strokes are not kept
+  const redraw = () => {
+    const ctx = getContext();
+    const grid = gridRef.current;
+    if (!ctx) return;
+    ctx.fillStyle = COLOR_BACKGROUND;
+    ctx.fillRect(0, 0, window.innerWidth, window.innerHeight);
+    coveredRef.current.forEach((value, cell) => {
+      if (value) fillCell(cell, COLOR_COVERED);
+    });
+    ctx.strokeStyle = COLOR_GRID;
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (let c = 1; c < grid.columns; c++) {
+      ctx.moveTo(c * grid.cellSize + 0.5, 0);
+      ctx.lineTo(c * grid.cellSize + 0.5, window.innerHeight);
+    }
+    for (let r = 1; r < grid.rows; r++) {
+      ctx.moveTo(0, r * grid.cellSize + 0.5);
+      ctx.lineTo(window.innerWidth, r * grid.cellSize + 0.5);
+    }
+    ctx.stroke();
+  };
+
+  const reset = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = Math.round(window.innerWidth * ratio);
+    canvas.height = Math.round(window.innerHeight * ratio);
+    getContext()?.setTransform(ratio, 0, 0, ratio, 0, 0);
+
+    gridRef.current = createDigitizerGrid(
+      window.innerWidth,
+      window.innerHeight
+    );
+    coveredRef.current = new Uint8Array(
+      gridRef.current.columns * gridRef.current.rows
+    );
+    statsRef.current = createPointerStats();
+    pointersRef.current.clear();
+    setCoveredCount(0);
+    setStats(statsRef.current);
+    setPainting(false);
+    redraw();
+  };
+
+  useEffect(() => {
+    reset();
+    // A rotated or resized screen needs a new grid
+    let timer: ReturnType<typeof setTimeout>;
+    const onResize = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        reset();
+        setNotice("Screen size changed, painting restarted");
+      }, 200);
+    };
+    window.addEventListener("resize", onResize);
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener("resize", onResize);
+      if (hudFrameRef.current != null) {
+        cancelAnimationFrame(hudFrameRef.current);
+      }
+    };
+  }, []);
+
+  // Pointer events can arrive far faster than the HUD needs to update
+  const scheduleHud = () => {
+    if (hudFrameRef.current != null) return;
+    hudFrameRef.current = requestAnimationFrame(() => {
+      hudFrameRef.current = null;
+      setCoveredCount(coveredRef.current.reduce((sum, v) => sum + v, 0));
+      setStats(statsRef.current);
+      setPainting(pointersRef.current.size > 0);
+    });
+  };
+
+  const activeTouches = () =>
+    [...pointersRef.current.values()].filter((p) => p.type === "touch")
+      .length;
+
+  const paint = (
+    e: { clientX: number; clientY: number; pressure: number },
+    from: { x: number; y: number; type: string }
+  ) => {
+    const ctx = getContext();
+    coverSegment(
+      coveredRef.current,
+      gridRef.current,
+      from.x,
+      from.y,
+      e.clientX,
+      e.clientY,
+      (cell) => fillCell(cell, COLOR_COVERED)
+    );
+    if (!ctx) return;
+    ctx.strokeStyle = STROKE_COLORS[from.type] || STROKE_COLORS.mouse;
+    ctx.lineWidth = from.type === "pen" ? 1 + e.pressure * 6 : 4;
+    ctx.lineCap = "round";
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(e.clientX, e.clientY);
+    ctx.stroke();
+  };
+
+  const onPointerDown = (e: PointerEvent<HTMLCanvasElement>) => {
+    // Mice and touchpads don't exercise the digitizer, so they don't paint
+    if (e.pointerType === "mouse") {
+      setNotice("Mouse input doesn't count, paint with a finger or pen");
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = { x: e.clientX, y: e.clientY, type: e.pointerType };
+    pointersRef.current.set(e.pointerId, point);
+    statsRef.current = recordPointer(statsRef.current, e, activeTouches());
+    paint(e, point);
+    setNotice(null);
+    scheduleHud();
+  };
+
+  const onPointerMove = (e: PointerEvent<HTMLCanvasElement>) => {
+    const last = pointersRef.current.get(e.pointerId);
+    // Pens also send moves while hovering; only contact paints
+    if (!last) return;
+    // Coalesced events keep fast strokes smooth between animation frames
+    const coalesced = e.nativeEvent.getCoalescedEvents?.() ?? [];
+    const events = coalesced.length ? coalesced : [e.nativeEvent];
+    const touches = activeTouches();
+    let from = last;
+    for (const event of events) {
+      statsRef.current = recordPointer(statsRef.current, event, touches);
+      paint(event, from);
+      from = { x: event.clientX, y: event.clientY, type: last.type };
+    }
+    pointersRef.current.set(e.pointerId, from);
+    scheduleHud();
+  };
+
+  const onPointerUp = (e: PointerEvent<HTMLCanvasElement>) => {
+    pointersRef.current.delete(e.pointerId);
+    scheduleHud();
+  };
+
+  const finish = () => {
+    coveredRef.current.forEach((value, cell) => {
+      if (!value) fillCell(cell, COLOR_DEAD);
+    });
+    setFinishCount((n) => n + 1);
+    setShowSummary(true);
+  };
+
+  const keepPainting = () => {
+    setShowSummary(false);
+    redraw();
+  };
+
+  const startNewReport = () => {
+    setShowSummary(false);
+    setFinishCount(0);
+    setName("");
+    setReportBase(newReportBase());
+    reset();
+  };
+
+  // Built from the refs as they were when the tester pressed Finish
+  const report = useMemo(
+    () =>
+      finishCount && statsRef.current.pointerTypes.length
+        ? buildDigitizerReport(
+            reportBase,
+            {
+              name: name.trim(),
+              width: window.innerWidth,
+              height: window.innerHeight,
+              pixelRatio: window.devicePixelRatio || 1,
+              reportedTouchPoints: navigator.maxTouchPoints || 0,
+            },
+            gridRef.current,
+            coveredRef.current,
+            statsRef.current
+          )
+        : null,
+    [finishCount, name, reportBase]
+  );
+
+  useReportAutosave(DIGITIZER_HISTORY_KEY, report);
+
+  const total = coveredRef.current.length;
+  const coverage = total ? Math.round((coveredCount / total) * 100) : 0;
+
+  return (
+    <div className="fixed inset-0 select-none">
+      <canvas
+        ref={canvasRef}
+        className="absolute inset-0 w-full h-full"
+        style={{ touchAction: "none" }}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerCancel={onPointerUp}
+        onContextMenu={(e) => e.preventDefault()}
+      />
+
+      {!showSummary && (
+        <div
+          className={`absolute left-1/2 -translate-x-1/2 ${
+            hudAtTop ? "top-3" : "bottom-3"
+          } flex items-center gap-3 px-3 py-2 rounded bg-black/75 text-white text-xs transition-opacity ${
+            painting ? "opacity-20 pointer-events-none" : ""
+          }`}
+        >
+          <span>
+            Covered <span className="font-mono">{coverage}%</span>
+          </span>
+          <span>
+            Touch points{" "}
+            <span className="font-mono">
+              {stats.maxTouchPoints}/{navigator.maxTouchPoints || 0}
+            </span>
+          </span>
+          <span>
+            Pressure{" "}
+            <span className="font-mono">
+              {stats.pressureSupported ? "yes" : "—"}
+            </span>
+          </span>
+          <span>
+            Tilt{" "}
+            <span className="font-mono">
+              {stats.tiltSupported ? `${Math.round(stats.maxTilt)}°` : "—"}
+            </span>
+          </span>
+          <Button
+            size="sm"
+            className="h-7 text-xs"
+            disabled={!stats.pointerTypes.length}
+            onClick={finish}
+          >
+            Finish
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-7 text-xs text-foreground"
+            onClick={reset}
+          >
+            Clear
+          </Button>
+          <button
+            title="Move this bar"
+            onClick={() => setHudAtTop(!hudAtTop)}
+            className="p-1 text-white/70 hover:text-white"
+          >
+            <ArrowUpDown className="w-4 h-4" />
+          </button>
+          <button
+            title="Fullscreen"
+            onClick={toggleFullscreen}
+            className="p-1 text-white/70 hover:text-white"
+          >
+            <Maximize className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {!showSummary && (notice || !coveredCount) && (
+        <div className="absolute inset-x-0 top-1/2 -translate-y-1/2 text-center text-sm text-stone-500 pointer-events-none">
+          {notice ||
+            "Paint the whole screen with a finger or pen. Use several fingers at once to check multi-touch."}
+        </div>
+      )}
+
+      {showSummary && report && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/40">
+          <div className="w-full max-w-md space-y-2">
+            <Card className="border-stone-200">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm">Digitizer Test Summary</CardTitle>
+              </CardHeader>
+              <CardContent className="pt-0 space-y-3">
+                <Input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Model or SKU (optional)"
+                  className="h-7 text-xs"
+                />
+                <div
+                  className={`p-2 rounded border space-y-1 ${
+                    report.uncovered.length
+                      ? "border-red-300 bg-red-50 dark:bg-red-950/20"
+                      : "border-stone-200 bg-muted"
+                  }`}
+                >
+                  <SummaryRow
+                    name="Registered"
+                    value={`${Math.round(report.coverage * 100)}%`}
+                  />
+                  <SummaryRow
+                    name="Multi-touch"
+                    value={`${report.pointers.maxTouchPoints} at once`}
+                  />
+                  <SummaryRow
+                    name="Pressure"
+                    value={report.pointers.pressureSupported ? "Yes" : "No"}
+                  />
+                  <SummaryRow
+                    name="Pen tilt"
+                    value={report.pointers.tiltSupported ? "Yes" : "No"}
+                  />
+                  {report.uncovered.length > 0 && (
+                    <p className="text-xs text-red-600">
+                      Possible dead zones (red):{" "}
+                      {report.uncovered
+                        .slice(0, MAX_LISTED_CELLS)
+                        .map(cellLabel)
+                        .join("; ")}
+                      {report.uncovered.length > MAX_LISTED_CELLS &&
+                        ` and ${
+                          report.uncovered.length - MAX_LISTED_CELLS
+                        } more`}
+                    </p>
+                  )}
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="h-7 text-xs"
+                  onClick={keepPainting}
+                >
+                  Keep Painting
+                </Button>
+              </CardContent>
+            </Card>
+
+            <ReportPanel
+              report={report}
+              historyKey={DIGITIZER_HISTORY_KEY}
+              kind="digitizer"
+              gradeDescriptions={DIGITIZER_GRADE_DESCRIPTIONS}
+              toHtml={digitizerReportToHtml}
+              describe={(entry) => describeDigitizerDevice(entry.device)}
+              emptyText="Paint the screen and press Finish to start a report."
+              onNewReport={startNewReport}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SummaryRow({ name, value }: { name: string; value: string }) {
+  return (
+    <div className="flex justify-between text-xs">
+      <span className="text-muted-foreground">{name}</span>
+      <span className="font-mono">{value}</span>
+    </div>
+  );
+}
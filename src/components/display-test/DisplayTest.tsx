@@ -0,0 +1,327 @@
+import { MouseEvent, useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import ReportPanel from "../sidepanel/ReportPanel";
+import {
+  DEFECT_LABELS,
+  DISPLAY_GRADE_DESCRIPTIONS,
+  DISPLAY_HISTORY_KEY,
+  DISPLAY_PATTERNS,
+  DefectType,
+  DisplayDefect,
+  DisplayPattern,
+  buildDisplayReport,
+  describeDisplay,
+  displayReportToHtml,
+} from "@/src/utils/display-test";
+import { newReportBase } from "@/src/utils/device-report";
+import { useReportAutosave } from "../sidepanel/useReportAutosave";
+
+const GRID_COLUMNS = 8;
+const GRID_ROWS = 6;
+const BANDING_STEPS = 32;
+// Clicking this close to a marker (CSS px) removes it instead
+const MARKER_HIT_RADIUS = 14;
+
+const DEFECT_KEYS: Record<string, DefectType> = {
+  "1": "pixel",
+  "2": "bleed",
+  "3": "uniformity",
+};
+
+
+const screenInfo = () => {
+  const ratio = window.devicePixelRatio || 1;
+  return {
+    width: Math.round(window.screen.width * ratio),
+    height: Math.round(window.screen.height * ratio),
+    pixelRatio: ratio,
+  };
+};
+
+function toggleFullscreen() {
+  if (document.fullscreenElement) {
+    document.exitFullscreen().catch(() => {});
+  } else {
+    document.documentElement.requestFullscreen().catch(() => {});
+  }
+}
+
+/**
+ * Fullscreen display test page. Arrow keys step through the patterns,
+ * clicks mark defects and the summary (Enter) holds the report.
+ */
+export default function DisplayTest() {
+  const [index, setIndex] = useState(0);
+  const [viewed, setViewed] = useState<string[]>([]);
+  const [defects, setDefects] = useState<DisplayDefect[]>([]);
+  const [defectType, setDefectType] = useState<DefectType>("pixel");
+  const [showHelp, setShowHelp] = useState(true);
+  const [showMarkers, setShowMarkers] = useState(true);
+  const [showSummary, setShowSummary] = useState(false);
+  const [name, setName] = useState("");
+  const [reportBase, setReportBase] = useState(newReportBase);
+
+  const pattern = DISPLAY_PATTERNS[index];
+
+  useEffect(() => {
+    setViewed((prev) =>
+      prev.includes(pattern.id) ? prev : [...prev, pattern.id]
+    );
+  }, [pattern.id]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement) return;
+      if (showSummary) {
+        if (e.key === "Escape") setShowSummary(false);
+        return;
+      }
+
+      const last = DISPLAY_PATTERNS.length - 1;
+      if (["ArrowRight", "ArrowDown", " ", "PageDown"].includes(e.key)) {
+        setIndex((i) => Math.min(last, i + 1));
+      } else if (["ArrowLeft", "ArrowUp", "PageUp"].includes(e.key)) {
+        setIndex((i) => Math.max(0, i - 1));
+      } else if (e.key === "Home") {
+        setIndex(0);
+      } else if (e.key === "End") {
+        setIndex(last);
+      } else if (e.key === "h" || e.key === "?") {
+        setShowHelp((v) => !v);
+      } else if (e.key === "m") {
+        setShowMarkers((v) => !v);
+      } else if (e.key === "f") {
+        toggleFullscreen();
+      } else if (e.key === "Enter") {
+        setShowSummary(true);
+      } else if (DEFECT_KEYS[e.key]) {
+        setDefectType(DEFECT_KEYS[e.key]);
+      } else {
+        return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [showSummary]);
+
+  const report = useMemo(
+    () =>
+      buildDisplayReport(
+        reportBase,
+        { name: name.trim(), ...screenInfo() },
+        viewed,
+        defects
+      ),
+    [reportBase, name, viewed, defects]
+  );
+
+  // Just opening the page on the first pattern isn't worth a history entry
+  const started = viewed.length > 1 || defects.length > 0;
+
+  useReportAutosave(DISPLAY_HISTORY_KEY, started ? report : null);
+
+  const markDefect = (e: MouseEvent<HTMLDivElement>) => {
+    const { innerWidth: w, innerHeight: h } = window;
+    const hit = defects.findIndex(
+      (d) =>
+        Math.hypot(d.x * w - e.clientX, d.y * h - e.clientY) <
+        MARKER_HIT_RADIUS
+    );
+    if (hit !== -1) {
+      setDefects(defects.filter((_, i) => i !== hit));
+      return;
+    }
+    const ratio = window.devicePixelRatio || 1;
+    setDefects([
+      ...defects,
+      {
+        x: e.clientX / w,
+        y: e.clientY / h,
+        px: Math.round(e.clientX * ratio),
+        py: Math.round(e.clientY * ratio),
+        type: defectType,
+        pattern: pattern.id,
+      },
+    ]);
+  };
+
+  const startNewReport = () => {
+    setDefects([]);
+    setViewed([pattern.id]);
+    setName("");
+    setReportBase(newReportBase());
+  };
+
+  return (
+    <div className="fixed inset-0 select-none cursor-crosshair">
+      <PatternView pattern={pattern} onClick={markDefect} />
+
+      {showMarkers &&
+        defects.map((d, i) => (
+          <div
+            key={i}
+            title={DEFECT_LABELS[d.type]}
+            className="absolute w-6 h-6 -ml-3 -mt-3 rounded-full border-2 border-white mix-blend-difference pointer-events-none"
+            style={{ left: `${d.x * 100}%`, top: `${d.y * 100}%` }}
+          />
+        ))}
+
+      {showHelp && !showSummary && (
+        <div className="absolute left-4 bottom-4 max-w-sm p-3 rounded bg-black/75 text-white text-xs space-y-2 pointer-events-none">
+          <div className="flex justify-between font-semibold text-sm">
+            <span>{pattern.name}</span>
+            <span>
+              {index + 1} / {DISPLAY_PATTERNS.length}
+            </span>
+          </div>
+          <p className="text-white/80">{pattern.hint}</p>
+          <div className="grid grid-cols-2 gap-x-3 gap-y-0.5 text-white/70">
+            <span>← → / Space</span>
+            <span>Change pattern</span>
+            <span>Click</span>
+            <span>Mark or unmark a defect</span>
+            <span>1 / 2 / 3</span>
+            <span>Pixel / bleed / uniformity</span>
+            <span>M</span>
+            <span>Show or hide marks</span>
+            <span>F</span>
+            <span>Toggle fullscreen</span>
+            <span>H</span>
+            <span>Hide this help</span>
+            <span>Enter</span>
+            <span>Summary and report</span>
+          </div>
+          <div className="text-white/80">
+            Marking: {DEFECT_LABELS[defectType]} &middot; {defects.length}{" "}
+            marked
+          </div>
+        </div>
+      )}
+
+      {showSummary && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/60 cursor-default">
+          <div className="w-full max-w-md space-y-2">
+            <Card className="border-stone-200">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm">Display Test Summary</CardTitle>
+              </CardHeader>
+              <CardContent className="pt-0 space-y-3">
+                <Input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Model or SKU (optional)"
+                  className="h-7 text-xs"
+                />
+                <div className="p-2 rounded border border-stone-200 bg-muted space-y-1">
+                  <div className="flex justify-between text-xs">
+                    <span className="text-muted-foreground">Display</span>
+                    <span className="font-mono">
+                      {describeDisplay(report.display)}
+                    </span>
+                  </div>
+                  <div className="flex justify-between text-xs">
+                    <span className="text-muted-foreground">Patterns</span>
+                    <span className="font-mono">
+                      {viewed.length} of {DISPLAY_PATTERNS.length}
+                    </span>
+                  </div>
+                  {(Object.keys(DEFECT_LABELS) as DefectType[]).map((type) => (
+                    <div key={type} className="flex justify-between text-xs">
+                      <span className="text-muted-foreground">
+                        {DEFECT_LABELS[type]}
+                      </span>
+                      <span className="font-mono">
+                        {defects.filter((d) => d.type === type).length}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="h-7 text-xs"
+                  onClick={() => setShowSummary(false)}
+                >
+                  Back to Patterns
+                </Button>
+              </CardContent>
+            </Card>
+
+            <ReportPanel
+              report={started ? report : null}
+              historyKey={DISPLAY_HISTORY_KEY}
+              kind="display"
+              gradeDescriptions={DISPLAY_GRADE_DESCRIPTIONS}
+              toHtml={displayReportToHtml}
+              describe={(entry) => describeDisplay(entry.display)}
+              emptyText="Step through the patterns to start a report for this display."
+              onNewReport={startNewReport}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function PatternView({
+  pattern,
+  onClick,
+}: {
+  pattern: DisplayPattern;
+  onClick: (e: MouseEvent<HTMLDivElement>) => void;
+}) {
+  if (pattern.kind === "banding") {
+    return (
+      <div className="absolute inset-0 flex flex-col" onClick={onClick}>
+        <div className="flex flex-1">
+          {Array.from({ length: BANDING_STEPS }, (_, i) => {
+            const level = Math.round((i * 255) / (BANDING_STEPS - 1));
+            return (
+              <div
+                key={i}
+                className="flex-1"
+                style={{ background: `rgb(${level},${level},${level})` }}
+              />
+            );
+          })}
+        </div>
+        <div
+          className="flex-1"
+          style={{ background: "linear-gradient(to right, #000, #fff)" }}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="absolute inset-0"
+      style={{ background: pattern.background }}
+      onClick={onClick}
+    >
+      {pattern.kind === "grid" && (
+        <div
+          className="absolute inset-0 grid"
+          style={{
+            gridTemplateColumns: `repeat(${GRID_COLUMNS}, 1fr)`,
+            gridTemplateRows: `repeat(${GRID_ROWS}, 1fr)`,
+          }}
+        >
+          {Array.from({ length: GRID_COLUMNS * GRID_ROWS }, (_, i) => (
+            <div
+              key={i}
+              className="border border-black/20 p-1 text-[10px] text-black/40"
+            >
+              {String.fromCharCode(65 + Math.floor(i / GRID_COLUMNS))}
+              {(i % GRID_COLUMNS) + 1}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
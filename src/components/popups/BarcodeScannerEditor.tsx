@@ -0,0 +1,120 @@
+import { useState, useEffect } from "react";
+import { Check } from "lucide-react";
+import {
+  BarcodeScannerSettings,
+  DEFAULT_BARCODE_SCANNER_SETTINGS,
+  SCAN_ACTION_LABELS,
+  ScanAction,
+  getBarcodeScannerSettings,
+  onBarcodeScannerSettingsChanged,
+  saveBarcodeScannerSettings,
+} from "@/src/utils/barcode-scanner";
+import {
+  ProviderBundle,
+  getProviderBundles,
+  onProviderBundlesChanged,
+} from "@/src/utils/provider-bundles";
+
+interface BarcodeScannerEditorProps {
+  onSaved?: () => void;
+}
+
+export default function BarcodeScannerEditor({
+  onSaved,
+}: BarcodeScannerEditorProps) {
+  const [settings, setSettings] = useState<BarcodeScannerSettings>(
+    DEFAULT_BARCODE_SCANNER_SETTINGS
+  );
+  const [bundles, setBundles] = useState<ProviderBundle[]>([]);
+
+  useEffect(() => {
+    getBarcodeScannerSettings().then(setSettings);
+    getProviderBundles().then(setBundles);
+    const unsubscribeSettings = onBarcodeScannerSettingsChanged(setSettings);
+    const unsubscribeBundles = onProviderBundlesChanged(setBundles);
+    return () => {
+      unsubscribeSettings();
+      unsubscribeBundles();
+    };
+  }, []);
+
+  const update = async (patch: Partial<BarcodeScannerSettings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    await saveBarcodeScannerSettings(next);
+    onSaved?.();
+  };
+
+  return (
+    <div className="bg-card rounded-lg border border-border mt-4">
+      <div className="p-4 flex items-start gap-4">
+        <div className="flex-1">
+          <h3 className="font-medium mb-1">Barcode Scanner</h3>
+          <p className="text-sm text-muted-foreground">
+            Recognize USB barcode scans on any page by their typing speed. Scans
+            into a text field are left alone; anywhere else, valid UPC, EAN and
+            ISBN codes are routed below.
+          </p>
+        </div>
+        <button
+          onClick={() => update({ enabled: !settings.enabled })}
+          className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+            settings.enabled ? "bg-primary" : "bg-muted-foreground/20"
+          }`}
+        >
+          <span
+            className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+              settings.enabled ? "translate-x-6" : "translate-x-1"
+            }`}
+          />
+        </button>
+      </div>
+
+      {settings.enabled && (
+        <div className="px-4 pb-4 space-y-3">
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(SCAN_ACTION_LABELS) as ScanAction[]).map(
+              (action) => (
+                <button
+                  key={action}
+                  onClick={() => update({ action })}
+                  className={`flex items-center gap-1.5 px-2 py-1 text-sm rounded-lg border transition-colors ${
+                    settings.action === action
+                      ? "border-primary bg-primary/10"
+                      : "border-border text-muted-foreground hover:text-foreground"
+                  }`}
+                >
+                  {SCAN_ACTION_LABELS[action]}
+                  {settings.action === action && <Check className="w-3 h-3" />}
+                </button>
+              )
+            )}
+          </div>
+
+          {settings.action === "comp-bundle" && (
+            <div className="flex flex-wrap gap-2">
+              {bundles.map((bundle) => (
+                <button
+                  key={bundle.id}
+                  onClick={() => update({ bundleId: bundle.id })}
+                  className={`px-2 py-1 text-xs rounded-lg border transition-colors ${
+                    settings.bundleId === bundle.id
+                      ? "border-primary bg-primary/10"
+                      : "border-border text-muted-foreground hover:text-foreground"
+                  }`}
+                >
+                  {bundle.name}
+                </button>
+              ))}
+              {!bundles.length && (
+                <p className="text-xs text-muted-foreground">
+                  No comp bundles yet; scans fall back to UPCItemDB.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
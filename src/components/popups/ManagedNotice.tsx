@@ -0,0 +1,13 @@
+import { Lock } from "lucide-react";
+
+/**
+ * Marks a setting that is locked by the enterprise policy
+ */
+export default function ManagedNotice() {
+  return (
+    <span className="inline-flex items-center gap-1 text-xs text-muted-foreground">
+      <Lock className="w-3 h-3" />
+      Enforced by your organization
+    </span>
+  );
+}
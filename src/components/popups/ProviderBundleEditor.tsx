@@ -0,0 +1,254 @@
+import { useState, useEffect } from "react";
+import { Check, Pencil, Plus, RotateCcw, Trash2 } from "lucide-react";
+import {
+  searchProviders,
+  mergeProviders,
+  SearchProvider,
+} from "../cmdk-palette/SearchProviders";
+import {
+  getCustomProviders,
+  onCustomProvidersChanged,
+  parseTriggers,
+} from "@/src/utils/custom-providers";
+import {
+  ProviderBundle,
+  DEFAULT_BUNDLES,
+  getProviderBundles,
+  saveProviderBundles,
+  onProviderBundlesChanged,
+} from "@/src/utils/provider-bundles";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+
+interface ProviderBundleEditorProps {
+  onSaved?: () => void;
+}
+
+interface BundleDraft {
+  id: string | null; // null while adding a new bundle
+  name: string;
+  triggers: string;
+  providerIds: string[];
+}
+
+export default function ProviderBundleEditor({
+  onSaved,
+}: ProviderBundleEditorProps) {
+  const [bundles, setBundles] = useState<ProviderBundle[]>([]);
+  const [providers, setProviders] = useState<SearchProvider[]>(searchProviders);
+  const [draft, setDraft] = useState<BundleDraft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getProviderBundles().then(setBundles);
+    getCustomProviders().then((custom) => setProviders(mergeProviders(custom)));
+    const unsubscribeBundles = onProviderBundlesChanged(setBundles);
+    const unsubscribeProviders = onCustomProvidersChanged((custom) =>
+      setProviders(mergeProviders(custom))
+    );
+    return () => {
+      unsubscribeBundles();
+      unsubscribeProviders();
+    };
+  }, []);
+
+  const persist = async (next: ProviderBundle[]) => {
+    setBundles(next);
+    await saveProviderBundles(next);
+    onSaved?.();
+  };
+
+  const toggleProvider = (id: string) => {
+    if (!draft) return;
+    // Keep selection order so tabs open in the order providers were picked
+    const providerIds = draft.providerIds.includes(id)
+      ? draft.providerIds.filter((p) => p !== id)
+      : [...draft.providerIds, id];
+    setDraft({ ...draft, providerIds });
+  };
+
+  const handleSaveDraft = async () => {
+    if (!draft) return;
+
+    const name = draft.name.trim();
+    if (!name) return setError("Name is required");
+    if (draft.providerIds.length < 2) {
+      return setError("Pick at least two providers");
+    }
+
+    const bundle: ProviderBundle = {
+      id: draft.id ?? `bundle-${Date.now().toString(36)}`,
+      name,
+      trigger: parseTriggers(draft.triggers),
+      providerIds: draft.providerIds,
+    };
+    const exists = bundles.some((b) => b.id === bundle.id);
+    await persist(
+      exists
+        ? bundles.map((b) => (b.id === bundle.id ? bundle : b))
+        : [...bundles, bundle]
+    );
+    setDraft(null);
+    setError(null);
+  };
+
+  const providerName = (id: string) =>
+    providers.find((p) => p.id === id)?.name ?? id;
+
+  return (
+    <div className="bg-card rounded-lg border border-border mt-4">
+      <div className="p-6 border-b border-border flex items-start gap-4">
+        <div className="flex-1">
+          <h2 className="text-lg font-semibold mb-1">Comp Search Bundles</h2>
+          <p className="text-sm text-muted-foreground">
+            Search several providers at once. Results open in a tab group named
+            after the search, from the command menu or the right-click menu.
+          </p>
+        </div>
+        {!draft && (
+          <div className="flex items-center gap-1">
+            <button
+              title="Restore default bundles"
+              onClick={() => persist(DEFAULT_BUNDLES)}
+              className="p-2 text-muted-foreground hover:text-foreground"
+            >
+              <RotateCcw className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => {
+                setDraft({ id: null, name: "", triggers: "", providerIds: [] });
+                setError(null);
+              }}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              Add
+            </button>
+          </div>
+        )}
+      </div>
+
+      {draft && (
+        <div className="p-4 space-y-4 border-b border-border bg-muted/30">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="bundle-name">Name</Label>
+              <Input
+                id="bundle-name"
+                value={draft.name}
+                placeholder="Comps: eBay sold + Swappa"
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="bundle-triggers">Triggers (optional)</Label>
+              <Input
+                id="bundle-triggers"
+                value={draft.triggers}
+                placeholder="comp"
+                onChange={(e) =>
+                  setDraft({ ...draft, triggers: e.target.value })
+                }
+              />
+            </div>
+          </div>
+          <div className="space-y-1.5">
+            <Label>Providers</Label>
+            <div className="flex flex-wrap gap-2">
+              {providers.map((provider) => {
+                const selected = draft.providerIds.includes(provider.id);
+                return (
+                  <button
+                    key={provider.id}
+                    onClick={() => toggleProvider(provider.id)}
+                    className={`flex items-center gap-1.5 px-2 py-1 text-sm rounded-lg border transition-colors ${
+                      selected
+                        ? "border-primary bg-primary/10"
+                        : "border-border text-muted-foreground hover:text-foreground"
+                    }`}
+                  >
+                    <span className={`p-1 rounded ${provider.color}`}>
+                      <provider.icon className="w-3 h-3 text-white" />
+                    </span>
+                    {provider.name}
+                    {selected && <Check className="w-3 h-3" />}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            {error && (
+              <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+            )}
+            <button
+              onClick={() => {
+                setDraft(null);
+                setError(null);
+              }}
+              className="ml-auto px-3 py-1.5 text-sm text-muted-foreground hover:text-foreground transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSaveDraft}
+              className="px-3 py-1.5 text-sm bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors"
+            >
+              Save Bundle
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="divide-y divide-border">
+        {bundles.map((bundle) => (
+          <div key={bundle.id} className="p-4 flex items-center gap-4">
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <h3 className="font-medium truncate">{bundle.name}</h3>
+                {bundle.trigger.map((t) => (
+                  <kbd
+                    key={t}
+                    className="text-xs px-1.5 py-0.5 rounded bg-muted font-mono"
+                  >
+                    {t}
+                  </kbd>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground truncate">
+                {bundle.providerIds.map(providerName).join(" + ")}
+              </p>
+            </div>
+            <button
+              title="Edit"
+              onClick={() => {
+                setDraft({
+                  id: bundle.id,
+                  name: bundle.name,
+                  triggers: bundle.trigger.join(", "),
+                  providerIds: bundle.providerIds,
+                });
+                setError(null);
+              }}
+              className="p-1 text-muted-foreground hover:text-foreground"
+            >
+              <Pencil className="w-4 h-4" />
+            </button>
+            <button
+              title="Delete"
+              onClick={() => persist(bundles.filter((b) => b.id !== bundle.id))}
+              className="p-1 text-muted-foreground hover:text-red-600"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        {!bundles.length && (
+          <p className="p-4 text-sm text-muted-foreground">
+            No bundles yet. Add one to search several providers at once.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,364 @@
+import { useState, useEffect } from "react";
+import {
+  AlertTriangle,
+  Menu,
+  Pencil,
+  Plus,
+  RefreshCw,
+  RotateCcw,
+  Trash2,
+} from "lucide-react";
+import {
+  CSVSource,
+  DEFAULT_CSV_SOURCES,
+  DEFAULT_CSV_TTL_MINUTES,
+  getCSVSources,
+  saveCSVSources,
+  onCSVSourcesChanged,
+  validateCSVSourceUrl,
+  createCSVSourceId,
+} from "@/src/utils/csv-sources";
+import {
+  CSVImportReport,
+  getCSVImportReport,
+  refreshCSVLinks,
+  clearCSVCache,
+} from "@/src/utils/csv-links";
+import QuickLinksImportReport from "./QuickLinksImportReport";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import ManagedNotice from "./ManagedNotice";
+
+interface QuickLinkSourcesEditorProps {
+  onSaved?: () => void;
+  // Source list is set by the enterprise policy; only refreshing is allowed
+  locked?: boolean;
+}
+
+interface SourceDraft {
+  id: string | null; // null while adding a new source
+  label: string;
+  url: string;
+  ttlMinutes: string;
+}
+
+export default function QuickLinkSourcesEditor({
+  onSaved,
+  locked = false,
+}: QuickLinkSourcesEditorProps) {
+  const [sources, setSources] = useState<CSVSource[]>([]);
+  const [reports, setReports] = useState<
+    Record<string, CSVImportReport | null>
+  >({});
+  const [draft, setDraft] = useState<SourceDraft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const [refreshingId, setRefreshingId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const loadReports = async (list: CSVSource[]) => {
+    const entries = await Promise.all(
+      list.map(async (s) => [s.id, await getCSVImportReport(s.id)] as const)
+    );
+    setReports(Object.fromEntries(entries));
+  };
+
+  useEffect(() => {
+    getCSVSources().then((list) => {
+      setSources(list);
+      loadReports(list);
+    });
+    return onCSVSourcesChanged(setSources);
+  }, []);
+
+  const persist = async (next: CSVSource[]) => {
+    setSources(next);
+    await saveCSVSources(next);
+    onSaved?.();
+  };
+
+  const handleRefresh = async (source: CSVSource) => {
+    setRefreshingId(source.id);
+    try {
+      await refreshCSVLinks(source);
+      const report = await getCSVImportReport(source.id);
+      setReports((prev) => ({ ...prev, [source.id]: report }));
+    } finally {
+      setRefreshingId(null);
+    }
+  };
+
+  const handleSaveDraft = async () => {
+    if (!draft) return;
+
+    const label = draft.label.trim();
+    const urlError = validateCSVSourceUrl(draft.url);
+    const ttlMinutes = Number(draft.ttlMinutes);
+    if (!label) return setError("Label is required");
+    if (urlError) return setError(urlError);
+    if (!Number.isFinite(ttlMinutes) || ttlMinutes < 1) {
+      return setError("Cache time must be at least 1 minute");
+    }
+
+    const previous = sources.find((s) => s.id === draft.id);
+    const source: CSVSource = {
+      id: draft.id ?? createCSVSourceId(),
+      label,
+      url: draft.url.trim(),
+      enabled: previous?.enabled ?? true,
+      ttlMinutes: Math.round(ttlMinutes),
+    };
+
+    await persist(
+      previous
+        ? sources.map((s) => (s.id === source.id ? source : s))
+        : [...sources, source]
+    );
+    setDraft(null);
+    setError(null);
+
+    // A new or moved sheet has nothing useful cached; import it now
+    if (!previous || previous.url !== source.url) {
+      await clearCSVCache(source.id);
+      await handleRefresh(source);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    await persist(sources.filter((s) => s.id !== id));
+    await clearCSVCache(id);
+    if (draft?.id === id) setDraft(null);
+  };
+
+  const handleDragOver = (e: React.DragEvent, index: number) => {
+    e.preventDefault();
+    if (draggedIndex === null || draggedIndex === index) return;
+
+    const next = [...sources];
+    const [dragged] = next.splice(draggedIndex, 1);
+    next.splice(index, 0, dragged);
+    setSources(next);
+    setDraggedIndex(index);
+  };
+
+  const handleDragEnd = async () => {
+    setDraggedIndex(null);
+    await persist(sources);
+  };
+
+  return (
+    <div className="bg-card rounded-lg border border-border mt-4">
+      <div className="p-6 border-b border-border flex items-start gap-4">
+        <div className="flex-1">
+          <h2 className="text-lg font-semibold mb-1">Quick Link Sources</h2>
+          <p className="text-sm text-muted-foreground">
+            Published Google Sheets (CSV) to load Quick Links from. Sheets
+            higher in the list win when two contain the same URL.
+          </p>
+          {locked && <ManagedNotice />}
+        </div>
+        {!draft && !locked && (
+          <div className="flex items-center gap-1">
+            <button
+              title="Restore default sources"
+              onClick={() => persist(DEFAULT_CSV_SOURCES)}
+              className="p-2 text-muted-foreground hover:text-foreground"
+            >
+              <RotateCcw className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => {
+                setDraft({
+                  id: null,
+                  label: "",
+                  url: "",
+                  ttlMinutes: String(DEFAULT_CSV_TTL_MINUTES),
+                });
+                setError(null);
+              }}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              Add
+            </button>
+          </div>
+        )}
+      </div>
+
+      {draft && (
+        <div className="p-4 space-y-4 border-b border-border bg-muted/30">
+          <div className="grid grid-cols-[1fr_8rem] gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="source-label">Label</Label>
+              <Input
+                id="source-label"
+                value={draft.label}
+                placeholder="Store 142"
+                onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="source-ttl">Cache (minutes)</Label>
+              <Input
+                id="source-ttl"
+                type="number"
+                min={1}
+                value={draft.ttlMinutes}
+                onChange={(e) =>
+                  setDraft({ ...draft, ttlMinutes: e.target.value })
+                }
+              />
+            </div>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="source-url">Published CSV URL</Label>
+            <Input
+              id="source-url"
+              value={draft.url}
+              placeholder="https://docs.google.com/spreadsheets/d/e/.../pub?output=csv"
+              onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+            />
+          </div>
+          <div className="flex items-center gap-3">
+            {error && (
+              <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+            )}
+            <button
+              onClick={() => {
+                setDraft(null);
+                setError(null);
+              }}
+              className="ml-auto px-3 py-1.5 text-sm text-muted-foreground hover:text-foreground transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSaveDraft}
+              className="px-3 py-1.5 text-sm bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors"
+            >
+              Save Source
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="divide-y divide-border">
+        {sources.map((source, index) => {
+          const report = reports[source.id];
+          return (
+            <div
+              key={source.id}
+              draggable={!locked}
+              onDragStart={() => setDraggedIndex(index)}
+              onDragOver={(e) => handleDragOver(e, index)}
+              onDragEnd={handleDragEnd}
+              className={`p-4 space-y-3 hover:bg-muted/50 transition-colors ${
+                locked ? "" : "cursor-move"
+              } ${draggedIndex === index ? "opacity-50" : ""}`}
+            >
+              <div className="flex items-center gap-4">
+                {!locked && <Menu className="w-4 h-4 text-muted-foreground" />}
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <h3 className="font-medium">{source.label}</h3>
+                    <span className="text-xs text-muted-foreground">
+                      {source.ttlMinutes} min cache
+                    </span>
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {source.url}
+                  </p>
+                  <button
+                    onClick={() =>
+                      setExpandedId(expandedId === source.id ? null : source.id)
+                    }
+                    disabled={!report}
+                    className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground disabled:hover:text-muted-foreground"
+                  >
+                    {report
+                      ? `${report.imported} of ${report.totalRows} rows imported ${new Date(
+                          report.fetchedAt
+                        ).toLocaleString()}`
+                      : "Not imported yet"}
+                    {report && report.skipped.length > 0 && (
+                      <span className="flex items-center gap-1 text-amber-700 dark:text-amber-400">
+                        <AlertTriangle className="w-3 h-3" />
+                        {report.skipped.length} skipped
+                      </span>
+                    )}
+                  </button>
+                </div>
+                <button
+                  title="Refresh now"
+                  onClick={() => handleRefresh(source)}
+                  disabled={refreshingId === source.id}
+                  className="p-1 text-muted-foreground hover:text-foreground disabled:opacity-50"
+                >
+                  <RefreshCw
+                    className={`w-4 h-4 ${
+                      refreshingId === source.id ? "animate-spin" : ""
+                    }`}
+                  />
+                </button>
+                {!locked && (
+                  <>
+                    <button
+                      title="Edit"
+                      onClick={() => {
+                        setDraft({
+                          id: source.id,
+                          label: source.label,
+                          url: source.url,
+                          ttlMinutes: String(source.ttlMinutes),
+                        });
+                        setError(null);
+                      }}
+                      className="p-1 text-muted-foreground hover:text-foreground"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      title="Delete"
+                      onClick={() => handleDelete(source.id)}
+                      className="p-1 text-muted-foreground hover:text-red-600"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </>
+                )}
+                <button
+                  title={source.enabled ? "Disable" : "Enable"}
+                  disabled={locked}
+                  onClick={() =>
+                    persist(
+                      sources.map((s) =>
+                        s.id === source.id ? { ...s, enabled: !s.enabled } : s
+                      )
+                    )
+                  }
+                  className={`relative inline-flex h-6 w-11 shrink-0 items-center rounded-full transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                    source.enabled ? "bg-primary" : "bg-muted-foreground/20"
+                  }`}
+                >
+                  <span
+                    className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                      source.enabled ? "translate-x-6" : "translate-x-1"
+                    }`}
+                  />
+                </button>
+              </div>
+              {expandedId === source.id && report && (
+                <QuickLinksImportReport report={report} />
+              )}
+            </div>
+          );
+        })}
+        {!sources.length && (
+          <p className="p-4 text-sm text-muted-foreground">
+            No sources yet. Add a published sheet to load Quick Links.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { AlertTriangle } from "lucide-react";
+import { CSVImportReport } from "@/src/utils/csv-links";
+
+interface QuickLinksImportReportProps {
+  report: CSVImportReport;
+}
+
+/**
+ * Details of a source's last import, including which sheet rows were
+ * skipped and why
+ */
+export default function QuickLinksImportReport({
+  report,
+}: QuickLinksImportReportProps) {
+  return (
+    <div className="space-y-2 rounded-lg bg-muted/30 p-3">
+      <p className="text-xs text-muted-foreground">
+        Columns: {report.columns.join(", ") || "none recognized"}
+      </p>
+      {report.skipped.length > 0 ? (
+        <ul className="space-y-1">
+          {report.skipped.map((skip) => (
+            <li
+              key={skip.row}
+              className="flex items-start gap-2 text-sm text-amber-700 dark:text-amber-400"
+            >
+              <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+              <span>
+                <strong>Row {skip.row}:</strong> {skip.reason}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-muted-foreground">No rows skipped.</p>
+      )}
+    </div>
+  );
+}
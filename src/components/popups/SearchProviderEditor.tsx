@@ -0,0 +1,401 @@
+import { useState, useEffect } from "react";
+import { Menu, Pencil, Plus, RotateCcw, Trash2 } from "lucide-react";
+import {
+  searchProviders,
+  providerIcons,
+  providerColors,
+  toSearchProvider,
+  triggersOverlap,
+} from "../cmdk-palette/SearchProviders";
+import {
+  CustomProvider,
+  getCustomProviders,
+  saveCustomProviders,
+  onCustomProvidersChanged,
+  validateSearchUrl,
+  parseTriggers,
+  createCustomProviderId,
+} from "@/src/utils/custom-providers";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import ManagedNotice from "./ManagedNotice";
+
+interface SearchProviderEditorProps {
+  onSaved?: () => void;
+  // Provider list is set by the enterprise policy and cannot be edited
+  locked?: boolean;
+}
+
+interface ProviderDraft {
+  id: string | null; // null while adding a new provider
+  name: string;
+  triggers: string;
+  searchUrl: string;
+  color: string;
+  icon: string;
+}
+
+const EMPTY_DRAFT: ProviderDraft = {
+  id: null,
+  name: "",
+  triggers: "",
+  searchUrl: "",
+  color: providerColors[0],
+  icon: "search",
+};
+
+function iconKeyFor(icon: React.ComponentType<{ className?: string }>) {
+  return (
+    Object.keys(providerIcons).find((key) => providerIcons[key] === icon) ||
+    "search"
+  );
+}
+
+export default function SearchProviderEditor({
+  onSaved,
+  locked = false,
+}: SearchProviderEditorProps) {
+  const [providers, setProviders] = useState<CustomProvider[]>([]);
+  const [draft, setDraft] = useState<ProviderDraft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+
+  useEffect(() => {
+    getCustomProviders().then(setProviders);
+    return onCustomProvidersChanged(setProviders);
+  }, []);
+
+  const persist = async (next: CustomProvider[]) => {
+    setProviders(next);
+    await saveCustomProviders(next);
+    onSaved?.();
+  };
+
+  const startAdd = () => {
+    setDraft({ ...EMPTY_DRAFT });
+    setError(null);
+  };
+
+  const startEdit = (provider: CustomProvider) => {
+    setDraft({
+      id: provider.id,
+      name: provider.name,
+      triggers: provider.trigger.join(", "),
+      searchUrl: provider.searchUrl,
+      color: provider.color,
+      icon: provider.icon,
+    });
+    setError(null);
+  };
+
+  // Editing a built-in stores a custom copy with the same id, which replaces
+  // the built-in when providers are merged
+  const startCustomizeBuiltIn = (id: string) => {
+    const builtIn = searchProviders.find((p) => p.id === id);
+    if (!builtIn) return;
+    setDraft({
+      id: builtIn.id,
+      name: builtIn.name,
+      triggers: builtIn.trigger.join(", "),
+      searchUrl: builtIn.searchUrl,
+      color: builtIn.color,
+      icon: iconKeyFor(builtIn.icon),
+    });
+    setError(null);
+  };
+
+  const handleSaveDraft = async () => {
+    if (!draft) return;
+
+    const name = draft.name.trim();
+    const trigger = parseTriggers(draft.triggers);
+    const urlError = validateSearchUrl(draft.searchUrl);
+    if (!name) return setError("Name is required");
+    if (!trigger.length) return setError("Add at least one trigger word");
+    if (urlError) return setError(urlError);
+
+    // Triggers match by prefix, so one that starts with or is the start of
+    // another provider's trigger would take over part of that provider's
+    // search
+    const overridden = new Set(providers.map((p) => p.id));
+    const owners = [
+      ...providers,
+      ...searchProviders.filter((p) => !overridden.has(p.id)),
+    ].filter((p) => p.id !== draft.id);
+    for (const t of trigger) {
+      for (const owner of owners) {
+        const other = owner.trigger.find((o) => triggersOverlap(t, o));
+        if (other === undefined) continue;
+        return setError(
+          t === other
+            ? `Trigger "${t}" is already used by ${owner.name}`
+            : `Trigger "${t}" overlaps "${other}" used by ${owner.name}`
+        );
+      }
+    }
+
+    const provider: CustomProvider = {
+      id: draft.id ?? createCustomProviderId(),
+      name,
+      trigger,
+      searchUrl: draft.searchUrl.trim(),
+      color: draft.color,
+      icon: draft.icon,
+    };
+
+    const exists = providers.some((p) => p.id === provider.id);
+    const next = exists
+      ? providers.map((p) => (p.id === provider.id ? provider : p))
+      : [...providers, provider];
+
+    await persist(next);
+    setDraft(null);
+    setError(null);
+  };
+
+  const handleDelete = async (id: string) => {
+    await persist(providers.filter((p) => p.id !== id));
+    if (draft?.id === id) setDraft(null);
+  };
+
+  const handleDragOver = (e: React.DragEvent, index: number) => {
+    e.preventDefault();
+    if (draggedIndex === null || draggedIndex === index) return;
+
+    const next = [...providers];
+    const [dragged] = next.splice(draggedIndex, 1);
+    next.splice(index, 0, dragged);
+    setProviders(next);
+    setDraggedIndex(index);
+  };
+
+  const handleDragEnd = async () => {
+    setDraggedIndex(null);
+    await persist(providers);
+  };
+
+  const customIds = new Set(providers.map((p) => p.id));
+  const builtIns = searchProviders.filter((p) => !customIds.has(p.id));
+  const DraftIcon = draft ? providerIcons[draft.icon] : null;
+
+  return (
+    <div className="bg-card rounded-lg border border-border mt-4">
+      <div className="p-6 border-b border-border flex items-start gap-4">
+        <div className="flex-1">
+          <h2 className="text-lg font-semibold mb-1">Search Providers</h2>
+          <p className="text-sm text-muted-foreground">
+            Add your own sites to search from the command menu. Use{" "}
+            <code className="text-xs">{"{query}"}</code> where the search text
+            goes.
+          </p>
+          {locked && <ManagedNotice />}
+        </div>
+        {!draft && !locked && (
+          <button
+            onClick={startAdd}
+            className="flex items-center gap-1 px-3 py-1.5 text-sm bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            Add
+          </button>
+        )}
+      </div>
+
+      {draft && (
+        <div className="p-4 space-y-4 border-b border-border bg-muted/30">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="provider-name">Name</Label>
+              <Input
+                id="provider-name"
+                value={draft.name}
+                placeholder="Swappa"
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="provider-triggers">Triggers</Label>
+              <Input
+                id="provider-triggers"
+                value={draft.triggers}
+                placeholder="swappa, sw"
+                onChange={(e) =>
+                  setDraft({ ...draft, triggers: e.target.value })
+                }
+              />
+            </div>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="provider-url">Search URL</Label>
+            <Input
+              id="provider-url"
+              value={draft.searchUrl}
+              placeholder="https://swappa.com/search?q={query}"
+              onChange={(e) =>
+                setDraft({ ...draft, searchUrl: e.target.value })
+              }
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label>Color</Label>
+            <div className="flex flex-wrap gap-2">
+              {providerColors.map((color) => (
+                <button
+                  key={color}
+                  title={color.replace("bg-", "")}
+                  onClick={() => setDraft({ ...draft, color })}
+                  className={`w-6 h-6 rounded-full ${color} ${
+                    draft.color === color
+                      ? "ring-2 ring-offset-2 ring-primary"
+                      : ""
+                  }`}
+                />
+              ))}
+            </div>
+          </div>
+          <div className="space-y-1.5">
+            <Label>Icon</Label>
+            <div className="flex flex-wrap gap-2">
+              {Object.entries(providerIcons).map(([key, Icon]) => (
+                <button
+                  key={key}
+                  title={key}
+                  onClick={() => setDraft({ ...draft, icon: key })}
+                  className={`p-2 rounded ${
+                    draft.icon === key
+                      ? `${draft.color} text-white`
+                      : "bg-muted text-muted-foreground hover:text-foreground"
+                  }`}
+                >
+                  <Icon className="w-4 h-4" />
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            {DraftIcon && (
+              <div className={`p-2 rounded ${draft.color}`}>
+                <DraftIcon className="w-4 h-4 text-white" />
+              </div>
+            )}
+            {error && (
+              <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+            )}
+            <button
+              onClick={() => {
+                setDraft(null);
+                setError(null);
+              }}
+              className="ml-auto px-3 py-1.5 text-sm text-muted-foreground hover:text-foreground transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSaveDraft}
+              className="px-3 py-1.5 text-sm bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors"
+            >
+              Save Provider
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="divide-y divide-border">
+        {providers.map((custom, index) => {
+          const provider = toSearchProvider(custom);
+          const overridesBuiltIn = searchProviders.some(
+            (p) => p.id === custom.id
+          );
+          return (
+            <div
+              key={custom.id}
+              draggable={!locked}
+              onDragStart={() => setDraggedIndex(index)}
+              onDragOver={(e) => handleDragOver(e, index)}
+              onDragEnd={handleDragEnd}
+              className={`p-4 flex items-center gap-4 hover:bg-muted/50 transition-colors ${
+                locked ? "" : "cursor-move"
+              } ${draggedIndex === index ? "opacity-50" : ""}`}
+            >
+              {locked ? (
+                <div className="w-4" />
+              ) : (
+                <Menu className="w-4 h-4 text-muted-foreground" />
+              )}
+              <div className={`p-2 rounded ${provider.color}`}>
+                <provider.icon className="w-4 h-4 text-white" />
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <h3 className="font-medium">{provider.name}</h3>
+                  {provider.trigger.map((t) => (
+                    <kbd
+                      key={t}
+                      className="text-xs px-1.5 py-0.5 rounded bg-muted font-mono"
+                    >
+                      {t}
+                    </kbd>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground truncate">
+                  {provider.searchUrl}
+                </p>
+              </div>
+              {!locked && (
+                <>
+                  <button
+                    title="Edit"
+                    onClick={() => startEdit(custom)}
+                    className="p-1 text-muted-foreground hover:text-foreground"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    title={overridesBuiltIn ? "Restore default" : "Delete"}
+                    onClick={() => handleDelete(custom.id)}
+                    className="p-1 text-muted-foreground hover:text-red-600"
+                  >
+                    {overridesBuiltIn ? (
+                      <RotateCcw className="w-4 h-4" />
+                    ) : (
+                      <Trash2 className="w-4 h-4" />
+                    )}
+                  </button>
+                </>
+              )}
+            </div>
+          );
+        })}
+
+        {builtIns.map((provider) => (
+          <div key={provider.id} className="p-4 flex items-center gap-4">
+            <div className="w-4" />
+            <div className={`p-2 rounded ${provider.color}`}>
+              <provider.icon className="w-4 h-4 text-white" />
+            </div>
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <h3 className="font-medium">{provider.name}</h3>
+                <span className="text-xs px-2 py-0.5 rounded-full bg-muted text-muted-foreground">
+                  Built-in
+                </span>
+              </div>
+              <p className="text-xs text-muted-foreground truncate">
+                {provider.trigger.join(", ")}
+              </p>
+            </div>
+            {!locked && (
+              <button
+                title="Customize"
+                onClick={() => startCustomizeBuiltIn(provider.id)}
+                className="p-1 text-muted-foreground hover:text-foreground"
+              >
+                <Pencil className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
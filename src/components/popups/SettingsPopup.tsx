@@ -1,46 +1,30 @@
 /* global chrome */
 import { useState, useEffect } from "react";
 import { Check, Menu } from "lucide-react";
-
-interface CMDKSettings {
-  enabledSources: {
-    tabs: boolean;
-    bookmarks: boolean;
-    history: boolean;
-    quickLinks: boolean;
-    tools: boolean;
-    searchProviders: boolean;
-    ebayCategories: boolean;
-  };
-  sourceOrder: string[];
-}
-
-const DEFAULT_SETTINGS: CMDKSettings = {
-  enabledSources: {
-    tabs: true,
-    bookmarks: true,
-    history: true,
-    quickLinks: true,
-    tools: true,
-    searchProviders: true,
-    ebayCategories: true,
-  },
-  sourceOrder: [
-    "tabs",
-    "quickLinks",
-    "ebayCategories",
-    "bookmarks",
-    "tools",
-    "searchProviders",
-    "history",
-  ],
-};
+import SearchProviderEditor from "./SearchProviderEditor";
+import ProviderBundleEditor from "./ProviderBundleEditor";
+import QuickLinkSourcesEditor from "./QuickLinkSourcesEditor";
+import BarcodeScannerEditor from "./BarcodeScannerEditor";
+import ManagedNotice from "./ManagedNotice";
+import { clearFrecencyData } from "@/src/utils/frecency";
+import {
+  CMDKSettings,
+  DEFAULT_CMDK_SETTINGS,
+} from "@/src/utils/cmdk-settings";
+import {
+  ManagedConfig,
+  getManagedConfig,
+  onManagedConfigChanged,
+  isSettingLocked,
+} from "@/src/utils/managed-config";
 
 export default function SettingsPopup() {
-  const [settings, setSettings] = useState<CMDKSettings>(DEFAULT_SETTINGS);
+  const [settings, setSettings] = useState<CMDKSettings>(DEFAULT_CMDK_SETTINGS);
   const [isSaved, setIsSaved] = useState(false);
   const [version, setVersion] = useState<string>("");
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const [managed, setManaged] = useState<ManagedConfig>({});
+  const [autoShowModal, setAutoShowModal] = useState(true);
 
   useEffect(() => {
     // Load settings from chrome storage
@@ -49,13 +33,55 @@ export default function SettingsPopup() {
         setSettings(result.cmdkSettings);
       }
     });
+    chrome.storage.local.get({ autoShowModal: true }, (result) => {
+      setAutoShowModal(result.autoShowModal);
+    });
+
+    // Pick up policy changes and locked values the background re-applies
+    getManagedConfig().then(setManaged);
+    const unsubscribeManaged = onManagedConfigChanged(setManaged);
+    const handleStorageChange = (
+      changes: Record<string, { newValue?: any }>,
+      area: string
+    ) => {
+      if (area === "sync" && changes.cmdkSettings?.newValue) {
+        setSettings(changes.cmdkSettings.newValue);
+      }
+      if (area === "local" && changes.autoShowModal) {
+        setAutoShowModal(changes.autoShowModal.newValue ?? true);
+      }
+    };
+    chrome.storage.onChanged.addListener(handleStorageChange);
 
     // Get extension version
     const manifest = chrome.runtime.getManifest();
     setVersion(manifest.version);
+
+    return () => {
+      unsubscribeManaged();
+      chrome.storage.onChanged.removeListener(handleStorageChange);
+    };
   }, []);
 
+  const sourceOrderLocked = isSettingLocked(managed, "sourceOrder");
+  const isSourceLocked = (source: keyof CMDKSettings["enabledSources"]) =>
+    isSettingLocked(managed, "enabledSources") &&
+    managed.enabledSources?.[source] !== undefined;
+  const autoOpenLocked = isSettingLocked(managed, "controllerAutoOpen");
+
+  // Keep policy-locked values when resetting
+  const withLockedValues = (next: CMDKSettings): CMDKSettings => ({
+    enabledSources: isSettingLocked(managed, "enabledSources")
+      ? { ...next.enabledSources, ...managed.enabledSources }
+      : next.enabledSources,
+    sourceOrder:
+      sourceOrderLocked && managed.sourceOrder
+        ? managed.sourceOrder
+        : next.sourceOrder,
+  });
+
   const handleToggle = (source: keyof CMDKSettings["enabledSources"]) => {
+    if (isSourceLocked(source)) return;
     const newSettings = {
       ...settings,
       enabledSources: {
@@ -73,16 +99,35 @@ export default function SettingsPopup() {
   };
 
   const handleReset = () => {
-    setSettings(DEFAULT_SETTINGS);
+    const resetSettings = withLockedValues(DEFAULT_CMDK_SETTINGS);
+    setSettings(resetSettings);
 
     // Auto-save reset
-    chrome.storage.sync.set({ cmdkSettings: DEFAULT_SETTINGS }, () => {
+    chrome.storage.sync.set({ cmdkSettings: resetSettings }, () => {
       setIsSaved(true);
       setTimeout(() => setIsSaved(false), 2000);
     });
   };
 
+  const flashSaved = () => {
+    setIsSaved(true);
+    setTimeout(() => setIsSaved(false), 2000);
+  };
+
+  const handleToggleAutoOpen = () => {
+    if (autoOpenLocked) return;
+    const next = !autoShowModal;
+    setAutoShowModal(next);
+    chrome.storage.local.set({ autoShowModal: next }, flashSaved);
+  };
+
+  const handleClearRanking = async () => {
+    await clearFrecencyData();
+    flashSaved();
+  };
+
   const handleDragStart = (index: number) => {
+    if (sourceOrderLocked) return;
     setDraggedIndex(index);
   };
 
@@ -188,26 +233,33 @@ export default function SettingsPopup() {
               <p className="text-sm text-muted-foreground">
                 Enable or disable different sources in the command menu popup
               </p>
+              {sourceOrderLocked && (
+                <p className="mt-2">
+                  <ManagedNotice />
+                </p>
+              )}
             </div>
 
             <div className="divide-y divide-border">
               {sources.map((source, index) => (
                 <div
                   key={source.key}
-                  draggable
+                  draggable={!sourceOrderLocked}
                   onDragStart={() => handleDragStart(index)}
                   onDragOver={(e) => handleDragOver(e, index)}
                   onDragEnd={handleDragEnd}
-                  className={`p-4 flex items-start gap-4 hover:bg-muted/50 transition-colors cursor-move ${
-                    draggedIndex === index ? "opacity-50" : ""
-                  }`}
+                  className={`p-4 flex items-start gap-4 hover:bg-muted/50 transition-colors ${
+                    sourceOrderLocked ? "" : "cursor-move"
+                  } ${draggedIndex === index ? "opacity-50" : ""}`}
                 >
-                  <button
-                    className="p-1 text-muted-foreground hover:text-foreground cursor-grab active:cursor-grabbing"
-                    onMouseDown={(e) => e.stopPropagation()}
-                  >
-                    <Menu className="w-4 h-4" />
-                  </button>
+                  {!sourceOrderLocked && (
+                    <button
+                      className="p-1 text-muted-foreground hover:text-foreground cursor-grab active:cursor-grabbing"
+                      onMouseDown={(e) => e.stopPropagation()}
+                    >
+                      <Menu className="w-4 h-4" />
+                    </button>
+                  )}
                   <div className="flex-1">
                     <div className="flex items-center gap-2 mb-1">
                       <h3 className="font-medium">{source.label}</h3>
@@ -220,10 +272,12 @@ export default function SettingsPopup() {
                     <p className="text-sm text-muted-foreground">
                       {source.description}
                     </p>
+                    {isSourceLocked(source.key) && <ManagedNotice />}
                   </div>
                   <button
                     onClick={() => handleToggle(source.key)}
-                    className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                    disabled={isSourceLocked(source.key)}
+                    className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
                       settings.enabledSources[source.key]
                         ? "bg-primary"
                         : "bg-muted-foreground/20"
@@ -242,6 +296,49 @@ export default function SettingsPopup() {
             </div>
           </div>
 
+          {/* Controller Testing */}
+          <div className="bg-card rounded-lg border border-border mt-4 p-4 flex items-start gap-4">
+            <div className="flex-1">
+              <h3 className="font-medium mb-1">Auto-open Controller Testing</h3>
+              <p className="text-sm text-muted-foreground">
+                Open the controller testing side panel when a controller is
+                used on a page
+              </p>
+              {autoOpenLocked && <ManagedNotice />}
+            </div>
+            <button
+              onClick={handleToggleAutoOpen}
+              disabled={autoOpenLocked}
+              className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                autoShowModal ? "bg-primary" : "bg-muted-foreground/20"
+              }`}
+            >
+              <span
+                className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                  autoShowModal ? "translate-x-6" : "translate-x-1"
+                }`}
+              />
+            </button>
+          </div>
+
+          {/* Barcode scanner routing */}
+          <BarcodeScannerEditor onSaved={flashSaved} />
+
+          {/* Custom Search Providers */}
+          <SearchProviderEditor
+            onSaved={flashSaved}
+            locked={isSettingLocked(managed, "customProviders")}
+          />
+
+          {/* Comp Search Bundles */}
+          <ProviderBundleEditor onSaved={flashSaved} />
+
+          {/* Quick Link CSV sources */}
+          <QuickLinkSourcesEditor
+            onSaved={flashSaved}
+            locked={isSettingLocked(managed, "csvSources")}
+          />
+
           {/* Action Buttons */}
           <div className="flex items-center gap-3 mt-6">
             {isSaved && (
@@ -256,6 +353,13 @@ export default function SettingsPopup() {
             >
               Reset to Defaults
             </button>
+            <button
+              onClick={handleClearRanking}
+              title="Forget which items you open most so Best matches starts fresh"
+              className="px-4 py-2 bg-muted text-foreground rounded-lg hover:bg-muted/80 transition-colors"
+            >
+              Clear Best Matches
+            </button>
             <button
               onClick={() => window.close()}
               className="ml-auto px-4 py-2 text-muted-foreground hover:text-foreground transition-colors"
@@ -0,0 +1,260 @@
+import { ReactNode, useEffect, useMemo, useRef, useState } from "react";
+import { Check, RotateCcw, X } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import ReportPanel from "./ReportPanel";
+import {
+  AUDIO_GRADE_DESCRIPTIONS,
+  AUDIO_HISTORY_KEY,
+  AUDIO_STEPS,
+  AudioOutputKind,
+  AudioStepResult,
+  AudioStepStatus,
+  audioReportToHtml,
+  buildAudioReport,
+  createAudioSteps,
+  describeAudioDevice,
+  playAudioStep,
+  sweepFrequency,
+} from "@/src/utils/audio-test";
+import { newReportBase } from "@/src/utils/device-report";
+import { useReportAutosave } from "./useReportAutosave";
+
+
+const OUTPUT_KINDS: { id: AudioOutputKind; label: string }[] = [
+  { id: "headphones", label: "Headphones" },
+  { id: "speakers", label: "Speakers" },
+];
+
+const STATUS_ICONS: Record<AudioStepStatus, ReactNode> = {
+  pending: null,
+  pass: <Check className="w-3 h-3 text-green-600" />,
+  fail: <X className="w-3 h-3 text-red-600" />,
+};
+
+
+const formatHz = (hz: number) =>
+  hz >= 1000 ? `${(hz / 1000).toFixed(1)} kHz` : `${Math.round(hz)} Hz`;
+
+export default function AudioTest() {
+  const [output, setOutput] = useState<AudioOutputKind>("headphones");
+  const [name, setName] = useState("");
+  const [steps, setSteps] = useState<AudioStepResult[]>(createAudioSteps);
+  // Step waiting for confirmation, or null when idle
+  const [current, setCurrent] = useState<number | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [sweepHz, setSweepHz] = useState<number | null>(null);
+  const [reportBase, setReportBase] = useState(newReportBase);
+  const contextRef = useRef<AudioContext | null>(null);
+  const stopRef = useRef<(() => void) | null>(null);
+
+  const stop = () => {
+    stopRef.current?.();
+    stopRef.current = null;
+    setPlaying(false);
+    setSweepHz(null);
+  };
+
+  useEffect(
+    () => () => {
+      stopRef.current?.();
+      contextRef.current?.close().catch(() => {});
+    },
+    []
+  );
+
+  const play = (index: number) => {
+    stop();
+    // Created on the first click; browsers keep audio locked until then
+    const context = (contextRef.current ??= new AudioContext());
+    context.resume().catch(() => {});
+    const step = AUDIO_STEPS[index];
+    const stopStep = playAudioStep(context, step);
+    setPlaying(true);
+
+    const startedAt = performance.now();
+    let frame: number | null = null;
+    if (step.id === "sweep") {
+      const tick = () => {
+        setSweepHz(sweepFrequency(performance.now() - startedAt));
+        frame = requestAnimationFrame(tick);
+      };
+      frame = requestAnimationFrame(tick);
+    }
+    const timer = setTimeout(() => {
+      if (frame != null) cancelAnimationFrame(frame);
+      setPlaying(false);
+    }, step.durationMs);
+
+    stopRef.current = () => {
+      clearTimeout(timer);
+      if (frame != null) cancelAnimationFrame(frame);
+      stopStep();
+    };
+  };
+
+  const goTo = (index: number | null) => {
+    setCurrent(index);
+    if (index != null) play(index);
+  };
+
+  // Record the answer and move to the next unanswered step
+  const resolveStep = (index: number, status: AudioStepStatus) => {
+    stop();
+    const next = steps.map((step, i) =>
+      i === index ? { ...step, status } : step
+    );
+    setSteps(next);
+    const following = next.findIndex(
+      (step, i) => i > index && step.status === "pending"
+    );
+    goTo(following === -1 ? null : following);
+  };
+
+  const start = () => {
+    const first = steps.findIndex((step) => step.status === "pending");
+    if (first === -1) setSteps(createAudioSteps());
+    goTo(first === -1 ? 0 : first);
+  };
+
+  const report = useMemo(
+    () =>
+      steps.some((step) => step.status !== "pending")
+        ? buildAudioReport(reportBase, { name: name.trim(), output }, steps)
+        : null,
+    [steps, reportBase, name, output]
+  );
+
+  useReportAutosave(AUDIO_HISTORY_KEY, report);
+
+  const startNewReport = () => {
+    stop();
+    setCurrent(null);
+    setSteps(createAudioSteps());
+    setName("");
+    setReportBase(newReportBase());
+  };
+
+  const running = current != null;
+  const done = steps.every((step) => step.status !== "pending");
+
+  return (
+    <div className="h-full w-full bg-background overflow-y-auto">
+      <div className="p-2 space-y-2">
+        <Card className="border-stone-200">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm">Audio Test</CardTitle>
+          </CardHeader>
+          <CardContent className="pt-0 space-y-3">
+            <div className="flex items-center gap-1">
+              {OUTPUT_KINDS.map((kind) => (
+                <button
+                  key={kind.id}
+                  onClick={() => setOutput(kind.id)}
+                  className={`px-2 h-7 rounded border text-xs ${
+                    kind.id === output
+                      ? "border-green-500 bg-green-50"
+                      : "border-stone-200 bg-muted"
+                  }`}
+                >
+                  {kind.label}
+                </button>
+              ))}
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Model or SKU"
+                className="h-7 text-xs flex-1 min-w-0"
+              />
+            </div>
+
+            {running ? (
+              <div className="p-3 rounded border border-stone-200 bg-muted text-center space-y-1">
+                <div className="text-base font-semibold">
+                  {AUDIO_STEPS[current].label}
+                </div>
+                {sweepHz != null && (
+                  <div className="font-mono text-sm">{formatHz(sweepHz)}</div>
+                )}
+                <div className="text-xs text-muted-foreground">
+                  {AUDIO_STEPS[current].prompt}
+                </div>
+              </div>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                Set the volume to about half, then play each step and say what
+                you heard. The sweep runs from 20 Hz to 20 kHz.
+              </p>
+            )}
+
+            <div className="flex items-center gap-2">
+              {running ? (
+                <>
+                  <Button
+                    size="sm"
+                    className="h-7 text-xs"
+                    onClick={() => resolveStep(current, "pass")}
+                  >
+                    Sounded Right
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    className="h-7 text-xs"
+                    onClick={() => resolveStep(current, "fail")}
+                  >
+                    Problem
+                  </Button>
+                  <button
+                    title="Play again"
+                    disabled={playing}
+                    onClick={() => play(current)}
+                    className="p-1 text-muted-foreground hover:text-foreground disabled:opacity-50 ml-auto"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                  </button>
+                </>
+              ) : (
+                <Button size="sm" className="h-7 text-xs" onClick={start}>
+                  {done ? "Run Again" : "Start"}
+                </Button>
+              )}
+            </div>
+
+            <div className="space-y-1">
+              {steps.map((step, index) => (
+                <button
+                  key={step.id}
+                  title="Play this step"
+                  onClick={() => goTo(index)}
+                  className={`w-full flex justify-between items-center p-1 rounded border text-xs ${
+                    index === current
+                      ? "border-green-500"
+                      : step.status === "fail"
+                      ? "border-red-300 bg-red-50 dark:bg-red-950/20"
+                      : "border-stone-200 bg-muted"
+                  }`}
+                >
+                  <span className="font-medium">{step.label}</span>
+                  {STATUS_ICONS[step.status]}
+                </button>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
+        <ReportPanel
+          report={report}
+          historyKey={AUDIO_HISTORY_KEY}
+          kind="audio"
+          gradeDescriptions={AUDIO_GRADE_DESCRIPTIONS}
+          toHtml={audioReportToHtml}
+          describe={(entry) => describeAudioDevice(entry.device)}
+          emptyText="Answer any step to start a report for this device."
+          onNewReport={startNewReport}
+        />
+      </div>
+    </div>
+  );
+}
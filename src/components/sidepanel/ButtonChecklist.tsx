@@ -0,0 +1,248 @@
+import { ReactNode, useEffect, useRef, useState } from "react";
+import { Check, CircleSlash, SkipForward, X } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import {
+  ChecklistItem,
+  ChecklistResult,
+  ChecklistStatus,
+  checklistStepsFor,
+  createChecklist,
+  summarizeChecklist,
+} from "@/src/utils/button-checklist";
+import {
+  ControllerProfile,
+  GENERIC_PROFILE,
+} from "@/src/utils/controller-profiles";
+
+interface ButtonChecklistProps {
+  gamepadIndex: number | null;
+  profile?: ControllerProfile;
+  onResult?: (result: ChecklistResult) => void;
+}
+
+const STATUS_ICONS: Record<ChecklistStatus, ReactNode> = {
+  pending: null,
+  verified: <Check className="w-3 h-3 text-green-600" />,
+  skipped: <SkipForward className="w-3 h-3 text-muted-foreground" />,
+  broken: <X className="w-3 h-3 text-red-600" />,
+};
+
+export default function ButtonChecklist({
+  gamepadIndex,
+  profile = GENERIC_PROFILE,
+  onResult,
+}: ButtonChecklistProps) {
+  const [items, setItems] = useState<ChecklistItem[]>(createChecklist);
+  // Step waiting for a press, or null when the checklist isn't running
+  const [current, setCurrent] = useState<number | null>(null);
+  const [hint, setHint] = useState<string | null>(null);
+  const [result, setResult] = useState<ChecklistResult | null>(null);
+  const frameRef = useRef<number | null>(null);
+
+  const buttonLabel = (index: number) =>
+    items.find((item) => item.button === index)?.label ?? `Button ${index}`;
+
+  const finish = (final: ChecklistItem[]) => {
+    setCurrent(null);
+    setHint(null);
+    const summary = summarizeChecklist(final);
+    setResult(summary);
+    onResult?.(summary);
+  };
+
+  // Record a step's outcome and move to the next pending one
+  const resolveStep = (index: number, status: ChecklistStatus) => {
+    const next = items.map((item, i) =>
+      i === index ? { ...item, status } : item
+    );
+    setItems(next);
+    setHint(null);
+
+    const following = next.findIndex(
+      (item, i) => i > index && item.status === "pending"
+    );
+    if (following === -1) finish(next);
+    else setCurrent(following);
+  };
+
+  useEffect(() => {
+    if (current == null || gamepadIndex == null) return;
+
+    const target = items[current].button;
+    let previous: boolean[] | null = null;
+
+    const tick = () => {
+      const gp = navigator.getGamepads?.()[gamepadIndex];
+      if (gp) {
+        const pressed = gp.buttons.map((b) => b.pressed);
+        // Only react to new presses, so a held button can't verify a step
+        if (previous) {
+          const newPress = pressed.findIndex((p, i) => p && !previous![i]);
+          if (newPress === target) {
+            resolveStep(current, "verified");
+            return;
+          }
+          if (newPress !== -1) {
+            setHint(`Detected ${buttonLabel(newPress)}`);
+          }
+        }
+        previous = pressed;
+      }
+      frameRef.current = requestAnimationFrame(tick);
+    };
+    frameRef.current = requestAnimationFrame(tick);
+
+    return () => {
+      if (frameRef.current != null) {
+        cancelAnimationFrame(frameRef.current);
+        frameRef.current = null;
+      }
+    };
+  }, [current, gamepadIndex]);
+
+  const start = () => {
+    setItems(createChecklist(checklistStepsFor(profile)));
+    setResult(null);
+    setHint(null);
+    setCurrent(0);
+  };
+
+  const running = current != null;
+  const done = items.filter((item) => item.status !== "pending").length;
+
+  return (
+    <Card className="border-stone-200">
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-sm">Button Checklist</CardTitle>
+          {running && (
+            <span className="text-xs text-muted-foreground">
+              {done} / {items.length}
+            </span>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-3">
+        {running ? (
+          <div className="p-3 rounded border border-stone-200 bg-muted text-center space-y-1">
+            <div className="text-xs text-muted-foreground">Press</div>
+            <div className="text-base font-semibold">
+              {items[current].label}
+            </div>
+            {hint && <div className="text-xs text-amber-600">{hint}</div>}
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            Prompts for every button in turn and checks each press.
+          </p>
+        )}
+
+        <div className="flex items-center gap-2">
+          {running ? (
+            <>
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-7 text-xs"
+                onClick={() => resolveStep(current, "skipped")}
+              >
+                <SkipForward className="w-3 h-3 mr-1" />
+                Skip
+              </Button>
+              <Button
+                size="sm"
+                variant="destructive"
+                className="h-7 text-xs"
+                onClick={() => resolveStep(current, "broken")}
+              >
+                <CircleSlash className="w-3 h-3 mr-1" />
+                Broken
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 text-xs ml-auto"
+                onClick={() => finish(items)}
+              >
+                Finish
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button
+                size="sm"
+                className="h-7 text-xs"
+                disabled={gamepadIndex == null}
+                onClick={start}
+              >
+                {result ? "Run Again" : "Start"}
+              </Button>
+              {result && (
+                <Badge
+                  variant={result.pass ? "default" : "destructive"}
+                  className="ml-auto"
+                >
+                  {result.pass
+                    ? "ALL VERIFIED"
+                    : result.failed.length
+                    ? "FAILED"
+                    : "INCOMPLETE"}
+                </Badge>
+              )}
+            </>
+          )}
+        </div>
+
+        {(running || result) && (
+          <div className="grid grid-cols-2 gap-1">
+            {items.map((item, index) => (
+              <button
+                key={item.id}
+                disabled={!running}
+                title={running ? "Test this button again" : undefined}
+                onClick={() => {
+                  setItems((prev) =>
+                    prev.map((it, i) =>
+                      i === index ? { ...it, status: "pending" } : it
+                    )
+                  );
+                  setHint(null);
+                  setCurrent(index);
+                }}
+                className={`flex justify-between items-center p-1 rounded border text-left ${
+                  index === current
+                    ? "border-green-500"
+                    : item.status === "broken"
+                    ? "border-red-300 bg-red-50 dark:bg-red-950/20"
+                    : "border-stone-200 bg-muted"
+                }`}
+              >
+                <span className="text-xs font-medium truncate">
+                  {item.label}
+                </span>
+                {STATUS_ICONS[item.status]}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {result && !result.pass && (
+          <div className="space-y-1 text-xs">
+            {result.failed.length > 0 && (
+              <p className="text-red-600">
+                Failed: {result.failed.join(", ")}
+              </p>
+            )}
+            {result.untested.length > 0 && (
+              <p className="text-muted-foreground">
+                Untested: {result.untested.join(", ")}
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,174 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "../ui/button";
+import {
+  CameraResult,
+  MediaDeviceStatus,
+  formatResolution,
+  probeResolutions,
+} from "@/src/utils/media-check";
+
+interface CameraPreviewProps {
+  device: MediaDeviceInfo;
+  result: CameraResult;
+  // Only one camera streams at a time; others show a Preview button
+  active: boolean;
+  onActivate: () => void;
+  onResult: (patch: Partial<CameraResult>) => void;
+}
+
+export default function CameraPreview({
+  device,
+  result,
+  active,
+  onActivate,
+  onResult,
+}: CameraPreviewProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [probing, setProbing] = useState(false);
+  const [current, setCurrent] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!active) return;
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { deviceId: { exact: device.deviceId } },
+        });
+      } catch (e) {
+        onResult({ status: "fail", error: (e as Error).name || "Error" });
+        return;
+      }
+      if (cancelled) {
+        stream.getTracks().forEach((t) => t.stop());
+        return;
+      }
+      if (videoRef.current) videoRef.current.srcObject = stream;
+
+      const [track] = stream.getVideoTracks();
+      const capabilities = track.getCapabilities?.() ?? {};
+      setProbing(true);
+      const resolutions = await probeResolutions(track);
+      if (cancelled) return;
+      setProbing(false);
+      const settings = track.getSettings();
+      setCurrent(
+        `${settings.width}×${settings.height}${
+          settings.frameRate ? ` @ ${Math.round(settings.frameRate)} fps` : ""
+        }`
+      );
+      onResult({
+        resolutions,
+        maxWidth: capabilities.width?.max ?? null,
+        maxHeight: capabilities.height?.max ?? null,
+        maxFrameRate: capabilities.frameRate?.max ?? null,
+        error: undefined,
+      });
+    };
+    start();
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach((t) => t.stop());
+      setProbing(false);
+      setCurrent(null);
+    };
+  }, [active, device.deviceId]);
+
+  const setStatus = (status: MediaDeviceStatus) => onResult({ status });
+
+  return (
+    <div
+      className={`p-2 rounded border space-y-2 ${
+        result.status === "fail"
+          ? "border-red-300 bg-red-50 dark:bg-red-950/20"
+          : "border-stone-200 bg-muted"
+      }`}
+    >
+      <div className="flex items-center gap-2">
+        <span className="text-xs font-medium truncate flex-1">
+          {result.label}
+        </span>
+        {!active && (
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-7 text-xs"
+            onClick={onActivate}
+          >
+            Preview
+          </Button>
+        )}
+      </div>
+
+      {active && (
+        <video
+          ref={videoRef}
+          autoPlay
+          muted
+          playsInline
+          className="w-full rounded bg-black aspect-video"
+        />
+      )}
+
+      {result.error ? (
+        <p className="text-xs text-red-600">
+          Couldn't open camera ({result.error})
+        </p>
+      ) : (
+        <div className="space-y-1 text-xs">
+          {active && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Streaming</span>
+              <span className="font-mono">
+                {probing ? "Checking sizes…" : current ?? "—"}
+              </span>
+            </div>
+          )}
+          {result.resolutions.length > 0 && (
+            <div className="flex justify-between gap-2">
+              <span className="text-muted-foreground">Resolutions</span>
+              <span className="font-mono text-right">
+                {result.resolutions.map(formatResolution).join(", ")}
+              </span>
+            </div>
+          )}
+          {result.maxFrameRate != null && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Max frame rate</span>
+              <span className="font-mono">
+                {Math.round(result.maxFrameRate)} fps
+              </span>
+            </div>
+          )}
+        </div>
+      )}
+
+      {(active || result.status !== "untested") && (
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground flex-1">
+            Picture clear and in focus?
+          </span>
+          <Button
+            size="sm"
+            variant={result.status === "pass" ? "default" : "outline"}
+            className="h-7 text-xs"
+            onClick={() => setStatus("pass")}
+          >
+            Works
+          </Button>
+          <Button
+            size="sm"
+            variant={result.status === "fail" ? "destructive" : "outline"}
+            className="h-7 text-xs"
+            onClick={() => setStatus("fail")}
+          >
+            Broken
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import { useEffect, useRef } from "react";
+import { Badge } from "../ui/badge";
+import { ControllerGrade } from "@/src/utils/controller-report";
+
+interface ControllerMiniViewProps {
+  index: number;
+  name: string;
+  grade: ControllerGrade | null;
+  focused: boolean;
+  onSelect: () => void;
+}
+
+const UPDATE_INTERVAL = 1000 / 30;
+const STICK_RANGE = 9;
+const COLOR_PRESSED = "rgba(239,68,68,0.9)";
+const COLOR_IDLE = "rgba(34,197,94,0.65)";
+
+/**
+ * Small live view of one gamepad (sticks, triggers, any button held) for
+ * the controller picker. Draws straight to the SVG from its own loop so
+ * several can run without re-rendering the panel.
+ */
+export default function ControllerMiniView({
+  index,
+  name,
+  grade,
+  focused,
+  onSelect,
+}: ControllerMiniViewProps) {
+  const leftRef = useRef<SVGCircleElement>(null);
+  const rightRef = useRef<SVGCircleElement>(null);
+  const ltRef = useRef<SVGRectElement>(null);
+  const rtRef = useRef<SVGRectElement>(null);
+  const buttonsRef = useRef<SVGCircleElement>(null);
+
+  useEffect(() => {
+    let frame: number;
+    let lastUpdate = 0;
+
+    const update = (now: number) => {
+      frame = requestAnimationFrame(update);
+      if (now - lastUpdate < UPDATE_INTERVAL) return;
+      lastUpdate = now;
+
+      const gp = navigator.getGamepads?.()[index];
+      if (!gp) return;
+      const ax = (i: number) => gp.axes[i] || 0;
+
+      leftRef.current?.setAttribute("cx", String(20 + ax(0) * STICK_RANGE));
+      leftRef.current?.setAttribute("cy", String(24 + ax(1) * STICK_RANGE));
+      rightRef.current?.setAttribute("cx", String(60 + ax(2) * STICK_RANGE));
+      rightRef.current?.setAttribute("cy", String(24 + ax(3) * STICK_RANGE));
+
+      const lt = gp.buttons[6]?.value ?? 0;
+      const rt = gp.buttons[7]?.value ?? 0;
+      ltRef.current?.setAttribute("width", String(lt * 24));
+      rtRef.current?.setAttribute("width", String(rt * 24));
+
+      const anyPressed = gp.buttons.some(
+        (b, i) => b.pressed && i !== 6 && i !== 7
+      );
+      buttonsRef.current?.setAttribute(
+        "fill",
+        anyPressed ? COLOR_PRESSED : COLOR_IDLE
+      );
+    };
+    frame = requestAnimationFrame(update);
+
+    return () => cancelAnimationFrame(frame);
+  }, [index]);
+
+  return (
+    <button
+      onClick={onSelect}
+      title={name}
+      className={`flex flex-col items-center gap-1 p-1 rounded border text-left ${
+        focused ? "border-green-500 bg-green-50" : "border-stone-200 bg-muted"
+      }`}
+    >
+      <svg viewBox="0 0 80 44" className="w-full h-auto">
+        <rect x="8" y="2" width="24" height="4" fill="rgba(64,64,64,0.2)" />
+        <rect ref={ltRef} x="8" y="2" width="0" height="4" fill={COLOR_IDLE} />
+        <rect x="48" y="2" width="24" height="4" fill="rgba(64,64,64,0.2)" />
+        <rect ref={rtRef} x="48" y="2" width="0" height="4" fill={COLOR_IDLE} />
+        <circle
+          cx="20"
+          cy="24"
+          r="13"
+          fill="rgba(64,64,64,0.2)"
+          stroke="rgba(156,163,175,0.8)"
+        />
+        <circle
+          cx="60"
+          cy="24"
+          r="13"
+          fill="rgba(64,64,64,0.2)"
+          stroke="rgba(156,163,175,0.8)"
+        />
+        <circle ref={leftRef} cx="20" cy="24" r="4" fill={COLOR_IDLE} />
+        <circle ref={rightRef} cx="60" cy="24" r="4" fill={COLOR_IDLE} />
+        <circle ref={buttonsRef} cx="40" cy="38" r="3" fill={COLOR_IDLE} />
+      </svg>
+      <div className="flex items-center justify-between w-full gap-1">
+        <span className="text-[10px] font-medium truncate">
+          #{index + 1} {name}
+        </span>
+        {grade && grade !== "Incomplete" && (
+          <Badge
+            variant={grade === "A" || grade === "B" ? "default" : "destructive"}
+            className="h-4 px-1 text-[10px]"
+          >
+            {grade}
+          </Badge>
+        )}
+      </div>
+    </button>
+  );
+}
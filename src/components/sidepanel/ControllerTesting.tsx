@@ -1,7 +1,31 @@
-import { useEffect, useRef, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
 import { Progress } from "../ui/progress";
 import { Badge } from "../ui/badge";
+import StickDriftTest from "./StickDriftTest";
+import StickCircularityTest from "./StickCircularityTest";
+import ButtonChecklist from "./ButtonChecklist";
+import TriggerTest from "./TriggerTest";
+import RumbleTest from "./RumbleTest";
+import PollingRateTest from "./PollingRateTest";
+import ReportPanel from "./ReportPanel";
+import ProfileLayout, { stickLayoutTransforms } from "./ProfileLayout";
+import ControllerMiniView from "./ControllerMiniView";
+import {
+  matchControllerProfile,
+  parseGamepadId,
+} from "@/src/utils/controller-profiles";
+import {
+  CONTROLLER_HISTORY_KEY,
+  ControllerInfo,
+  ControllerTestReport,
+  ControllerTestResults,
+  GRADE_DESCRIPTIONS,
+  createControllerReport,
+  reportToHtml,
+  updateControllerReport,
+} from "@/src/utils/controller-report";
+import { saveReport } from "@/src/utils/device-report";
 
 export default function ControllerTesting() {
   // State for controller input values
@@ -21,8 +45,45 @@ export default function ControllerTesting() {
   const [connectedController, setConnectedController] = useState<{
     name: string;
     index: number;
+    buttonCount: number;
   } | null>(null);
 
+  // Model-specific labels and layout for the connected controller
+  const profile = useMemo(
+    () => matchControllerProfile(connectedController?.name ?? ""),
+    [connectedController?.name]
+  );
+  const layoutTransforms = stickLayoutTransforms(profile.stickLayout);
+  const profileIds = connectedController
+    ? parseGamepadId(connectedController.name)
+    : null;
+  const visibleButtons = profile.expectedButtons || 20;
+
+  // Every connected gamepad, and the one the panel is focused on
+  const [gamepads, setGamepads] = useState<{ index: number; id: string }[]>(
+    []
+  );
+  const focusIndexRef = useRef<number | null>(null);
+
+  // One report per connected controller, built up as tests finish, so a
+  // bundle of controllers can be tested together
+  const [reports, setReports] = useState<
+    Record<string, ControllerTestReport>
+  >({});
+  // Bumped per controller to reset the test cards for a new report
+  const [reportSessions, setReportSessions] = useState<
+    Record<string, number>
+  >({});
+  const controllerInfoRef = useRef<
+    (ControllerInfo & { index: number }) | null
+  >(null);
+
+  const focusKey = connectedController
+    ? controllerKey(connectedController.index, connectedController.name)
+    : "";
+  const report = reports[focusKey] ?? null;
+  const testKey = `${focusKey}-${reportSessions[focusKey] ?? 0}`;
+
   // Refs for SVG elements
   const lstickRef = useRef<SVGCircleElement>(null);
   const rstickRef = useRef<SVGCircleElement>(null);
@@ -49,33 +110,45 @@ export default function ControllerTesting() {
     r2?: Element | null;
   } | null>(null);
 
-  // Controller button names
-  const buttonNames = [
-    "A/✕",
-    "B/○",
-    "X/□",
-    "Y/△",
-    "L1/LB",
-    "R1/RB",
-    "L2/LT",
-    "R2/RT",
-    "Other",
-    "Start",
-    "L3",
-    "R3",
-    "D-Up",
-    "D-Down",
-    "D-Left",
-    "D-Right",
-    "Meta",
-    "Touch/Share",
-    "Extra1",
-    "Extra2",
-  ];
+  useEffect(() => {
+    // Saved right away: switching controllers changes `report`, and a
+    // debounced save would drop the previous controller's last result
+    if (report) saveReport(CONTROLLER_HISTORY_KEY, report);
+  }, [report]);
+
+  // Test cards call this from their animation loops, so it only reads refs
+  const recordResult = (results: Partial<ControllerTestResults>) => {
+    const gamepad = controllerInfoRef.current;
+    if (!gamepad) return;
+    const key = controllerKey(gamepad.index, gamepad.id);
+    const info: ControllerInfo = {
+      id: gamepad.id,
+      mapping: gamepad.mapping,
+      profile: matchControllerProfile(gamepad.id).name,
+    };
+    setReports((prev) => ({
+      ...prev,
+      [key]: updateControllerReport(
+        prev[key] ?? createControllerReport(info),
+        results
+      ),
+    }));
+  };
+
+  const startNewReport = () => {
+    setReports((prev) => {
+      const { [focusKey]: _, ...rest } = prev;
+      return rest;
+    });
+    setReportSessions((prev) => ({
+      ...prev,
+      [focusKey]: (prev[focusKey] ?? 0) + 1,
+    }));
+  };
 
   useEffect(() => {
-    let selectedIndex = 0;
     let lastUpdateTime = 0;
+    let lastGamepadList = "";
     const UPDATE_INTERVAL = 1000 / 30; // 30fps instead of 60fps
     let lastControllerState = {
       lx: 0,
@@ -163,17 +236,32 @@ export default function ControllerTesting() {
       const gps = navigator.getGamepads?.() || [];
       const available: number[] = [];
       for (let i = 0; i < gps.length; i++) if (gps[i]) available.push(i);
-      if (available.length && !available.includes(selectedIndex)) {
-        selectedIndex = available[0];
+      if (
+        available.length &&
+        !available.includes(focusIndexRef.current ?? -1)
+      ) {
+        focusIndexRef.current = available[0];
+      }
+      const selectedIndex = focusIndexRef.current ?? 0;
+
+      // Only re-render the controller picker when the set changes
+      const gamepadList = available.map((i) => `${i}:${gps[i]!.id}`).join("|");
+      if (gamepadList !== lastGamepadList) {
+        lastGamepadList = gamepadList;
+        setGamepads(available.map((i) => ({ index: i, id: gps[i]!.id })));
       }
 
       const gp = gps[selectedIndex];
 
       // Update connected controller info
+      controllerInfoRef.current = gp
+        ? { id: gp.id, mapping: gp.mapping, index: selectedIndex }
+        : null;
       if (gp && gp.id) {
         setConnectedController({
           name: gp.id,
           index: selectedIndex,
+          buttonCount: gp.buttons.length,
         });
       } else {
         setConnectedController(null);
@@ -310,6 +398,7 @@ export default function ControllerTesting() {
       if (!any) {
         stopLoop();
         setConnectedController(null);
+        setGamepads([]);
       }
     };
 
@@ -350,6 +439,24 @@ export default function ControllerTesting() {
                 <div className="text-sm font-semibold text-green-600">
                   {connectedController.name}
                 </div>
+                <div className="flex items-center justify-center gap-1 mt-1">
+                  <Badge variant="outline" className="text-xs h-5 px-1">
+                    {profile.name}
+                  </Badge>
+                  {profileIds && (
+                    <span className="text-xs font-mono text-muted-foreground">
+                      {profileIds.vendorId}:{profileIds.productId}
+                    </span>
+                  )}
+                </div>
+                {profile.expectedButtons > 0 &&
+                  connectedController.buttonCount <
+                    profile.expectedButtons && (
+                    <div className="text-xs text-amber-600 mt-1">
+                      Reports {connectedController.buttonCount} buttons,
+                      expected {profile.expectedButtons}
+                    </div>
+                  )}
               </div>
             ) : (
               <div className="text-center">
@@ -364,6 +471,27 @@ export default function ControllerTesting() {
           </CardContent>
         </Card>
 
+        {/* Controller picker when several are connected */}
+        {gamepads.length > 1 && (
+          <div className="grid grid-cols-2 gap-2">
+            {gamepads.map((gamepad) => (
+              <ControllerMiniView
+                key={controllerKey(gamepad.index, gamepad.id)}
+                index={gamepad.index}
+                name={matchControllerProfile(gamepad.id).name}
+                grade={
+                  reports[controllerKey(gamepad.index, gamepad.id)]?.grade ??
+                  null
+                }
+                focused={gamepad.index === connectedController?.index}
+                onSelect={() => {
+                  focusIndexRef.current = gamepad.index;
+                }}
+              />
+            ))}
+          </div>
+        )}
+
         {/* Controller SVG */}
         <Card className="border-stone-200">
           <CardContent className="flex justify-center items-center p-2">
@@ -391,24 +519,26 @@ export default function ControllerTesting() {
                   stroke="rgba(0,0,0,1)"
                   strokeWidth="3"
                 />
-                <circle
-                  id="LStickOutline"
-                  cx="113"
-                  cy="160"
-                  r="37.5"
-                  fill="rgba(64,64,64,0.2)"
-                  stroke="rgba(156,163,175,0.8)"
-                  strokeWidth="3"
-                />
-                <circle
-                  ref={lstickRef}
-                  cx="113"
-                  cy="160"
-                  r="28"
-                  fill="rgba(156,163,175,0.6)"
-                  stroke="black"
-                  strokeWidth="3"
-                />
+                <g transform={layoutTransforms.leftStick}>
+                  <circle
+                    id="LStickOutline"
+                    cx="113"
+                    cy="160"
+                    r="37.5"
+                    fill="rgba(64,64,64,0.2)"
+                    stroke="rgba(156,163,175,0.8)"
+                    strokeWidth="3"
+                  />
+                  <circle
+                    ref={lstickRef}
+                    cx="113"
+                    cy="160"
+                    r="28"
+                    fill="rgba(156,163,175,0.6)"
+                    stroke="black"
+                    strokeWidth="3"
+                  />
+                </g>
                 <circle
                   id="RStickOutline"
                   cx="278"
@@ -445,62 +575,64 @@ export default function ControllerTesting() {
                   stroke="black"
                   strokeWidth="3"
                 />
-                <circle
-                  id="DOutline"
-                  cx="166"
-                  cy="238"
-                  r="37.5"
-                  fill="rgba(64,64,64,0.2)"
-                  stroke="rgba(156,163,175,0.8)"
-                  strokeWidth="3"
-                />
-                <g id="DUp">
-                  <mask id="path-8-inside-1" fill="white">
-                    <path d="M177.669 222.335C180.793 219.21 180.816 213.997 176.868 212.014C176.327 211.743 175.776 211.491 175.215 211.258C172.182 210.002 168.931 209.355 165.648 209.355C162.365 209.355 159.114 210.002 156.081 211.258C155.521 211.491 154.969 211.743 154.429 212.014C150.48 213.997 150.503 219.21 153.627 222.335L159.991 228.698C163.116 231.823 168.181 231.823 171.305 228.698L177.669 222.335Z"></path>
-                  </mask>
-                  <path
-                    d="M177.669 222.335C180.793 219.21 180.816 213.997 176.868 212.014C176.327 211.743 175.776 211.491 175.215 211.258C172.182 210.002 168.931 209.355 165.648 209.355C162.365 209.355 159.114 210.002 156.081 211.258C155.521 211.491 154.969 211.743 154.429 212.014C150.48 213.997 150.503 219.21 153.627 222.335L159.991 228.698C163.116 231.823 168.181 231.823 171.305 228.698L177.669 222.335Z"
-                    fill="rgba(156,163,175,0.8)"
-                    stroke="black"
-                    strokeWidth="6"
-                    mask="url(#path-8-inside-1)"
-                  />
-                </g>
-                <g id="DRight">
-                  <mask id="path-9-inside-2" fill="white">
-                    <path d="M181.447 249.669C184.571 252.793 189.785 252.816 191.768 248.868C192.039 248.327 192.291 247.776 192.523 247.215C193.78 244.182 194.426 240.931 194.426 237.648C194.426 234.365 193.78 231.114 192.523 228.081C192.291 227.521 192.039 226.969 191.768 226.429C189.785 222.48 184.571 222.503 181.447 225.627L175.083 231.991C171.959 235.116 171.959 240.181 175.083 243.305L181.447 249.669Z"></path>
-                  </mask>
-                  <path
-                    d="M181.447 249.669C184.571 252.793 189.785 252.816 191.768 248.868C192.039 248.327 192.291 247.776 192.523 247.215C193.78 244.182 194.426 240.931 194.426 237.648C194.426 234.365 193.78 231.114 192.523 228.081C192.291 227.521 192.039 226.969 191.768 226.429C189.785 222.48 184.571 222.503 181.447 225.627L175.083 231.991C171.959 235.116 171.959 240.181 175.083 243.305L181.447 249.669Z"
-                    fill="rgba(156,163,175,0.8)"
-                    stroke="black"
-                    strokeWidth="6"
-                    mask="url(#path-9-inside-2)"
-                  />
-                </g>
-                <g id="DDown">
-                  <mask id="path-10-inside-3" fill="white">
-                    <path d="M154.113 253.447C150.989 256.571 150.966 261.785 154.914 263.767C155.455 264.039 156.006 264.291 156.566 264.523C159.6 265.78 162.85 266.426 166.134 266.426C169.417 266.426 172.667 265.78 175.701 264.523C176.261 264.291 176.812 264.039 177.353 263.767C181.301 261.785 181.279 256.571 178.154 253.447L171.79 247.083C168.666 243.959 163.601 243.959 160.477 247.083L154.113 253.447Z"></path>
-                  </mask>
-                  <path
-                    d="M154.113 253.447C150.989 256.571 150.966 261.785 154.914 263.767C155.455 264.039 156.006 264.291 156.566 264.523C159.6 265.78 162.85 266.426 166.134 266.426C169.417 266.426 172.667 265.78 175.701 264.523C176.261 264.291 176.812 264.039 177.353 263.767C181.301 261.785 181.279 256.571 178.154 253.447L171.79 247.083C168.666 243.959 163.601 243.959 160.477 247.083L154.113 253.447Z"
-                    fill="rgba(156,163,175,0.8)"
-                    stroke="black"
-                    strokeWidth="6"
-                    mask="url(#path-10-inside-3)"
-                  />
-                </g>
-                <g id="DLeft">
-                  <mask id="path-11-inside-4" fill="white">
-                    <path d="M150.335 226.113C147.21 222.989 141.997 222.966 140.014 226.914C139.743 227.455 139.491 228.006 139.258 228.566C138.002 231.6 137.355 234.85 137.355 238.134C137.355 241.417 138.002 244.667 139.258 247.701C139.491 248.261 139.743 248.812 140.014 249.353C141.997 253.301 147.21 253.279 150.335 250.154L156.698 243.79C159.823 240.666 159.823 235.601 156.698 232.477L150.335 226.113Z"></path>
-                  </mask>
-                  <path
-                    d="M150.335 226.113C147.21 222.989 141.997 222.966 140.014 226.914C139.743 227.455 139.491 228.006 139.258 228.566C138.002 231.6 137.355 234.85 137.355 238.134C137.355 241.417 138.002 244.667 139.258 247.701C139.491 248.261 139.743 248.812 140.014 249.353C141.997 253.301 147.21 253.279 150.335 250.154L156.698 243.79C159.823 240.666 159.823 235.601 156.698 232.477L150.335 226.113Z"
-                    fill="rgba(156,163,175,0.8)"
-                    stroke="black"
-                    strokeWidth="6"
-                    mask="url(#path-11-inside-4)"
+                <g transform={layoutTransforms.dpad}>
+                  <circle
+                    id="DOutline"
+                    cx="166"
+                    cy="238"
+                    r="37.5"
+                    fill="rgba(64,64,64,0.2)"
+                    stroke="rgba(156,163,175,0.8)"
+                    strokeWidth="3"
                   />
+                  <g id="DUp">
+                    <mask id="path-8-inside-1" fill="white">
+                      <path d="M177.669 222.335C180.793 219.21 180.816 213.997 176.868 212.014C176.327 211.743 175.776 211.491 175.215 211.258C172.182 210.002 168.931 209.355 165.648 209.355C162.365 209.355 159.114 210.002 156.081 211.258C155.521 211.491 154.969 211.743 154.429 212.014C150.48 213.997 150.503 219.21 153.627 222.335L159.991 228.698C163.116 231.823 168.181 231.823 171.305 228.698L177.669 222.335Z"></path>
+                    </mask>
+                    <path
+                      d="M177.669 222.335C180.793 219.21 180.816 213.997 176.868 212.014C176.327 211.743 175.776 211.491 175.215 211.258C172.182 210.002 168.931 209.355 165.648 209.355C162.365 209.355 159.114 210.002 156.081 211.258C155.521 211.491 154.969 211.743 154.429 212.014C150.48 213.997 150.503 219.21 153.627 222.335L159.991 228.698C163.116 231.823 168.181 231.823 171.305 228.698L177.669 222.335Z"
+                      fill="rgba(156,163,175,0.8)"
+                      stroke="black"
+                      strokeWidth="6"
+                      mask="url(#path-8-inside-1)"
+                    />
+                  </g>
+                  <g id="DRight">
+                    <mask id="path-9-inside-2" fill="white">
+                      <path d="M181.447 249.669C184.571 252.793 189.785 252.816 191.768 248.868C192.039 248.327 192.291 247.776 192.523 247.215C193.78 244.182 194.426 240.931 194.426 237.648C194.426 234.365 193.78 231.114 192.523 228.081C192.291 227.521 192.039 226.969 191.768 226.429C189.785 222.48 184.571 222.503 181.447 225.627L175.083 231.991C171.959 235.116 171.959 240.181 175.083 243.305L181.447 249.669Z"></path>
+                    </mask>
+                    <path
+                      d="M181.447 249.669C184.571 252.793 189.785 252.816 191.768 248.868C192.039 248.327 192.291 247.776 192.523 247.215C193.78 244.182 194.426 240.931 194.426 237.648C194.426 234.365 193.78 231.114 192.523 228.081C192.291 227.521 192.039 226.969 191.768 226.429C189.785 222.48 184.571 222.503 181.447 225.627L175.083 231.991C171.959 235.116 171.959 240.181 175.083 243.305L181.447 249.669Z"
+                      fill="rgba(156,163,175,0.8)"
+                      stroke="black"
+                      strokeWidth="6"
+                      mask="url(#path-9-inside-2)"
+                    />
+                  </g>
+                  <g id="DDown">
+                    <mask id="path-10-inside-3" fill="white">
+                      <path d="M154.113 253.447C150.989 256.571 150.966 261.785 154.914 263.767C155.455 264.039 156.006 264.291 156.566 264.523C159.6 265.78 162.85 266.426 166.134 266.426C169.417 266.426 172.667 265.78 175.701 264.523C176.261 264.291 176.812 264.039 177.353 263.767C181.301 261.785 181.279 256.571 178.154 253.447L171.79 247.083C168.666 243.959 163.601 243.959 160.477 247.083L154.113 253.447Z"></path>
+                    </mask>
+                    <path
+                      d="M154.113 253.447C150.989 256.571 150.966 261.785 154.914 263.767C155.455 264.039 156.006 264.291 156.566 264.523C159.6 265.78 162.85 266.426 166.134 266.426C169.417 266.426 172.667 265.78 175.701 264.523C176.261 264.291 176.812 264.039 177.353 263.767C181.301 261.785 181.279 256.571 178.154 253.447L171.79 247.083C168.666 243.959 163.601 243.959 160.477 247.083L154.113 253.447Z"
+                      fill="rgba(156,163,175,0.8)"
+                      stroke="black"
+                      strokeWidth="6"
+                      mask="url(#path-10-inside-3)"
+                    />
+                  </g>
+                  <g id="DLeft">
+                    <mask id="path-11-inside-4" fill="white">
+                      <path d="M150.335 226.113C147.21 222.989 141.997 222.966 140.014 226.914C139.743 227.455 139.491 228.006 139.258 228.566C138.002 231.6 137.355 234.85 137.355 238.134C137.355 241.417 138.002 244.667 139.258 247.701C139.491 248.261 139.743 248.812 140.014 249.353C141.997 253.301 147.21 253.279 150.335 250.154L156.698 243.79C159.823 240.666 159.823 235.601 156.698 232.477L150.335 226.113Z"></path>
+                    </mask>
+                    <path
+                      d="M150.335 226.113C147.21 222.989 141.997 222.966 140.014 226.914C139.743 227.455 139.491 228.006 139.258 228.566C138.002 231.6 137.355 234.85 137.355 238.134C137.355 241.417 138.002 244.667 139.258 247.701C139.491 248.261 139.743 248.812 140.014 249.353C141.997 253.301 147.21 253.279 150.335 250.154L156.698 243.79C159.823 240.666 159.823 235.601 156.698 232.477L150.335 226.113Z"
+                      fill="rgba(156,163,175,0.8)"
+                      stroke="black"
+                      strokeWidth="6"
+                      mask="url(#path-11-inside-4)"
+                    />
+                  </g>
                 </g>
                 <circle
                   id="BOutline"
@@ -611,11 +743,21 @@ export default function ControllerTesting() {
                   height="0"
                   fill="rgba(156,163,175,0.6)"
                 />
+                <ProfileLayout
+                  profile={profile}
+                  buttons={controllerState.buttons}
+                />
               </svg>
             </div>
           </CardContent>
         </Card>
 
+        <StickCircularityTest
+          key={`circularity-${testKey}`}
+          gamepadIndex={connectedController?.index ?? null}
+          onResult={(circularity) => recordResult({ circularity })}
+        />
+
         {/* Controls Panel */}
         <Card className="border-stone-200">
           <CardHeader className="pb-2">
@@ -842,37 +984,87 @@ export default function ControllerTesting() {
                 Buttons
               </h4>
               <div className="grid grid-cols-2 gap-1">
-                {controllerState.buttons.map((button, index) => (
-                  <div
-                    key={index}
-                    className={`flex justify-between items-center p-1 rounded border ${
-                      button.pressed
-                        ? "border-red-300 bg-red-50 dark:bg-red-950/20"
-                        : "border-stone-200 bg-muted"
-                    }`}
-                  >
-                    <span className="text-xs font-medium truncate">
-                      {buttonNames[index]}
-                    </span>
-                    <div className="flex items-center gap-1">
-                      <Badge
-                        variant="outline"
-                        className="font-mono text-xs h-4 px-1"
-                      >
-                        {button.value.toFixed(1)}
-                      </Badge>
-                      <Badge
-                        variant={button.pressed ? "destructive" : "secondary"}
-                        className="w-2 h-2 p-0 rounded-full"
-                      />
+                {controllerState.buttons
+                  .slice(0, visibleButtons)
+                  .map((button, index) => (
+                    <div
+                      key={index}
+                      className={`flex justify-between items-center p-1 rounded border ${
+                        button.pressed
+                          ? "border-red-300 bg-red-50 dark:bg-red-950/20"
+                          : "border-stone-200 bg-muted"
+                      }`}
+                    >
+                      <span className="text-xs font-medium truncate">
+                        {profile.buttonLabels[index] ?? `Button ${index}`}
+                      </span>
+                      <div className="flex items-center gap-1">
+                        <Badge
+                          variant="outline"
+                          className="font-mono text-xs h-4 px-1"
+                        >
+                          {button.value.toFixed(1)}
+                        </Badge>
+                        <Badge
+                          variant={button.pressed ? "destructive" : "secondary"}
+                          className="w-2 h-2 p-0 rounded-full"
+                        />
+                      </div>
                     </div>
-                  </div>
-                ))}
+                  ))}
               </div>
             </div>
           </CardContent>
         </Card>
+
+        <ButtonChecklist
+          key={`buttons-${testKey}`}
+          gamepadIndex={connectedController?.index ?? null}
+          profile={profile}
+          onResult={(buttons) => recordResult({ buttons })}
+        />
+
+        <TriggerTest
+          key={`triggers-${testKey}`}
+          gamepadIndex={connectedController?.index ?? null}
+          onResult={(triggers) => recordResult({ triggers })}
+        />
+
+        <StickDriftTest
+          key={`drift-${testKey}`}
+          gamepadIndex={connectedController?.index ?? null}
+          onResult={(drift) => recordResult({ drift })}
+        />
+
+        <RumbleTest
+          key={`rumble-${testKey}`}
+          gamepadIndex={connectedController?.index ?? null}
+          onResult={(rumble) => recordResult({ rumble })}
+        />
+
+        <PollingRateTest
+          key={`polling-${testKey}`}
+          gamepadIndex={connectedController?.index ?? null}
+          onResult={(polling) => recordResult({ polling })}
+        />
+
+        <ReportPanel
+          report={report}
+          historyKey={CONTROLLER_HISTORY_KEY}
+          kind="controller"
+          gradeDescriptions={GRADE_DESCRIPTIONS}
+          toHtml={reportToHtml}
+          describe={(entry) => entry.controller.id}
+          emptyText="Run any test above to start a report for this controller."
+          onNewReport={startNewReport}
+        />
       </div>
     </div>
   );
 }
+
+// Identifies a controller for the session; two identical models differ by
+// their gamepad slot
+function controllerKey(index: number, id: string): string {
+  return `${index}:${id}`;
+}
@@ -0,0 +1,320 @@
+import { useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import { Input } from "../ui/input";
+import ReportPanel from "./ReportPanel";
+import {
+  KEYBOARD_LAYOUTS,
+  KeyDef,
+  KeyboardLayoutId,
+  KeyboardSection,
+  getKeyboardLayout,
+  layoutKeys,
+} from "@/src/utils/keyboard-layouts";
+import {
+  KEYBOARD_GRADE_DESCRIPTIONS,
+  KEYBOARD_HISTORY_KEY,
+  KeyRecord,
+  STUCK_MS,
+  buildKeyboardReport,
+  keyboardReportToHtml,
+  markStuckKeys,
+  recordKeyDown,
+  recordKeyUp,
+} from "@/src/utils/keyboard-test";
+import { newReportBase } from "@/src/utils/device-report";
+import { useReportAutosave } from "./useReportAutosave";
+
+// How often held keys are checked for being stuck
+const STUCK_CHECK_INTERVAL = 500;
+
+// Typing into the model field shouldn't count as testing keys
+const isTextField = (target: EventTarget | null) =>
+  target instanceof HTMLInputElement ||
+  target instanceof HTMLTextAreaElement ||
+  target instanceof HTMLSelectElement;
+
+export default function KeyboardTesting() {
+  const [layoutId, setLayoutId] = useState<KeyboardLayoutId>("ansi");
+  const [name, setName] = useState("");
+  const [records, setRecords] = useState<Record<string, KeyRecord>>({});
+  const [reportBase, setReportBase] = useState(newReportBase);
+  const [lastKey, setLastKey] = useState<{ code: string; key: string } | null>(
+    null
+  );
+  const [focused, setFocused] = useState(() => document.hasFocus());
+
+  const layout = getKeyboardLayout(layoutId);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (isTextField(e.target) || !e.code) return;
+      // Keep Tab, Space, F5 and friends from acting on the panel
+      e.preventDefault();
+      setLastKey({ code: e.code, key: e.key });
+      setRecords((prev) => ({
+        ...prev,
+        [e.code]: recordKeyDown(prev[e.code], e.timeStamp, e.repeat),
+      }));
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (isTextField(e.target) || !e.code) return;
+      e.preventDefault();
+      setRecords((prev) => ({
+        ...prev,
+        [e.code]: recordKeyUp(prev[e.code], e.timeStamp),
+      }));
+    };
+    // Keyups are lost while the panel is in the background, so release
+    // everything rather than reporting those keys as stuck
+    const onBlur = () => {
+      setFocused(false);
+      setRecords((prev) =>
+        Object.fromEntries(
+          Object.entries(prev).map(([code, record]) => [
+            code,
+            record.down ? { ...record, down: false } : record,
+          ])
+        )
+      );
+    };
+    const onFocus = () => setFocused(true);
+
+    window.addEventListener("keydown", onKeyDown, true);
+    window.addEventListener("keyup", onKeyUp, true);
+    window.addEventListener("blur", onBlur);
+    window.addEventListener("focus", onFocus);
+    const stuckCheck = setInterval(
+      () => setRecords((prev) => markStuckKeys(prev, performance.now())),
+      STUCK_CHECK_INTERVAL
+    );
+
+    return () => {
+      window.removeEventListener("keydown", onKeyDown, true);
+      window.removeEventListener("keyup", onKeyUp, true);
+      window.removeEventListener("blur", onBlur);
+      window.removeEventListener("focus", onFocus);
+      clearInterval(stuckCheck);
+    };
+  }, []);
+
+  const report = useMemo(
+    () =>
+      Object.keys(records).length
+        ? buildKeyboardReport(
+            reportBase,
+            { layout: layout.id, layoutName: layout.name, name: name.trim() },
+            layout,
+            records
+          )
+        : null,
+    [records, reportBase, layout, name]
+  );
+
+  useReportAutosave(KEYBOARD_HISTORY_KEY, report);
+
+  const resetKey = (code: string) =>
+    setRecords((prev) => {
+      const next = { ...prev };
+      delete next[code];
+      return next;
+    });
+
+  const startNewReport = () => {
+    setRecords({});
+    setLastKey(null);
+    setReportBase(newReportBase());
+  };
+
+  const total = layoutKeys(layout).length;
+  const tested = report ? total - report.untested.length : 0;
+  const [main, ...extraSections] = layout.sections;
+
+  return (
+    <div className="h-full w-full bg-background overflow-y-auto">
+      <div className="p-2 space-y-2">
+        <Card className="border-stone-200">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm">Keyboard Test</CardTitle>
+          </CardHeader>
+          <CardContent className="pt-0 space-y-3">
+            <div className="flex items-center gap-1">
+              {KEYBOARD_LAYOUTS.map((l) => (
+                <button
+                  key={l.id}
+                  onClick={() => setLayoutId(l.id)}
+                  className={`px-2 h-7 rounded border text-xs ${
+                    l.id === layoutId
+                      ? "border-green-500 bg-green-50"
+                      : "border-stone-200 bg-muted"
+                  }`}
+                >
+                  {l.name}
+                </button>
+              ))}
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Model or SKU"
+                className="h-7 text-xs flex-1 min-w-0"
+              />
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              {focused
+                ? `Press every key once. Keys held for ${
+                    STUCK_MS / 1000
+                  } seconds are marked stuck; click a key to reset it.`
+                : "Click anywhere in this panel to start capturing keys."}
+            </p>
+
+            <div className={`space-y-2 ${focused ? "" : "opacity-50"}`}>
+              <KeyboardSectionView
+                section={main}
+                unitWidth={100 / main.width}
+                records={records}
+                onReset={resetKey}
+              />
+              {extraSections.length > 0 && (
+                <div className="flex justify-end gap-3">
+                  {extraSections.map((section) => (
+                    <div
+                      key={section.id}
+                      style={{ width: `${(section.width / main.width) * 100}%` }}
+                    >
+                      <KeyboardSectionView
+                        section={section}
+                        unitWidth={100 / section.width}
+                        records={records}
+                        onReset={resetKey}
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-muted-foreground">
+                Tested {tested} of {total}
+              </span>
+              {lastKey && (
+                <span className="font-mono text-muted-foreground">
+                  {lastKey.code} ({lastKey.key === " " ? "Space" : lastKey.key})
+                </span>
+              )}
+            </div>
+
+            {report &&
+              (report.stuck.length > 0 ||
+                report.chatter.length > 0 ||
+                report.extraKeys.length > 0) && (
+                <div className="p-2 rounded border space-y-1 border-red-300 bg-red-50 dark:bg-red-950/20">
+                  {report.stuck.length > 0 && (
+                    <KeyList label="Stuck" codes={report.stuck} />
+                  )}
+                  {report.chatter.length > 0 && (
+                    <KeyList label="Chatter" codes={report.chatter} />
+                  )}
+                  {report.extraKeys.length > 0 && (
+                    <KeyList label="Not on layout" codes={report.extraKeys} />
+                  )}
+                </div>
+              )}
+          </CardContent>
+        </Card>
+
+        <ReportPanel
+          report={report}
+          historyKey={KEYBOARD_HISTORY_KEY}
+          kind="keyboard"
+          gradeDescriptions={KEYBOARD_GRADE_DESCRIPTIONS}
+          toHtml={keyboardReportToHtml}
+          describe={(entry) =>
+            entry.keyboard.name || `${entry.keyboard.layoutName} keyboard`
+          }
+          emptyText="Press any key to start a report for this keyboard."
+          onNewReport={startNewReport}
+        />
+      </div>
+    </div>
+  );
+}
+
+function KeyList({ label, codes }: { label: string; codes: string[] }) {
+  return (
+    <div className="flex justify-between gap-2 text-xs">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="font-mono text-red-600 text-right">
+        {codes.join(", ")}
+      </span>
+    </div>
+  );
+}
+
+function keyClass(record: KeyRecord | undefined): string {
+  if (record?.down) return "border-red-500 bg-red-500 text-white";
+  if (record?.stuck) return "border-red-600 bg-red-600 text-white";
+  if (record?.chatter) return "border-amber-500 bg-amber-400";
+  if (record?.presses) return "border-green-600 bg-green-500/80 text-white";
+  return "border-stone-200 bg-muted";
+}
+
+function KeyboardSectionView({
+  section,
+  unitWidth,
+  records,
+  onReset,
+}: {
+  section: KeyboardSection;
+  // Percent of the section width per key unit
+  unitWidth: number;
+  records: Record<string, KeyRecord>;
+  onReset: (code: string) => void;
+}) {
+  const renderKey = (key: KeyDef, i: number) => {
+    const style = { width: `${(key.width ?? 1) * unitWidth}%` };
+    if (!key.code) {
+      return (
+        <div key={i} style={style} className="p-px">
+          {key.label ? (
+            <div
+              title="Not reported to the browser"
+              className="h-6 rounded border border-dashed border-stone-300 text-[9px] text-muted-foreground flex items-center justify-center"
+            >
+              {key.label}
+            </div>
+          ) : (
+            <div className="h-6" />
+          )}
+        </div>
+      );
+    }
+
+    const record = records[key.code];
+    return (
+      <div key={i} style={style} className="p-px">
+        <button
+          title={`${key.code}: ${record?.presses ?? 0} presses${
+            record?.chatter ? `, ${record.chatter} chatter` : ""
+          }${record?.stuck ? ", stuck" : ""}`}
+          onClick={() => onReset(key.code)}
+          className={`w-full h-6 rounded border text-[9px] leading-none truncate ${keyClass(
+            record
+          )}`}
+        >
+          {key.label}
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      {section.rows.map((row, i) => (
+        <div key={i} className="flex">
+          {row.map(renderKey)}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,294 @@
+import { useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import ReportPanel from "./ReportPanel";
+import CameraPreview from "./CameraPreview";
+import MicrophoneTest from "./MicrophoneTest";
+import {
+  CameraResult,
+  MEDIA_GRADE_DESCRIPTIONS,
+  MEDIA_HISTORY_KEY,
+  MicrophoneResult,
+  buildMediaReport,
+  describeMediaDevice,
+  mediaReportToHtml,
+} from "@/src/utils/media-check";
+import { newReportBase } from "@/src/utils/device-report";
+import { useReportAutosave } from "./useReportAutosave";
+
+
+// Chrome lists the system default and communications inputs again under
+// these ids; they duplicate a real device
+const ALIAS_DEVICE_IDS = ["default", "communications"];
+
+
+const newCameraResult = (device: MediaDeviceInfo): CameraResult => ({
+  deviceId: device.deviceId,
+  label: device.label || "Camera",
+  resolutions: [],
+  maxWidth: null,
+  maxHeight: null,
+  maxFrameRate: null,
+  status: "untested",
+});
+
+const newMicrophoneResult = (device: MediaDeviceInfo): MicrophoneResult => ({
+  deviceId: device.deviceId,
+  label: device.label || "Microphone",
+  peakLevel: 0,
+  status: "untested",
+});
+
+async function listDevices() {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  const real = devices.filter((d) => !ALIAS_DEVICE_IDS.includes(d.deviceId));
+  return {
+    cameras: real.filter((d) => d.kind === "videoinput"),
+    microphones: real.filter((d) => d.kind === "audioinput"),
+    // Labels stay empty until the page has been allowed to capture
+    labelled: real.some((d) => d.label),
+  };
+}
+
+/**
+ * Ask for camera and microphone access once so device labels show up.
+ * Each kind is asked for separately so a machine without a camera can
+ * still test its microphone.
+ */
+async function requestAccess(): Promise<string | null> {
+  let error: string | null = null;
+  for (const constraints of [{ video: true }, { audio: true }]) {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia(constraints);
+      stream.getTracks().forEach((t) => t.stop());
+    } catch (e) {
+      const name = (e as Error).name;
+      if (name !== "NotFoundError") error = name || "Error";
+    }
+  }
+  return error;
+}
+
+export default function MediaCheck() {
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  const [microphones, setMicrophones] = useState<MediaDeviceInfo[]>([]);
+  const [labelled, setLabelled] = useState(true);
+  const [accessError, setAccessError] = useState<string | null>(null);
+  const [activeCamera, setActiveCamera] = useState<string | null>(null);
+  const [activeMic, setActiveMic] = useState<string | null>(null);
+  const [cameraResults, setCameraResults] = useState<
+    Record<string, CameraResult>
+  >({});
+  const [micResults, setMicResults] = useState<
+    Record<string, MicrophoneResult>
+  >({});
+  const [name, setName] = useState("");
+  const [reportBase, setReportBase] = useState(newReportBase);
+
+  const refresh = async () => {
+    try {
+      const found = await listDevices();
+      setCameras(found.cameras);
+      setMicrophones(found.microphones);
+      setLabelled(
+        found.labelled || !(found.cameras.length + found.microphones.length)
+      );
+    } catch (e) {
+      console.error("[MediaCheck] Failed to list devices:", e);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+    navigator.mediaDevices.addEventListener("devicechange", refresh);
+    return () =>
+      navigator.mediaDevices.removeEventListener("devicechange", refresh);
+  }, []);
+
+  const allowAccess = async () => {
+    setAccessError(await requestAccess());
+    refresh();
+  };
+
+  const cameraResult = (device: MediaDeviceInfo) =>
+    cameraResults[device.deviceId] || newCameraResult(device);
+  const micResult = (device: MediaDeviceInfo) =>
+    micResults[device.deviceId] || newMicrophoneResult(device);
+
+  const updateCamera = (
+    device: MediaDeviceInfo,
+    patch: Partial<CameraResult>
+  ) =>
+    setCameraResults((prev) => ({
+      ...prev,
+      [device.deviceId]: {
+        ...(prev[device.deviceId] || newCameraResult(device)),
+        ...patch,
+      },
+    }));
+  const updateMic = (
+    device: MediaDeviceInfo,
+    patch: Partial<MicrophoneResult>
+  ) =>
+    setMicResults((prev) => ({
+      ...prev,
+      [device.deviceId]: {
+        ...(prev[device.deviceId] || newMicrophoneResult(device)),
+        ...patch,
+      },
+    }));
+
+  const touched =
+    Object.keys(cameraResults).length + Object.keys(micResults).length > 0;
+
+  // Every listed device is in the report, tested or not, so an untested
+  // camera keeps the grade from reaching A
+  const report = useMemo(
+    () =>
+      touched
+        ? buildMediaReport(
+            reportBase,
+            { name: name.trim() },
+            cameras.map(cameraResult),
+            microphones.map(micResult)
+          )
+        : null,
+    [
+      touched,
+      reportBase,
+      name,
+      cameras,
+      microphones,
+      cameraResults,
+      micResults,
+    ]
+  );
+
+  useReportAutosave(MEDIA_HISTORY_KEY, report);
+
+  const startNewReport = () => {
+    setActiveCamera(null);
+    setActiveMic(null);
+    setCameraResults({});
+    setMicResults({});
+    setName("");
+    setReportBase(newReportBase());
+  };
+
+  return (
+    <div className="h-full w-full bg-background overflow-y-auto">
+      <div className="p-2 space-y-2">
+        <Card className="border-stone-200">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm">Camera & Mic Check</CardTitle>
+          </CardHeader>
+          <CardContent className="pt-0 space-y-3">
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Model or SKU"
+              className="h-7 text-xs"
+            />
+
+            {(!labelled || accessError) && (
+              <div
+                className={`p-2 rounded border space-y-2 ${
+                  accessError
+                    ? "border-red-300 bg-red-50 dark:bg-red-950/20"
+                    : "border-stone-200 bg-muted"
+                }`}
+              >
+                <p className="text-xs text-muted-foreground">
+                  {accessError === "NotAllowedError"
+                    ? "Camera or microphone access was blocked. If no prompt appeared, open this check in a tab and allow access there."
+                    : accessError
+                    ? `Couldn't open the devices (${accessError}).`
+                    : "Allow camera and microphone access to see device names and start testing."}
+                </p>
+                <div className="flex items-center gap-2">
+                  <Button
+                    size="sm"
+                    className="h-7 text-xs"
+                    onClick={allowAccess}
+                  >
+                    Allow Access
+                  </Button>
+                  {accessError === "NotAllowedError" && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-7 text-xs"
+                      onClick={() =>
+                        chrome.tabs.create({
+                          url: chrome.runtime.getURL("/sidepanel.html"),
+                        })
+                      }
+                    >
+                      Open in Tab
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <div className="text-xs font-medium">
+                Cameras ({cameras.length})
+              </div>
+              {cameras.length ? (
+                cameras.map((device) => (
+                  <CameraPreview
+                    key={`${reportBase.id}-${device.deviceId}`}
+                    device={device}
+                    result={cameraResult(device)}
+                    active={activeCamera === device.deviceId}
+                    onActivate={() => setActiveCamera(device.deviceId)}
+                    onResult={(patch) => updateCamera(device, patch)}
+                  />
+                ))
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  No cameras found. Plug one in and it will appear here.
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <div className="text-xs font-medium">
+                Microphones ({microphones.length})
+              </div>
+              {microphones.length ? (
+                microphones.map((device) => (
+                  <MicrophoneTest
+                    key={`${reportBase.id}-${device.deviceId}`}
+                    device={device}
+                    result={micResult(device)}
+                    active={activeMic === device.deviceId}
+                    onActivate={() => setActiveMic(device.deviceId)}
+                    onResult={(patch) => updateMic(device, patch)}
+                  />
+                ))
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  No microphones found.
+                </p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <ReportPanel
+          report={report}
+          historyKey={MEDIA_HISTORY_KEY}
+          kind="media"
+          gradeDescriptions={MEDIA_GRADE_DESCRIPTIONS}
+          toHtml={mediaReportToHtml}
+          describe={describeMediaDevice}
+          emptyText="Preview a camera or test a microphone to start a report."
+          onNewReport={startNewReport}
+        />
+      </div>
+    </div>
+  );
+}
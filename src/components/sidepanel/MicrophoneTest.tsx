@@ -0,0 +1,220 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "../ui/button";
+import {
+  MediaDeviceStatus,
+  MicrophoneResult,
+  QUIET_LEVEL,
+  peakLevel,
+} from "@/src/utils/media-check";
+
+interface MicrophoneTestProps {
+  device: MediaDeviceInfo;
+  result: MicrophoneResult;
+  // Only one microphone is open at a time; others show a Test button
+  active: boolean;
+  onActivate: () => void;
+  onResult: (patch: Partial<MicrophoneResult>) => void;
+}
+
+const RECORD_MS = 3000;
+// The stored peak only follows the meter in steps this big, so the report
+// isn't rebuilt every frame
+const PEAK_STEP = 0.02;
+
+export default function MicrophoneTest({
+  device,
+  result,
+  active,
+  onActivate,
+  onResult,
+}: MicrophoneTestProps) {
+  const streamRef = useRef<MediaStream | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const peakRef = useRef(result.peakLevel);
+  const [level, setLevel] = useState(0);
+  const [recording, setRecording] = useState(false);
+  const [playbackUrl, setPlaybackUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!active) return;
+    let cancelled = false;
+    let context: AudioContext | null = null;
+    let frame: number | null = null;
+
+    const start = async () => {
+      let stream: MediaStream;
+      try {
+        // Raw input, so a weak mic isn't hidden by automatic gain
+        stream = await navigator.mediaDevices.getUserMedia({
+          audio: {
+            deviceId: { exact: device.deviceId },
+            echoCancellation: false,
+            noiseSuppression: false,
+            autoGainControl: false,
+          },
+        });
+      } catch (e) {
+        onResult({ status: "fail", error: (e as Error).name || "Error" });
+        return;
+      }
+      if (cancelled) {
+        stream.getTracks().forEach((t) => t.stop());
+        return;
+      }
+      streamRef.current = stream;
+      onResult({ error: undefined });
+
+      context = new AudioContext();
+      const analyser = context.createAnalyser();
+      analyser.fftSize = 2048;
+      context.createMediaStreamSource(stream).connect(analyser);
+      const samples = new Float32Array(analyser.fftSize);
+
+      const tick = () => {
+        analyser.getFloatTimeDomainData(samples);
+        const peak = peakLevel(samples);
+        setLevel(peak);
+        if (peak >= peakRef.current + PEAK_STEP) {
+          peakRef.current = peak;
+          onResult({ peakLevel: peak });
+        }
+        frame = requestAnimationFrame(tick);
+      };
+      frame = requestAnimationFrame(tick);
+    };
+    start();
+
+    return () => {
+      cancelled = true;
+      if (frame != null) cancelAnimationFrame(frame);
+      recorderRef.current?.stop();
+      streamRef.current?.getTracks().forEach((t) => t.stop());
+      streamRef.current = null;
+      context?.close().catch(() => {});
+      setLevel(0);
+    };
+  }, [active, device.deviceId]);
+
+  useEffect(() => {
+    if (!playbackUrl) return;
+    return () => URL.revokeObjectURL(playbackUrl);
+  }, [playbackUrl]);
+
+  const record = () => {
+    const stream = streamRef.current;
+    if (!stream || recording) return;
+    const recorder = new MediaRecorder(stream);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => chunks.push(e.data);
+    recorder.onstop = () => {
+      recorderRef.current = null;
+      setRecording(false);
+      setPlaybackUrl(
+        URL.createObjectURL(new Blob(chunks, { type: recorder.mimeType }))
+      );
+    };
+    recorderRef.current = recorder;
+    recorder.start();
+    setRecording(true);
+    setTimeout(() => {
+      if (recorder.state === "recording") recorder.stop();
+    }, RECORD_MS);
+  };
+
+  const setStatus = (status: MediaDeviceStatus) => onResult({ status });
+  const quiet = result.status === "pass" && result.peakLevel < QUIET_LEVEL;
+
+  return (
+    <div
+      className={`p-2 rounded border space-y-2 ${
+        result.status === "fail"
+          ? "border-red-300 bg-red-50 dark:bg-red-950/20"
+          : "border-stone-200 bg-muted"
+      }`}
+    >
+      <div className="flex items-center gap-2">
+        <span className="text-xs font-medium truncate flex-1">
+          {result.label}
+        </span>
+        {!active && (
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-7 text-xs"
+            onClick={onActivate}
+          >
+            Test
+          </Button>
+        )}
+      </div>
+
+      {result.error ? (
+        <p className="text-xs text-red-600">
+          Couldn't open microphone ({result.error})
+        </p>
+      ) : (
+        active && (
+          <>
+            <div className="h-2 rounded bg-stone-200 overflow-hidden">
+              <div
+                className={`h-full ${
+                  level > 0.98 ? "bg-red-500" : "bg-green-500"
+                }`}
+                style={{ width: `${Math.round(level * 100)}%` }}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Button
+                size="sm"
+                className="h-7 text-xs"
+                disabled={recording}
+                onClick={record}
+              >
+                {recording ? "Recording…" : `Record ${RECORD_MS / 1000}s`}
+              </Button>
+              {playbackUrl && (
+                <audio
+                  src={playbackUrl}
+                  autoPlay
+                  controls
+                  className="h-7 flex-1 min-w-0"
+                />
+              )}
+            </div>
+          </>
+        )
+      )}
+
+      <div className="flex justify-between text-xs">
+        <span className="text-muted-foreground">Peak level</span>
+        <span className={`font-mono ${quiet ? "text-red-600" : ""}`}>
+          {Math.round(result.peakLevel * 100)}%{quiet ? " (very quiet)" : ""}
+        </span>
+      </div>
+
+      {(active || result.status !== "untested") && (
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground flex-1">
+            Playback clear, no crackle?
+          </span>
+          <Button
+            size="sm"
+            variant={result.status === "pass" ? "default" : "outline"}
+            className="h-7 text-xs"
+            onClick={() => setStatus("pass")}
+          >
+            Works
+          </Button>
+          <Button
+            size="sm"
+            variant={result.status === "fail" ? "destructive" : "outline"}
+            className="h-7 text-xs"
+            onClick={() => setStatus("fail")}
+          >
+            Broken
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
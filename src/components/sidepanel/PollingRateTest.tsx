@@ -0,0 +1,253 @@
+import { useEffect, useRef, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import { Progress } from "../ui/progress";
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import {
+  POLLING_THRESHOLDS,
+  PollingRateResult,
+  analyzePollingIntervals,
+} from "@/src/utils/polling-rate";
+
+interface PollingRateTestProps {
+  gamepadIndex: number | null;
+  onResult?: (result: PollingRateResult) => void;
+}
+
+const SAMPLE_MS = 5000;
+// How often the progress bar re-renders while sampling
+const PROGRESS_INTERVAL = 100;
+
+const COLOR_NORMAL = "rgba(34,197,94,0.85)";
+const COLOR_LATE = "rgba(239,68,68,0.9)";
+
+export default function PollingRateTest({
+  gamepadIndex,
+  onResult,
+}: PollingRateTestProps) {
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [result, setResult] = useState<PollingRateResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const stopRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => () => stopRef.current?.(), []);
+
+  const stop = () => {
+    stopRef.current?.();
+    stopRef.current = null;
+    setRunning(false);
+  };
+
+  const start = () => {
+    if (gamepadIndex == null) return;
+    stop();
+    setResult(null);
+    setError(null);
+    setProgress(0);
+    setRunning(true);
+
+    const intervals: number[] = [];
+    const ages: number[] = [];
+    const startedAt = performance.now();
+    let lastTimestamp: number | null = null;
+    let lastProgress = 0;
+
+    // requestAnimationFrame only runs at the display refresh rate, which
+    // would hide anything faster than 60Hz. A MessageChannel ping-pong
+    // polls as fast as the event loop allows.
+    const channel = new MessageChannel();
+    stopRef.current = () => channel.port1.close();
+
+    const poll = () => {
+      const now = performance.now();
+      const gp = navigator.getGamepads?.()[gamepadIndex];
+      if (!gp) {
+        stop();
+        setError("Controller disconnected during the test");
+        return;
+      }
+
+      if (gp.timestamp !== lastTimestamp) {
+        if (lastTimestamp != null) {
+          intervals.push(gp.timestamp - lastTimestamp);
+          ages.push(now - gp.timestamp);
+        }
+        lastTimestamp = gp.timestamp;
+      }
+
+      const elapsed = now - startedAt;
+      if (elapsed < SAMPLE_MS) {
+        if (now - lastProgress >= PROGRESS_INTERVAL) {
+          lastProgress = now;
+          setProgress((elapsed / SAMPLE_MS) * 100);
+        }
+        channel.port2.postMessage(null);
+        return;
+      }
+
+      stop();
+      const next = analyzePollingIntervals(intervals, ages, SAMPLE_MS);
+      setResult(next);
+      if (!next.samples) {
+        setError("No reports received. Keep a stick moving while measuring.");
+        return;
+      }
+      onResult?.(next);
+    };
+
+    channel.port1.onmessage = poll;
+    channel.port2.postMessage(null);
+  };
+
+  const lateFromMs = result
+    ? result.medianIntervalMs * POLLING_THRESHOLDS.dropGapFactor
+    : 0;
+  const maxCount = result
+    ? Math.max(1, ...result.histogram.map((bucket) => bucket.count))
+    : 1;
+
+  // Histogram axis: start, middle (about the median) and the overflow bucket
+  const axisLabels = result
+    ? [
+        "0 ms",
+        `${result.histogram[result.histogram.length / 2].fromMs.toFixed(1)} ms`,
+        `${result.histogram[result.histogram.length - 1].fromMs.toFixed(1)}+ ms`,
+      ]
+    : [];
+
+  const stats: { name: string; value: string; failed?: boolean }[] = result
+    ? [
+        { name: "Report rate", value: `${result.reportRateHz.toFixed(0)} Hz` },
+        {
+          name: "Interval (median)",
+          value: `${result.medianIntervalMs.toFixed(2)} ms`,
+        },
+        {
+          name: "Jitter",
+          value: `${result.jitterMs.toFixed(2)} ms`,
+          failed:
+            result.jitterMs >
+            result.medianIntervalMs * POLLING_THRESHOLDS.maxJitterRatio,
+        },
+        {
+          name: "Dropped reports",
+          value: String(result.droppedFrames),
+          failed:
+            result.droppedFrames >
+            (result.samples + result.droppedFrames) *
+              POLLING_THRESHOLDS.maxDropRate,
+        },
+        { name: "Longest gap", value: `${result.maxGapMs.toFixed(1)} ms` },
+        { name: "Report age", value: `${result.meanAgeMs.toFixed(2)} ms` },
+      ]
+    : [];
+
+  return (
+    <Card className="border-stone-200">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm">Polling Rate & Latency</CardTitle>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-3">
+        <p className="text-xs text-muted-foreground">
+          {running
+            ? "Measuring, keep rotating a stick..."
+            : "Press Start and keep rotating a stick for 5 seconds. Many controllers only send reports when something changes."}
+        </p>
+
+        {running && <Progress value={progress} className="h-2" />}
+
+        <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            className="h-7 text-xs"
+            disabled={gamepadIndex == null || running}
+            onClick={start}
+          >
+            {result ? "Run Again" : "Start"}
+          </Button>
+          {running && (
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-7 text-xs"
+              onClick={stop}
+            >
+              Cancel
+            </Button>
+          )}
+          {result && result.samples > 0 && (
+            <Badge
+              variant={result.stable ? "default" : "destructive"}
+              className="ml-auto"
+            >
+              {result.stable ? "STABLE" : "UNSTABLE"}
+            </Badge>
+          )}
+        </div>
+
+        {error && <p className="text-xs text-red-600">{error}</p>}
+
+        {result && result.samples > 0 && (
+          <>
+            <div
+              className={`p-2 rounded border space-y-1 ${
+                result.stable
+                  ? "border-stone-200 bg-muted"
+                  : "border-red-300 bg-red-50 dark:bg-red-950/20"
+              }`}
+            >
+              {stats.map((stat) => (
+                <div key={stat.name} className="flex justify-between text-xs">
+                  <span className="text-muted-foreground">{stat.name}</span>
+                  <span
+                    className={`font-mono ${stat.failed ? "text-red-600" : ""}`}
+                  >
+                    {stat.value}
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-1">
+              <svg
+                viewBox={`0 0 ${result.histogram.length * 10} 60`}
+                preserveAspectRatio="none"
+                className="w-full h-16 rounded border border-stone-200 bg-muted"
+              >
+                {result.histogram.map((bucket, i) => {
+                  const height = (bucket.count / maxCount) * 56;
+                  return (
+                    <rect
+                      key={i}
+                      x={i * 10 + 1}
+                      y={60 - height}
+                      width="8"
+                      height={height}
+                      fill={
+                        bucket.fromMs >= lateFromMs ? COLOR_LATE : COLOR_NORMAL
+                      }
+                    >
+                      <title>
+                        {`${bucket.fromMs.toFixed(2)}${
+                          Number.isFinite(bucket.toMs)
+                            ? `–${bucket.toMs.toFixed(2)}`
+                            : "+"
+                        } ms: ${bucket.count}`}
+                      </title>
+                    </rect>
+                  );
+                })}
+              </svg>
+              <div className="flex justify-between text-[10px] font-mono text-muted-foreground">
+                {axisLabels.map((label) => (
+                  <span key={label}>{label}</span>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,146 @@
+import {
+  ControllerProfile,
+  FACE_GLYPHS,
+  StickLayout,
+} from "@/src/utils/controller-profiles";
+
+interface ProfileLayoutProps {
+  profile: ControllerProfile;
+  buttons: { pressed: boolean; value: number }[];
+}
+
+const COLOR_PRESSED = "rgba(239,68,68,0.9)";
+const COLOR_IDLE = "rgba(34,197,94,0.65)";
+
+// Centers of the BBottom, BRight, BLeft and BTop paths in the base diagram
+const FACE_POSITIONS = [
+  [329, 180],
+  [348, 160],
+  [310, 160],
+  [329, 142],
+];
+
+const HOME_POSITION = [222, 198];
+
+// The base diagram is an offset pad: left stick at (113, 160), D-pad at
+// (166, 238). A symmetric pad swaps the two.
+const SWAP_X = 166 - 113;
+const SWAP_Y = 238 - 160;
+const EXTRA_BUTTON_POSITION = [222, 234];
+
+/**
+ * SVG transforms that move the left stick and D-pad groups of the base
+ * diagram into place for a profile's stick layout
+ */
+export function stickLayoutTransforms(layout: StickLayout): {
+  leftStick?: string;
+  dpad?: string;
+} {
+  if (layout === "offset") return {};
+  return {
+    leftStick: `translate(${SWAP_X} ${SWAP_Y})`,
+    dpad: `translate(${-SWAP_X} ${-SWAP_Y})`,
+  };
+}
+
+/**
+ * Model-specific additions drawn over the controller diagram: face button
+ * glyphs, the home button and extras like the touchpad. Stick placement is
+ * applied to the diagram itself with stickLayoutTransforms.
+ * Rendered inside the parent <svg>.
+ */
+export default function ProfileLayout({
+  profile,
+  buttons,
+}: ProfileLayoutProps) {
+  if (profile.id === "generic") return null;
+
+  const pressed = (index: number) => !!buttons[index]?.pressed;
+  const glyphs = FACE_GLYPHS[profile.face];
+
+  return (
+    <g id="ProfileLayout" pointerEvents="none">
+      {glyphs.map((glyph, i) => (
+        <text
+          key={i}
+          x={FACE_POSITIONS[i][0]}
+          y={FACE_POSITIONS[i][1]}
+          textAnchor="middle"
+          dominantBaseline="central"
+          fontSize="11"
+          fontWeight="700"
+          fill="rgba(0,0,0,0.75)"
+        >
+          {glyph}
+        </text>
+      ))}
+
+      <circle
+        cx={HOME_POSITION[0]}
+        cy={HOME_POSITION[1]}
+        r="9"
+        fill={pressed(16) ? COLOR_PRESSED : COLOR_IDLE}
+        stroke="black"
+        strokeWidth="3"
+      />
+      <text
+        x={HOME_POSITION[0]}
+        y={HOME_POSITION[1] + 18}
+        textAnchor="middle"
+        fontSize="8"
+        fill="rgba(0,0,0,0.6)"
+      >
+        {profile.buttonLabels[16]}
+      </text>
+
+      {profile.extraInputs.map((input) =>
+        input.shape === "touchpad" ? (
+          <g key={input.button}>
+            <rect
+              x="190"
+              y="104"
+              width="62"
+              height="36"
+              rx="6"
+              fill={
+                pressed(input.button) ? COLOR_PRESSED : "rgba(64,64,64,0.2)"
+              }
+              stroke="black"
+              strokeWidth="3"
+            />
+            <text
+              x="221"
+              y="122"
+              textAnchor="middle"
+              dominantBaseline="central"
+              fontSize="8"
+              fill="rgba(0,0,0,0.6)"
+            >
+              {input.label}
+            </text>
+          </g>
+        ) : (
+          <g key={input.button}>
+            <circle
+              cx={EXTRA_BUTTON_POSITION[0]}
+              cy={EXTRA_BUTTON_POSITION[1]}
+              r="6"
+              fill={pressed(input.button) ? COLOR_PRESSED : COLOR_IDLE}
+              stroke="black"
+              strokeWidth="3"
+            />
+            <text
+              x={EXTRA_BUTTON_POSITION[0]}
+              y={EXTRA_BUTTON_POSITION[1] + 15}
+              textAnchor="middle"
+              fontSize="8"
+              fill="rgba(0,0,0,0.6)"
+            >
+              {input.label}
+            </text>
+          </g>
+        )
+      )}
+    </g>
+  );
+}
@@ -0,0 +1,212 @@
+import { useEffect, useState } from "react";
+import { FileJson, FileText, Printer, Trash2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import {
+  DeviceReport,
+  ReportGrade,
+  deleteReport,
+  getReports,
+  onReportsChanged,
+  reportFileName,
+  reportToJson,
+} from "@/src/utils/device-report";
+
+interface ReportPanelProps<T extends DeviceReport> {
+  report: T | null;
+  // Storage key of the report history
+  historyKey: string;
+  // File name prefix, e.g. "controller"
+  kind: string;
+  gradeDescriptions: Record<ReportGrade, string>;
+  toHtml: (report: T) => string;
+  // Device name shown in the history list
+  describe: (report: T) => string;
+  // Shown before the first result, e.g. "Run any test above..."
+  emptyText: string;
+  onNewReport: () => void;
+}
+
+function downloadFile(name: string, contents: string, type: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// Print through a hidden frame so the sidepanel itself isn't printed
+function printHtml(html: string) {
+  const frame = document.createElement("iframe");
+  frame.style.display = "none";
+  frame.srcdoc = html;
+  frame.onload = () => {
+    frame.contentWindow?.print();
+    setTimeout(() => frame.remove(), 1000);
+  };
+  document.body.appendChild(frame);
+}
+
+const gradeVariant = (grade: ReportGrade) =>
+  grade === "A" || grade === "B"
+    ? "default"
+    : grade === "Incomplete"
+    ? "secondary"
+    : "destructive";
+
+function ReportActions<T extends DeviceReport>({
+  report,
+  kind,
+  toHtml,
+}: {
+  report: T;
+  kind: string;
+  toHtml: (report: T) => string;
+}) {
+  return (
+    <div className="flex items-center gap-1">
+      <button
+        title="Export JSON"
+        onClick={() =>
+          downloadFile(
+            reportFileName(kind, report, "json"),
+            reportToJson(report),
+            "application/json"
+          )
+        }
+        className="p-1 text-muted-foreground hover:text-foreground"
+      >
+        <FileJson className="w-4 h-4" />
+      </button>
+      <button
+        title="Export HTML"
+        onClick={() =>
+          downloadFile(
+            reportFileName(kind, report, "html"),
+            toHtml(report),
+            "text/html"
+          )
+        }
+        className="p-1 text-muted-foreground hover:text-foreground"
+      >
+        <FileText className="w-4 h-4" />
+      </button>
+      <button
+        title="Print"
+        onClick={() => printHtml(toHtml(report))}
+        className="p-1 text-muted-foreground hover:text-foreground"
+      >
+        <Printer className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
+
+/**
+ * Grade, export and history for one kind of intake test report
+ */
+export default function ReportPanel<T extends DeviceReport>({
+  report,
+  historyKey,
+  kind,
+  gradeDescriptions,
+  toHtml,
+  describe,
+  emptyText,
+  onNewReport,
+}: ReportPanelProps<T>) {
+  const [history, setHistory] = useState<T[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+
+  useEffect(() => {
+    getReports<T>(historyKey).then(setHistory);
+    return onReportsChanged<T>(historyKey, setHistory);
+  }, [historyKey]);
+
+  const past = history.filter((r) => r.id !== report?.id);
+
+  return (
+    <Card className="border-stone-200">
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-sm">Test Report</CardTitle>
+          {report && (
+            <Badge variant={gradeVariant(report.grade)}>
+              Grade {report.grade}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-3">
+        {report ? (
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">
+              {gradeDescriptions[report.grade]}. Results are saved to the test
+              history as you go.
+            </p>
+            <div className="flex items-center gap-2">
+              <ReportActions report={report} kind={kind} toHtml={toHtml} />
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-7 text-xs ml-auto"
+                onClick={onNewReport}
+              >
+                New Report
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">{emptyText}</p>
+        )}
+
+        {past.length > 0 && (
+          <div className="space-y-1">
+            <button
+              onClick={() => setShowHistory(!showHistory)}
+              className="text-xs text-muted-foreground hover:text-foreground"
+            >
+              {showHistory ? "Hide" : "Show"} history ({past.length})
+            </button>
+            {showHistory && (
+              <div className="divide-y divide-border rounded border border-stone-200">
+                {past.map((entry) => (
+                  <div key={entry.id} className="flex items-center gap-2 p-1">
+                    <Badge
+                      variant={gradeVariant(entry.grade)}
+                      className="w-8 justify-center px-0"
+                    >
+                      {entry.grade === "Incomplete" ? "–" : entry.grade}
+                    </Badge>
+                    <div className="flex-1 min-w-0">
+                      <div className="text-xs font-medium truncate">
+                        {describe(entry)}
+                      </div>
+                      <div className="text-[10px] text-muted-foreground">
+                        {new Date(entry.updatedAt).toLocaleString()}
+                      </div>
+                    </div>
+                    <ReportActions
+                      report={entry}
+                      kind={kind}
+                      toHtml={toHtml}
+                    />
+                    <button
+                      title="Delete"
+                      onClick={() => deleteReport(historyKey, entry.id)}
+                      className="p-1 text-muted-foreground hover:text-red-600"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
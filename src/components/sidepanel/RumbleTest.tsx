@@ -0,0 +1,256 @@
+import { ReactNode, useEffect, useRef, useState } from "react";
+import { Check, Minus, RotateCcw, X } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import {
+  RUMBLE_EFFECTS,
+  RumbleEffectResult,
+  RumbleStatus,
+  RumbleTestResult,
+  getSupportedEffects,
+  getVibrationEnabled,
+  playRumbleEffect,
+  setVibrationEnabled,
+  stopRumble,
+  summarizeRumble,
+} from "@/src/utils/rumble-test";
+
+interface RumbleTestProps {
+  gamepadIndex: number | null;
+  onResult?: (result: RumbleTestResult) => void;
+}
+
+const STATUS_ICONS: Record<RumbleStatus, ReactNode> = {
+  pending: null,
+  works: <Check className="w-3 h-3 text-green-600" />,
+  failed: <X className="w-3 h-3 text-red-600" />,
+  unsupported: <Minus className="w-3 h-3 text-muted-foreground" />,
+};
+
+// Controller buttons that answer the prompt (standard mapping A and B)
+const CONFIRM_BUTTON = 0;
+const REJECT_BUTTON = 1;
+
+const createItems = (): RumbleEffectResult[] =>
+  RUMBLE_EFFECTS.map(({ id, label }) => ({ id, label, status: "pending" }));
+
+export default function RumbleTest({
+  gamepadIndex,
+  onResult,
+}: RumbleTestProps) {
+  const [enabled, setEnabled] = useState(true);
+  const [items, setItems] = useState<RumbleEffectResult[]>(createItems);
+  // Effect waiting for confirmation, or null when idle
+  const [current, setCurrent] = useState<number | null>(null);
+  const [result, setResult] = useState<RumbleTestResult | null>(null);
+  const frameRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    getVibrationEnabled().then(setEnabled);
+  }, []);
+
+  const getGamepad = () =>
+    gamepadIndex == null ? null : navigator.getGamepads?.()[gamepadIndex];
+
+  const finish = (final: RumbleEffectResult[]) => {
+    stopRumble(getGamepad());
+    setCurrent(null);
+    const summary = summarizeRumble(final);
+    setResult(summary);
+    onResult?.(summary);
+  };
+
+  // Record an effect's outcome and move to the next untested one
+  const resolveEffect = (
+    list: RumbleEffectResult[],
+    index: number,
+    status: RumbleStatus
+  ) => {
+    const next = list.map((item, i) =>
+      i === index ? { ...item, status } : item
+    );
+    setItems(next);
+    const following = next.findIndex(
+      (item, i) => i > index && item.status === "pending"
+    );
+    if (following === -1) finish(next);
+    else setCurrent(following);
+  };
+
+  const play = async (index: number, list: RumbleEffectResult[]) => {
+    const gp = getGamepad();
+    if (!gp) return;
+    const played = await playRumbleEffect(gp, RUMBLE_EFFECTS[index]);
+    if (!played) resolveEffect(list, index, "unsupported");
+  };
+
+  useEffect(() => {
+    if (current == null) return;
+    play(current, items);
+
+    // Let the tester answer from the controller while holding it
+    let previous: boolean[] | null = null;
+    const tick = () => {
+      const gp = getGamepad();
+      if (gp) {
+        const pressed = gp.buttons.map((b) => b.pressed);
+        if (previous) {
+          if (pressed[CONFIRM_BUTTON] && !previous[CONFIRM_BUTTON]) {
+            resolveEffect(items, current, "works");
+            return;
+          }
+          if (pressed[REJECT_BUTTON] && !previous[REJECT_BUTTON]) {
+            resolveEffect(items, current, "failed");
+            return;
+          }
+        }
+        previous = pressed;
+      }
+      frameRef.current = requestAnimationFrame(tick);
+    };
+    frameRef.current = requestAnimationFrame(tick);
+
+    return () => {
+      if (frameRef.current != null) {
+        cancelAnimationFrame(frameRef.current);
+        frameRef.current = null;
+      }
+    };
+  }, [current]);
+
+  const start = () => {
+    const gp = getGamepad();
+    if (!gp) return;
+    setResult(null);
+
+    const supported = getSupportedEffects(gp);
+    const fresh = createItems().map((item, i) =>
+      supported && !supported.includes(RUMBLE_EFFECTS[i].type)
+        ? { ...item, status: "unsupported" as const }
+        : item
+    );
+    setItems(fresh);
+
+    const first = fresh.findIndex((item) => item.status === "pending");
+    if (first === -1) finish(fresh);
+    else setCurrent(first);
+  };
+
+  const running = current != null;
+
+  return (
+    <Card className="border-stone-200">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm">Rumble Test</CardTitle>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-3">
+        {!enabled ? (
+          <div className="flex items-center gap-2">
+            <p className="text-xs text-muted-foreground">
+              Vibration is turned off for this extension.
+            </p>
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-7 text-xs ml-auto"
+              onClick={() => {
+                setVibrationEnabled(true);
+                setEnabled(true);
+              }}
+            >
+              Turn On
+            </Button>
+          </div>
+        ) : running ? (
+          <div className="p-3 rounded border border-stone-200 bg-muted text-center space-y-1">
+            <div className="text-base font-semibold">
+              {RUMBLE_EFFECTS[current].label}
+            </div>
+            <div className="text-xs text-muted-foreground">
+              Did you feel it? Press A for yes, B for no.
+            </div>
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            Plays each rumble motor in turn, including trigger motors on
+            controllers that have them.
+          </p>
+        )}
+
+        {enabled && (
+          <div className="flex items-center gap-2">
+            {running ? (
+              <>
+                <Button
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => resolveEffect(items, current, "works")}
+                >
+                  Felt It
+                </Button>
+                <Button
+                  size="sm"
+                  variant="destructive"
+                  className="h-7 text-xs"
+                  onClick={() => resolveEffect(items, current, "failed")}
+                >
+                  Nothing
+                </Button>
+                <button
+                  title="Play again"
+                  onClick={() => play(current, items)}
+                  className="p-1 text-muted-foreground hover:text-foreground ml-auto"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+              </>
+            ) : (
+              <>
+                <Button
+                  size="sm"
+                  className="h-7 text-xs"
+                  disabled={gamepadIndex == null}
+                  onClick={start}
+                >
+                  {result ? "Run Again" : "Start"}
+                </Button>
+                {result && (
+                  <Badge
+                    variant={result.pass ? "default" : "destructive"}
+                    className="ml-auto"
+                  >
+                    {result.pass ? "PASS" : "FAIL"}
+                  </Badge>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        {(running || result) && (
+          <div className="space-y-1">
+            {items.map((item, index) => (
+              <div
+                key={item.id}
+                className={`flex justify-between items-center p-1 rounded border text-xs ${
+                  index === current
+                    ? "border-green-500"
+                    : item.status === "failed"
+                    ? "border-red-300 bg-red-50 dark:bg-red-950/20"
+                    : "border-stone-200 bg-muted"
+                }`}
+              >
+                <span className="font-medium">{item.label}</span>
+                <span className="flex items-center gap-1 text-muted-foreground">
+                  {item.status === "unsupported" && "Not supported"}
+                  {STATUS_ICONS[item.status]}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
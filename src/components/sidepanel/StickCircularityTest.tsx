@@ -0,0 +1,316 @@
+import { useEffect, useRef, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import {
+  CircularityTestResult,
+  DEFAULT_MIN_OCTANT_REACH,
+  MIN_TRACE_COVERAGE,
+  OCTANT_LABELS,
+  StickCircularityResult,
+  addTraceSample,
+  analyzeCircularity,
+  createStickTrace,
+} from "@/src/utils/stick-circularity";
+
+interface StickCircularityTestProps {
+  gamepadIndex: number | null;
+  onResult?: (result: CircularityTestResult) => void;
+}
+
+const CANVAS_SIZE = 140;
+// Unit reach in canvas pixels; leaves room for square gates that overshoot
+const UNIT_RADIUS = CANVAS_SIZE * 0.36;
+
+const COLOR_TRACE = "rgba(34,197,94,0.85)";
+const COLOR_WEAK = "rgba(239,68,68,0.25)";
+const COLOR_GUIDE = "rgba(156,163,175,0.6)";
+
+/**
+ * Draw the polar plot: unit circle, octant spokes, the traced outline and
+ * weak octants shaded red
+ */
+function drawTrace(
+  canvas: HTMLCanvasElement,
+  trace: number[],
+  result: StickCircularityResult | null
+) {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+
+  const dpr = window.devicePixelRatio || 1;
+  if (canvas.width !== CANVAS_SIZE * dpr) {
+    canvas.width = CANVAS_SIZE * dpr;
+    canvas.height = CANVAS_SIZE * dpr;
+  }
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+  ctx.clearRect(0, 0, CANVAS_SIZE, CANVAS_SIZE);
+
+  const c = CANVAS_SIZE / 2;
+  const octantSpan = (Math.PI * 2) / OCTANT_LABELS.length;
+
+  // Canvas angles grow clockwise, so stick angles are negated throughout
+  result?.octants.forEach((octant, i) => {
+    if (!octant.weak) return;
+    ctx.beginPath();
+    ctx.moveTo(c, c);
+    ctx.arc(
+      c,
+      c,
+      UNIT_RADIUS * 1.2,
+      -(i * octantSpan + octantSpan / 2),
+      -(i * octantSpan - octantSpan / 2)
+    );
+    ctx.closePath();
+    ctx.fillStyle = COLOR_WEAK;
+    ctx.fill();
+  });
+
+  ctx.strokeStyle = COLOR_GUIDE;
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.arc(c, c, UNIT_RADIUS, 0, Math.PI * 2);
+  ctx.stroke();
+  ctx.setLineDash([2, 3]);
+  ctx.beginPath();
+  ctx.arc(c, c, UNIT_RADIUS * DEFAULT_MIN_OCTANT_REACH, 0, Math.PI * 2);
+  for (let i = 0; i < OCTANT_LABELS.length; i++) {
+    const a = -(i * octantSpan + octantSpan / 2);
+    ctx.moveTo(c, c);
+    ctx.lineTo(
+      c + Math.cos(a) * UNIT_RADIUS * 1.2,
+      c + Math.sin(a) * UNIT_RADIUS * 1.2
+    );
+  }
+  ctx.stroke();
+  ctx.setLineDash([]);
+
+  // Connect covered bins; gaps in coverage break the outline
+  const binSpan = (Math.PI * 2) / trace.length;
+  ctx.strokeStyle = COLOR_TRACE;
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  let drawing = false;
+  for (let i = 0; i <= trace.length; i++) {
+    const r = trace[i % trace.length];
+    if (!r) {
+      drawing = false;
+      continue;
+    }
+    const a = -((i + 0.5) * binSpan);
+    const x = c + Math.cos(a) * r * UNIT_RADIUS;
+    const y = c + Math.sin(a) * r * UNIT_RADIUS;
+    if (drawing) ctx.lineTo(x, y);
+    else ctx.moveTo(x, y);
+    drawing = true;
+  }
+  ctx.stroke();
+}
+
+export default function StickCircularityTest({
+  gamepadIndex,
+  onResult,
+}: StickCircularityTestProps) {
+  const [running, setRunning] = useState(false);
+  const [result, setResult] = useState<CircularityTestResult | null>(null);
+  const leftCanvasRef = useRef<HTMLCanvasElement>(null);
+  const rightCanvasRef = useRef<HTMLCanvasElement>(null);
+  const tracesRef = useRef({
+    left: createStickTrace(),
+    right: createStickTrace(),
+  });
+  const frameRef = useRef<number | null>(null);
+
+  const redraw = (finished: CircularityTestResult | null) => {
+    if (leftCanvasRef.current) {
+      drawTrace(
+        leftCanvasRef.current,
+        tracesRef.current.left,
+        finished?.left ?? null
+      );
+    }
+    if (rightCanvasRef.current) {
+      drawTrace(
+        rightCanvasRef.current,
+        tracesRef.current.right,
+        finished?.right ?? null
+      );
+    }
+  };
+
+  useEffect(() => {
+    redraw(null);
+    return () => {
+      if (frameRef.current != null) cancelAnimationFrame(frameRef.current);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!running || gamepadIndex == null) return;
+
+    const tick = () => {
+      const gp = navigator.getGamepads?.()[gamepadIndex];
+      if (gp) {
+        const { left, right } = tracesRef.current;
+        const changedLeft = addTraceSample(
+          left,
+          gp.axes[0] || 0,
+          gp.axes[1] || 0
+        );
+        const changedRight = addTraceSample(
+          right,
+          gp.axes[2] || 0,
+          gp.axes[3] || 0
+        );
+        if (changedLeft || changedRight) redraw(null);
+      }
+      frameRef.current = requestAnimationFrame(tick);
+    };
+    frameRef.current = requestAnimationFrame(tick);
+
+    return () => {
+      if (frameRef.current != null) {
+        cancelAnimationFrame(frameRef.current);
+        frameRef.current = null;
+      }
+    };
+  }, [running, gamepadIndex]);
+
+  const start = () => {
+    tracesRef.current = { left: createStickTrace(), right: createStickTrace() };
+    setResult(null);
+    redraw(null);
+    setRunning(true);
+  };
+
+  const finish = () => {
+    setRunning(false);
+    const left = analyzeCircularity(tracesRef.current.left);
+    const right = analyzeCircularity(tracesRef.current.right);
+    const next: CircularityTestResult = {
+      testedAt: Date.now(),
+      minReach: DEFAULT_MIN_OCTANT_REACH,
+      left,
+      right,
+      pass: left.pass && right.pass,
+    };
+    setResult(next);
+    redraw(next);
+    onResult?.(next);
+  };
+
+  return (
+    <Card className="border-stone-200">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm">Stick Circularity Test</CardTitle>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-3">
+        <p className="text-xs text-muted-foreground">
+          {running
+            ? "Rotate each stick slowly around the edge of its gate a few times, then press Done."
+            : "Checks that both sticks reach full range in every direction."}
+        </p>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="flex flex-col items-center gap-1">
+            <span className="text-xs text-muted-foreground">Left Stick</span>
+            <canvas
+              ref={leftCanvasRef}
+              style={{ width: CANVAS_SIZE, height: CANVAS_SIZE }}
+            />
+          </div>
+          <div className="flex flex-col items-center gap-1">
+            <span className="text-xs text-muted-foreground">Right Stick</span>
+            <canvas
+              ref={rightCanvasRef}
+              style={{ width: CANVAS_SIZE, height: CANVAS_SIZE }}
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          {running ? (
+            <Button size="sm" className="h-7 text-xs" onClick={finish}>
+              Done
+            </Button>
+          ) : (
+            <Button
+              size="sm"
+              className="h-7 text-xs"
+              disabled={gamepadIndex == null}
+              onClick={start}
+            >
+              {result ? "Run Again" : "Start"}
+            </Button>
+          )}
+          {result && (
+            <Badge
+              variant={result.pass ? "default" : "destructive"}
+              className="ml-auto"
+            >
+              {result.pass ? "PASS" : "WEAK RANGE"}
+            </Badge>
+          )}
+        </div>
+
+        {result && (
+          <div className="grid grid-cols-2 gap-2">
+            <CircularitySummary label="Left Stick" stick={result.left} />
+            <CircularitySummary label="Right Stick" stick={result.right} />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function CircularitySummary({
+  label,
+  stick,
+}: {
+  label: string;
+  stick: StickCircularityResult;
+}) {
+  const incomplete = stick.coverage < MIN_TRACE_COVERAGE;
+  return (
+    <div
+      className={`p-2 rounded border space-y-1 ${
+        stick.pass
+          ? "border-stone-200 bg-muted"
+          : "border-red-300 bg-red-50 dark:bg-red-950/20"
+      }`}
+    >
+      <div className="flex items-center justify-between text-xs font-medium">
+        <span>{label}</span>
+        <span className={stick.pass ? "text-green-600" : "text-red-600"}>
+          {stick.pass ? "PASS" : incomplete ? "INCOMPLETE" : "WEAK"}
+        </span>
+      </div>
+      <div className="flex justify-between text-xs">
+        <span className="text-muted-foreground">Avg. error</span>
+        <span className="font-mono">
+          {(stick.averageError * 100).toFixed(1)}%
+        </span>
+      </div>
+      <div className="flex justify-between text-xs">
+        <span className="text-muted-foreground">Coverage</span>
+        <span className={`font-mono ${incomplete ? "text-red-600" : ""}`}>
+          {Math.round(stick.coverage * 100)}%
+        </span>
+      </div>
+      <div className="grid grid-cols-4 gap-x-2 pt-1">
+        {stick.octants.map((octant) => (
+          <div
+            key={octant.label}
+            className={`flex justify-between text-[10px] font-mono ${
+              octant.weak ? "text-red-600" : "text-muted-foreground"
+            }`}
+          >
+            <span>{octant.label}</span>
+            <span>{octant.reach.toFixed(2)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,308 @@
+import { useEffect, useRef, useState } from "react";
+import { Settings2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import { Progress } from "../ui/progress";
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import {
+  DriftTestResult,
+  DriftThresholds,
+  DEFAULT_DRIFT_THRESHOLDS,
+  StickDriftResult,
+  StickSample,
+  analyzeStickDrift,
+  getDriftThresholds,
+  saveDriftThresholds,
+} from "@/src/utils/stick-drift";
+
+interface StickDriftTestProps {
+  gamepadIndex: number | null;
+  onResult?: (result: DriftTestResult) => void;
+}
+
+type Phase = "idle" | "settling" | "sampling" | "done";
+
+// Time given to let go of the sticks before sampling starts
+const SETTLE_MS = 1000;
+
+const THRESHOLD_FIELDS: {
+  key: keyof DriftThresholds;
+  label: string;
+  step: number;
+}[] = [
+  { key: "maxOffset", label: "Max offset", step: 0.01 },
+  { key: "maxJitter", label: "Max jitter", step: 0.005 },
+  { key: "maxDeviation", label: "Max deviation", step: 0.01 },
+];
+
+export default function StickDriftTest({
+  gamepadIndex,
+  onResult,
+}: StickDriftTestProps) {
+  const [thresholds, setThresholds] = useState<DriftThresholds>(
+    DEFAULT_DRIFT_THRESHOLDS
+  );
+  const [showThresholds, setShowThresholds] = useState(false);
+  const [phase, setPhase] = useState<Phase>("idle");
+  const [progress, setProgress] = useState(0);
+  const [result, setResult] = useState<DriftTestResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const frameRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    getDriftThresholds().then(setThresholds);
+    return () => {
+      if (frameRef.current != null) cancelAnimationFrame(frameRef.current);
+    };
+  }, []);
+
+  const stop = () => {
+    if (frameRef.current != null) {
+      cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+    }
+  };
+
+  const updateThreshold = (key: keyof DriftThresholds, value: string) => {
+    const n = Number(value);
+    if (!Number.isFinite(n) || n < 0) return;
+    const next = { ...thresholds, [key]: n };
+    setThresholds(next);
+    saveDriftThresholds(next);
+  };
+
+  const start = () => {
+    if (gamepadIndex == null) return;
+    stop();
+    setResult(null);
+    setError(null);
+    setProgress(0);
+    setPhase("settling");
+
+    const config = thresholds;
+    const left: StickSample[] = [];
+    const right: StickSample[] = [];
+    const startedAt = performance.now();
+
+    const tick = (now: number) => {
+      const gp = navigator.getGamepads?.()[gamepadIndex];
+      if (!gp) {
+        stop();
+        setPhase("idle");
+        setError("Controller disconnected during the test");
+        return;
+      }
+
+      const elapsed = now - startedAt;
+      if (elapsed < SETTLE_MS) {
+        frameRef.current = requestAnimationFrame(tick);
+        return;
+      }
+      setPhase("sampling");
+
+      left.push({ x: gp.axes[0] || 0, y: gp.axes[1] || 0 });
+      right.push({ x: gp.axes[2] || 0, y: gp.axes[3] || 0 });
+
+      const sampled = elapsed - SETTLE_MS;
+      setProgress(Math.min(100, (sampled / config.durationMs) * 100));
+      if (sampled < config.durationMs) {
+        frameRef.current = requestAnimationFrame(tick);
+        return;
+      }
+
+      stop();
+      const leftResult = analyzeStickDrift(left, config);
+      const rightResult = analyzeStickDrift(right, config);
+      const next: DriftTestResult = {
+        testedAt: Date.now(),
+        durationMs: config.durationMs,
+        thresholds: config,
+        left: leftResult,
+        right: rightResult,
+        pass: leftResult.pass && rightResult.pass,
+      };
+      setResult(next);
+      setPhase("done");
+      onResult?.(next);
+    };
+
+    frameRef.current = requestAnimationFrame(tick);
+  };
+
+  const running = phase === "settling" || phase === "sampling";
+
+  return (
+    <Card className="border-stone-200">
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-sm">Stick Drift Test</CardTitle>
+          <button
+            title="Thresholds"
+            onClick={() => setShowThresholds(!showThresholds)}
+            className="p-1 text-muted-foreground hover:text-foreground"
+          >
+            <Settings2 className="w-4 h-4" />
+          </button>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-3">
+        {showThresholds && (
+          <div className="grid grid-cols-2 gap-2 p-2 rounded border border-stone-200 bg-muted">
+            {THRESHOLD_FIELDS.map(({ key, label, step }) => (
+              <div key={key} className="space-y-1">
+                <Label htmlFor={`drift-${key}`} className="text-xs">
+                  {label}
+                </Label>
+                <Input
+                  id={`drift-${key}`}
+                  type="number"
+                  min={0}
+                  step={step}
+                  value={thresholds[key]}
+                  disabled={running}
+                  onChange={(e) => updateThreshold(key, e.target.value)}
+                  className="h-7 text-xs font-mono"
+                />
+              </div>
+            ))}
+            <div className="space-y-1">
+              <Label htmlFor="drift-duration" className="text-xs">
+                Duration (s)
+              </Label>
+              <Input
+                id="drift-duration"
+                type="number"
+                min={1}
+                step={1}
+                value={thresholds.durationMs / 1000}
+                disabled={running}
+                onChange={(e) => {
+                  const seconds = Number(e.target.value);
+                  if (seconds >= 1) {
+                    updateThreshold("durationMs", String(seconds * 1000));
+                  }
+                }}
+                className="h-7 text-xs font-mono"
+              />
+            </div>
+          </div>
+        )}
+
+        <p className="text-xs text-muted-foreground">
+          {phase === "settling"
+            ? "Let go of both sticks..."
+            : phase === "sampling"
+            ? "Measuring, keep hands off the controller"
+            : "Put the controller down, press Start and don't touch the sticks."}
+        </p>
+
+        {running && <Progress value={progress} className="h-2" />}
+
+        <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            className="h-7 text-xs"
+            disabled={gamepadIndex == null || running}
+            onClick={start}
+          >
+            {phase === "done" ? "Run Again" : "Start"}
+          </Button>
+          {running && (
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-7 text-xs"
+              onClick={() => {
+                stop();
+                setPhase("idle");
+              }}
+            >
+              Cancel
+            </Button>
+          )}
+          {result && (
+            <Badge
+              variant={result.pass ? "default" : "destructive"}
+              className="ml-auto"
+            >
+              {result.pass ? "PASS" : "DRIFT"}
+            </Badge>
+          )}
+        </div>
+
+        {error && <p className="text-xs text-red-600">{error}</p>}
+
+        {result && (
+          <div className="grid grid-cols-2 gap-2">
+            <StickDriftSummary label="Left Stick" stick={result.left} />
+            <StickDriftSummary label="Right Stick" stick={result.right} />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function StickDriftSummary({
+  label,
+  stick,
+}: {
+  label: string;
+  stick: StickDriftResult;
+}) {
+  const rows: {
+    name: string;
+    value: number;
+    failed: boolean;
+  }[] = [
+    {
+      name: "Offset",
+      value: stick.offset,
+      failed: stick.failures.includes("offset"),
+    },
+    {
+      name: "Jitter",
+      value: stick.jitter,
+      failed: stick.failures.includes("jitter"),
+    },
+    {
+      name: "Max dev.",
+      value: stick.maxDeviation,
+      failed: stick.failures.includes("deviation"),
+    },
+  ];
+
+  return (
+    <div
+      className={`p-2 rounded border space-y-1 ${
+        stick.pass
+          ? "border-stone-200 bg-muted"
+          : "border-red-300 bg-red-50 dark:bg-red-950/20"
+      }`}
+    >
+      <div className="flex items-center justify-between text-xs font-medium">
+        <span>{label}</span>
+        <span className={stick.pass ? "text-green-600" : "text-red-600"}>
+          {stick.pass ? "PASS" : "DRIFT"}
+        </span>
+      </div>
+      {rows.map((row) => (
+        <div key={row.name} className="flex justify-between text-xs">
+          <span className="text-muted-foreground">{row.name}</span>
+          <span className={`font-mono ${row.failed ? "text-red-600" : ""}`}>
+            {row.value.toFixed(3)}
+          </span>
+        </div>
+      ))}
+      <div className="flex justify-between text-xs">
+        <span className="text-muted-foreground">Deadzone</span>
+        <span className="font-mono">{stick.suggestedDeadzone.toFixed(2)}</span>
+      </div>
+      {!stick.samples && (
+        <p className="text-xs text-red-600">No readings received</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,310 @@
+import { useEffect, useRef, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import {
+  TRIGGER_REST_LEVEL,
+  TriggerCurveResult,
+  TriggerFailure,
+  TriggerSample,
+  TriggerTestResult,
+  analyzeTriggerCurve,
+} from "@/src/utils/trigger-test";
+
+interface TriggerTestProps {
+  gamepadIndex: number | null;
+  onResult?: (result: TriggerTestResult) => void;
+}
+
+type Side = "left" | "right";
+
+const TRIGGERS: { side: Side; label: string; button: number }[] = [
+  { side: "left", label: "Left Trigger (LT / L2)", button: 6 },
+  { side: "right", label: "Right Trigger (RT / R2)", button: 7 },
+];
+
+// How long the trigger must sit released before the cycle counts as done
+const RELEASE_HOLD_MS = 300;
+// A cycle only completes once the trigger got at least this far
+const MIN_PRESS_LEVEL = 0.5;
+
+const FAILURE_LABELS: Record<TriggerFailure, string> = {
+  range: "Doesn't reach full value",
+  return: "Doesn't return to zero",
+  deadTravel: "Dead travel at the top",
+  jumps: "Value jumps",
+  reversals: "Non-monotonic steps",
+};
+
+export default function TriggerTest({
+  gamepadIndex,
+  onResult,
+}: TriggerTestProps) {
+  // Trigger being recorded, or null when idle
+  const [active, setActive] = useState<number | null>(null);
+  const [recording, setRecording] = useState(false);
+  const [liveValue, setLiveValue] = useState(0);
+  const [results, setResults] = useState<
+    Record<Side, TriggerCurveResult | null>
+  >({ left: null, right: null });
+  const [finished, setFinished] = useState(false);
+  const samplesRef = useRef<TriggerSample[]>([]);
+  const frameRef = useRef<number | null>(null);
+
+  // Analyze what was recorded for the active trigger and move on
+  const completeTrigger = (index: number) => {
+    const side = TRIGGERS[index].side;
+    const curve = samplesRef.current.length
+      ? analyzeTriggerCurve(samplesRef.current)
+      : null;
+    const next = { ...results, [side]: curve };
+    setResults(next);
+    setRecording(false);
+    samplesRef.current = [];
+
+    if (index + 1 < TRIGGERS.length) {
+      setActive(index + 1);
+      return;
+    }
+    setActive(null);
+    setFinished(true);
+    onResult?.({
+      testedAt: Date.now(),
+      left: next.left,
+      right: next.right,
+      pass: !!next.left?.pass && !!next.right?.pass,
+    });
+  };
+
+  useEffect(() => {
+    if (active == null || gamepadIndex == null) return;
+
+    const button = TRIGGERS[active].button;
+    let startedAt = 0;
+    let peak = 0;
+    let releasedAt: number | null = null;
+    let lastShown = -1;
+
+    const tick = (now: number) => {
+      const gp = navigator.getGamepads?.()[gamepadIndex];
+      const value = gp?.buttons[button]?.value ?? 0;
+
+      if (Math.abs(value - lastShown) >= 0.01) {
+        lastShown = value;
+        setLiveValue(value);
+      }
+
+      const samples = samplesRef.current;
+      if (!samples.length) {
+        // Wait for the press to begin
+        if (value > TRIGGER_REST_LEVEL) {
+          startedAt = now;
+          samples.push({ t: 0, value });
+          setRecording(true);
+        }
+      } else {
+        samples.push({ t: now - startedAt, value });
+        peak = Math.max(peak, value);
+        if (value > TRIGGER_REST_LEVEL) {
+          releasedAt = null;
+        } else if (peak >= MIN_PRESS_LEVEL) {
+          releasedAt ??= now;
+          if (now - releasedAt >= RELEASE_HOLD_MS) {
+            completeTrigger(active);
+            return;
+          }
+        }
+      }
+      frameRef.current = requestAnimationFrame(tick);
+    };
+    frameRef.current = requestAnimationFrame(tick);
+
+    return () => {
+      if (frameRef.current != null) {
+        cancelAnimationFrame(frameRef.current);
+        frameRef.current = null;
+      }
+    };
+  }, [active, gamepadIndex]);
+
+  const start = () => {
+    samplesRef.current = [];
+    setResults({ left: null, right: null });
+    setFinished(false);
+    setRecording(false);
+    setActive(0);
+  };
+
+  const overallPass = !!results.left?.pass && !!results.right?.pass;
+
+  return (
+    <Card className="border-stone-200">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm">Trigger Test</CardTitle>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-3">
+        {active != null ? (
+          <div className="p-3 rounded border border-stone-200 bg-muted space-y-2">
+            <div className="text-center">
+              <div className="text-sm font-semibold">
+                {TRIGGERS[active].label}
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {recording
+                  ? "Recording, release slowly once it bottoms out"
+                  : "Squeeze slowly all the way down, then slowly let go"}
+              </div>
+            </div>
+            <div className="h-2 rounded-full bg-stone-200 overflow-hidden">
+              <div
+                className="h-2 bg-green-500"
+                style={{ width: `${liveValue * 100}%` }}
+              />
+            </div>
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            Records a full press and release of each trigger and checks range,
+            return to zero and smoothness.
+          </p>
+        )}
+
+        <div className="flex items-center gap-2">
+          {active != null ? (
+            <>
+              {/* A sticky trigger may never settle, so allow ending by hand */}
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-7 text-xs"
+                onClick={() => completeTrigger(active)}
+              >
+                {recording ? "Done" : "Skip"}
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 text-xs ml-auto"
+                onClick={() => setActive(null)}
+              >
+                Cancel
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button
+                size="sm"
+                className="h-7 text-xs"
+                disabled={gamepadIndex == null}
+                onClick={start}
+              >
+                {finished ? "Run Again" : "Start"}
+              </Button>
+              {finished && (
+                <Badge
+                  variant={overallPass ? "default" : "destructive"}
+                  className="ml-auto"
+                >
+                  {overallPass ? "PASS" : "FAIL"}
+                </Badge>
+              )}
+            </>
+          )}
+        </div>
+
+        {finished && (
+          <div className="grid grid-cols-2 gap-2">
+            {TRIGGERS.map(({ side, label }) => (
+              <TriggerSummary
+                key={side}
+                label={label.split(" (")[0]}
+                curve={results[side]}
+              />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function TriggerSummary({
+  label,
+  curve,
+}: {
+  label: string;
+  curve: TriggerCurveResult | null;
+}) {
+  const pass = !!curve?.pass;
+  const points = curve?.curve ?? [];
+  const polyline = points
+    .map(
+      (v, i) =>
+        `${((i / Math.max(1, points.length - 1)) * 100).toFixed(1)},${(
+          (1 - v) *
+          40
+        ).toFixed(1)}`
+    )
+    .join(" ");
+
+  return (
+    <div
+      className={`p-2 rounded border space-y-1 ${
+        pass
+          ? "border-stone-200 bg-muted"
+          : "border-red-300 bg-red-50 dark:bg-red-950/20"
+      }`}
+    >
+      <div className="flex items-center justify-between text-xs font-medium">
+        <span>{label}</span>
+        <span className={pass ? "text-green-600" : "text-red-600"}>
+          {!curve ? "SKIPPED" : pass ? "PASS" : "FAIL"}
+        </span>
+      </div>
+      {curve && (
+        <>
+          <svg
+            viewBox="0 0 100 40"
+            preserveAspectRatio="none"
+            className="w-full h-10 bg-background rounded"
+          >
+            <polyline
+              points={polyline}
+              fill="none"
+              stroke="rgba(34,197,94,0.85)"
+              strokeWidth="1.5"
+              vectorEffect="non-scaling-stroke"
+            />
+          </svg>
+          <div className="flex justify-between text-xs">
+            <span className="text-muted-foreground">Max</span>
+            <span className="font-mono">{curve.maxValue.toFixed(3)}</span>
+          </div>
+          <div className="flex justify-between text-xs">
+            <span className="text-muted-foreground">At rest</span>
+            <span className="font-mono">{curve.restValue.toFixed(3)}</span>
+          </div>
+          <div className="flex justify-between text-xs">
+            <span className="text-muted-foreground">Top dead travel</span>
+            <span className="font-mono">
+              {Math.round(curve.topDeadTravel * 100)}%
+            </span>
+          </div>
+          <div className="flex justify-between text-xs">
+            <span className="text-muted-foreground">Levels</span>
+            <span className="font-mono">
+              {curve.digital ? "digital" : curve.distinctLevels}
+            </span>
+          </div>
+          {curve.failures.map((failure) => (
+            <p key={failure} className="text-xs text-red-600">
+              {FAILURE_LABELS[failure]}
+              {failure === "jumps" && ` (${curve.jumps})`}
+              {failure === "reversals" && ` (${curve.reversals})`}
+            </p>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+import { useEffect } from "react";
+import { DeviceReport, saveReport } from "@/src/utils/device-report";
+
+// Wait for a pause in typing or clicking before writing the history
+const SAVE_DELAY = 800;
+
+/**
+ * Save a report to its history once it stops changing. Pass null while
+ * there is nothing worth keeping yet.
+ */
+export function useReportAutosave<T extends DeviceReport>(
+  historyKey: string,
+  report: T | null
+) {
+  useEffect(() => {
+    if (!report) return;
+    const timer = setTimeout(() => saveReport(historyKey, report), SAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [historyKey, report]);
+}
@@ -0,0 +1,743 @@
+/**
+ * QR Code encoder (ISO/IEC 18004) that runs fully offline.
+ * Supports numeric, alphanumeric and byte (UTF-8) modes, all four
+ * error-correction levels, versions 1-40 and automatic mask selection.
+ * Output can be rendered as an SVG string or an SVG/PNG data URL, so it
+ * works in the service worker without a canvas.
+ */
+
+export type ErrorCorrectionLevel = "L" | "M" | "Q" | "H";
+export type QrMode = "numeric" | "alphanumeric" | "byte";
+
+export interface QrOptions {
+  ecc?: ErrorCorrectionLevel;
+  // Force a mode; defaults to the most compact mode that fits the text
+  mode?: QrMode;
+  // Force a mask pattern (0-7); defaults to the lowest-penalty mask
+  mask?: number;
+  minVersion?: number;
+}
+
+export interface QrCode {
+  version: number;
+  size: number;
+  ecc: ErrorCorrectionLevel;
+  mode: QrMode;
+  mask: number;
+  // modules[y][x] is true for dark modules
+  modules: boolean[][];
+}
+
+export interface QrRenderOptions {
+  // Quiet zone width in modules (the spec requires 4)
+  margin?: number;
+  dark?: string;
+  light?: string;
+}
+
+const MIN_VERSION = 1;
+const MAX_VERSION = 40;
+
+const ECC_FORMAT_BITS: Record<ErrorCorrectionLevel, number> = {
+  L: 1,
+  M: 0,
+  Q: 3,
+  H: 2,
+};
+
+// Indexed by version (index 0 unused)
+const ECC_CODEWORDS_PER_BLOCK: Record<ErrorCorrectionLevel, number[]> = {
+  L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+};
+
+const NUM_ERROR_CORRECTION_BLOCKS: Record<ErrorCorrectionLevel, number[]> = {
+  L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+};
+
+const MODE_INDICATOR: Record<QrMode, number> = {
+  numeric: 0x1,
+  alphanumeric: 0x2,
+  byte: 0x4,
+};
+
+// Character count bits for versions 1-9, 10-26 and 27-40
+const CHAR_COUNT_BITS: Record<QrMode, [number, number, number]> = {
+  numeric: [10, 12, 14],
+  alphanumeric: [9, 11, 13],
+  byte: [8, 16, 16],
+};
+
+const ALPHANUMERIC_CHARSET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:";
+
+const PENALTY_N1 = 3;
+const PENALTY_N2 = 3;
+const PENALTY_N3 = 40;
+const PENALTY_N4 = 10;
+
+/* ---------------------------------------------------------------------------
+ * Data encoding
+ * ------------------------------------------------------------------------- */
+
+class BitBuffer {
+  bits: number[] = [];
+
+  append(value: number, length: number) {
+    for (let i = length - 1; i >= 0; i--) this.bits.push((value >>> i) & 1);
+  }
+}
+
+interface Segment {
+  mode: QrMode;
+  numChars: number;
+  data: number[]; // bits
+}
+
+/**
+ * Pick the most compact mode that can represent the text
+ */
+function detectMode(text: string): QrMode {
+  if (/^\d*$/.test(text)) return "numeric";
+  if ([...text].every((c) => ALPHANUMERIC_CHARSET.includes(c)))
+    return "alphanumeric";
+  return "byte";
+}
+
+function utf8Bytes(text: string): number[] {
+  return Array.from(new TextEncoder().encode(text));
+}
+
+function makeSegment(text: string, mode: QrMode): Segment {
+  const bb = new BitBuffer();
+  if (mode === "numeric") {
+    if (!/^\d*$/.test(text)) throw new Error("Text is not numeric");
+    for (let i = 0; i < text.length; i += 3) {
+      const chunk = text.substring(i, i + 3);
+      bb.append(parseInt(chunk, 10), chunk.length * 3 + 1);
+    }
+    return { mode, numChars: text.length, data: bb.bits };
+  }
+
+  if (mode === "alphanumeric") {
+    const values = [...text].map((c) => ALPHANUMERIC_CHARSET.indexOf(c));
+    if (values.some((v) => v < 0)) {
+      throw new Error("Text contains characters outside the alphanumeric set");
+    }
+    let i = 0;
+    for (; i + 1 < values.length; i += 2) {
+      bb.append(values[i] * 45 + values[i + 1], 11);
+    }
+    if (i < values.length) bb.append(values[i], 6);
+    return { mode, numChars: values.length, data: bb.bits };
+  }
+
+  const bytes = utf8Bytes(text);
+  for (const b of bytes) bb.append(b, 8);
+  return { mode, numChars: bytes.length, data: bb.bits };
+}
+
+function charCountBits(mode: QrMode, version: number): number {
+  const bits = CHAR_COUNT_BITS[mode];
+  return version <= 9 ? bits[0] : version <= 26 ? bits[1] : bits[2];
+}
+
+function segmentBitLength(seg: Segment, version: number): number | null {
+  const ccBits = charCountBits(seg.mode, version);
+  if (seg.numChars >= 1 << ccBits) return null;
+  return 4 + ccBits + seg.data.length;
+}
+
+/**
+ * Number of data modules available after function patterns are drawn
+ */
+function getNumRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+function getNumDataCodewords(
+  version: number,
+  ecc: ErrorCorrectionLevel
+): number {
+  return (
+    Math.floor(getNumRawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[ecc][version] *
+      NUM_ERROR_CORRECTION_BLOCKS[ecc][version]
+  );
+}
+
+/* ---------------------------------------------------------------------------
+ * Reed-Solomon error correction over GF(2^8), polynomial 0x11D
+ * ------------------------------------------------------------------------- */
+
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z & 0xff;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = divisor.map(() => 0);
+  for (const b of data) {
+    const factor = b ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coef, i) => {
+      result[i] ^= gfMultiply(coef, factor);
+    });
+  }
+  return result;
+}
+
+/**
+ * Split data into blocks, append ECC to each and interleave the result
+ */
+function addEccAndInterleave(
+  data: number[],
+  version: number,
+  ecc: ErrorCorrectionLevel
+): number[] {
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[ecc][version];
+  const blockEccLen = ECC_CODEWORDS_PER_BLOCK[ecc][version];
+  const rawCodewords = Math.floor(getNumRawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks);
+
+  const divisor = reedSolomonDivisor(blockEccLen);
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const dat = data.slice(
+      k,
+      k + shortBlockLen - blockEccLen + (i < numShortBlocks ? 0 : 1)
+    );
+    k += dat.length;
+    const eccBytes = reedSolomonRemainder(dat, divisor);
+    if (i < numShortBlocks) dat.push(0);
+    blocks.push(dat.concat(eccBytes));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      // Skip the padding byte in short blocks
+      if (i !== shortBlockLen - blockEccLen || j >= numShortBlocks) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+}
+
+/* ---------------------------------------------------------------------------
+ * Module placement
+ * ------------------------------------------------------------------------- */
+
+class QrMatrix {
+  size: number;
+  modules: boolean[][];
+  isFunction: boolean[][];
+
+  constructor(public version: number) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () =>
+      new Array(this.size).fill(false)
+    );
+    this.isFunction = Array.from({ length: this.size }, () =>
+      new Array(this.size).fill(false)
+    );
+  }
+
+  setFunction(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark;
+    this.isFunction[y][x] = true;
+  }
+
+  drawFunctionPatterns(ecc: ErrorCorrectionLevel) {
+    const size = this.size;
+    // Timing patterns
+    for (let i = 0; i < size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+
+    // Finder patterns (drawn over the timing patterns)
+    this.drawFinder(3, 3);
+    this.drawFinder(size - 4, 3);
+    this.drawFinder(3, size - 4);
+
+    // Alignment patterns, skipping the three finder corners
+    const positions = this.alignmentPositions();
+    const last = positions.length - 1;
+    positions.forEach((x, i) => {
+      positions.forEach((y, j) => {
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0))
+          return;
+        this.drawAlignment(x, y);
+      });
+    });
+
+    // Reserve format areas with a dummy mask, then version info
+    this.drawFormatBits(ecc, 0);
+    this.drawVersion();
+  }
+
+  private drawFinder(x: number, y: number) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const dist = Math.max(Math.abs(dx), Math.abs(dy));
+        const xx = x + dx;
+        const yy = y + dy;
+        if (xx >= 0 && xx < this.size && yy >= 0 && yy < this.size) {
+          this.setFunction(xx, yy, dist !== 2 && dist !== 4);
+        }
+      }
+    }
+  }
+
+  private drawAlignment(x: number, y: number) {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.setFunction(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    }
+  }
+
+  private alignmentPositions(): number[] {
+    if (this.version === 1) return [];
+    const numAlign = Math.floor(this.version / 7) + 2;
+    const step =
+      Math.floor((this.version * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) *
+      2;
+    const result = [6];
+    for (let pos = this.size - 7; result.length < numAlign; pos -= step) {
+      result.splice(1, 0, pos);
+    }
+    return result;
+  }
+
+  drawFormatBits(ecc: ErrorCorrectionLevel, mask: number) {
+    const data = (ECC_FORMAT_BITS[ecc] << 3) | mask;
+    let rem = data;
+    for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+    const bits = ((data << 10) | rem) ^ 0x5412;
+    const bit = (i: number) => ((bits >>> i) & 1) !== 0;
+    const size = this.size;
+
+    // First copy, around the top-left finder
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, bit(i));
+    this.setFunction(8, 7, bit(6));
+    this.setFunction(8, 8, bit(7));
+    this.setFunction(7, 8, bit(8));
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, bit(i));
+
+    // Second copy, split between the other two finders
+    for (let i = 0; i < 8; i++) this.setFunction(size - 1 - i, 8, bit(i));
+    for (let i = 8; i < 15; i++) this.setFunction(8, size - 15 + i, bit(i));
+    this.setFunction(8, size - 8, true); // Always-dark module
+  }
+
+  private drawVersion() {
+    if (this.version < 7) return;
+    let rem = this.version;
+    for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+    const bits = (this.version << 12) | rem;
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) !== 0;
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunction(a, b, dark);
+      this.setFunction(b, a, dark);
+    }
+  }
+
+  /**
+   * Place codewords in the zigzag pattern, right to left in column pairs
+   */
+  drawCodewords(data: number[]) {
+    let i = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5; // Skip the vertical timing column
+      for (let vert = 0; vert < this.size; vert++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? this.size - 1 - vert : vert;
+          if (!this.isFunction[y][x] && i < data.length * 8) {
+            this.modules[y][x] = ((data[i >>> 3] >>> (7 - (i & 7))) & 1) !== 0;
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * XOR the mask pattern onto data modules. Applying twice undoes it.
+   */
+  applyMask(mask: number) {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (this.isFunction[y][x]) continue;
+        let invert: boolean;
+        switch (mask) {
+          case 0: invert = (x + y) % 2 === 0; break;
+          case 1: invert = y % 2 === 0; break;
+          case 2: invert = x % 3 === 0; break;
+          case 3: invert = (x + y) % 3 === 0; break;
+          case 4: invert = (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0; break;
+          case 5: invert = ((x * y) % 2) + ((x * y) % 3) === 0; break;
+          case 6: invert = (((x * y) % 2) + ((x * y) % 3)) % 2 === 0; break;
+          case 7: invert = (((x + y) % 2) + ((x * y) % 3)) % 2 === 0; break;
+          default: throw new Error("Invalid mask");
+        }
+        if (invert) this.modules[y][x] = !this.modules[y][x];
+      }
+    }
+  }
+
+  penaltyScore(): number {
+    const size = this.size;
+    const m = this.modules;
+    let result = 0;
+
+    const scanLine = (get: (i: number) => boolean) => {
+      let runColor = false;
+      let runLen = 0;
+      const history = [0, 0, 0, 0, 0, 0, 0];
+      for (let i = 0; i < size; i++) {
+        if (get(i) === runColor) {
+          runLen++;
+          if (runLen === 5) result += PENALTY_N1;
+          else if (runLen > 5) result++;
+        } else {
+          this.addRunHistory(runLen, history);
+          if (!runColor) result += this.countFinderLike(history) * PENALTY_N3;
+          runColor = get(i);
+          runLen = 1;
+        }
+      }
+      if (runColor) {
+        this.addRunHistory(runLen, history);
+        runLen = 0;
+      }
+      this.addRunHistory(runLen + size, history);
+      result += this.countFinderLike(history) * PENALTY_N3;
+    };
+
+    for (let y = 0; y < size; y++) scanLine((x) => m[y][x]);
+    for (let x = 0; x < size; x++) scanLine((y) => m[y][x]);
+
+    // 2x2 blocks of one color
+    for (let y = 0; y < size - 1; y++) {
+      for (let x = 0; x < size - 1; x++) {
+        const c = m[y][x];
+        if (c === m[y][x + 1] && c === m[y + 1][x] && c === m[y + 1][x + 1])
+          result += PENALTY_N2;
+      }
+    }
+
+    // Dark/light balance
+    const dark = m.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+    const total = size * size;
+    const k = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1;
+    result += k * PENALTY_N4;
+    return result;
+  }
+
+  private addRunHistory(runLen: number, history: number[]) {
+    // Add a light border to the initial run
+    if (history[0] === 0) runLen += this.size;
+    history.pop();
+    history.unshift(runLen);
+  }
+
+  private countFinderLike(h: number[]): number {
+    const n = h[1];
+    const core =
+      n > 0 && h[2] === n && h[3] === n * 3 && h[4] === n && h[5] === n;
+    return (
+      (core && h[0] >= n * 4 && h[6] >= n ? 1 : 0) +
+      (core && h[6] >= n * 4 && h[0] >= n ? 1 : 0)
+    );
+  }
+}
+
+/* ---------------------------------------------------------------------------
+ * Public API
+ * ------------------------------------------------------------------------- */
+
+/**
+ * Encode text as a QR code
+ * @param text - Text to encode (UTF-8 in byte mode)
+ * @param options - Error-correction level, mode, mask and minimum version
+ * @returns The encoded QR code module matrix
+ * @throws Error when the text does not fit in a version 40 symbol
+ */
+export function encodeQr(text: string, options: QrOptions = {}): QrCode {
+  const ecc = options.ecc ?? "M";
+  const mode = options.mode ?? detectMode(text);
+  const segment = makeSegment(text, mode);
+
+  // Find the smallest version that fits the data
+  let version = Math.max(MIN_VERSION, options.minVersion ?? MIN_VERSION);
+  let usedBits: number | null = null;
+  for (; version <= MAX_VERSION; version++) {
+    const capacity = getNumDataCodewords(version, ecc) * 8;
+    usedBits = segmentBitLength(segment, version);
+    if (usedBits !== null && usedBits <= capacity) break;
+  }
+  if (version > MAX_VERSION || usedBits === null) {
+    throw new Error("Data too long for a QR code");
+  }
+
+  // Header, data, terminator and padding
+  const bb = new BitBuffer();
+  bb.append(MODE_INDICATOR[mode], 4);
+  bb.append(segment.numChars, charCountBits(mode, version));
+  bb.bits.push(...segment.data);
+  const capacityBits = getNumDataCodewords(version, ecc) * 8;
+  bb.append(0, Math.min(4, capacityBits - bb.bits.length));
+  bb.append(0, (8 - (bb.bits.length % 8)) % 8);
+  for (let pad = 0xec; bb.bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+    bb.append(pad, 8);
+  }
+
+  const dataCodewords: number[] = [];
+  for (let i = 0; i < bb.bits.length; i += 8) {
+    let byte = 0;
+    for (let j = 0; j < 8; j++) byte = (byte << 1) | bb.bits[i + j];
+    dataCodewords.push(byte);
+  }
+
+  const matrix = new QrMatrix(version);
+  matrix.drawFunctionPatterns(ecc);
+  matrix.drawCodewords(addEccAndInterleave(dataCodewords, version, ecc));
+
+  let mask = options.mask ?? -1;
+  if (mask < 0) {
+    let minPenalty = Infinity;
+    for (let candidate = 0; candidate < 8; candidate++) {
+      matrix.applyMask(candidate);
+      matrix.drawFormatBits(ecc, candidate);
+      const penalty = matrix.penaltyScore();
+      if (penalty < minPenalty) {
+        mask = candidate;
+        minPenalty = penalty;
+      }
+      matrix.applyMask(candidate); // Undo
+    }
+  }
+  matrix.applyMask(mask);
+  matrix.drawFormatBits(ecc, mask);
+
+  return {
+    version,
+    size: matrix.size,
+    ecc,
+    mode,
+    mask,
+    modules: matrix.modules,
+  };
+}
+
+/**
+ * Render a QR code as an SVG document
+ * @param qr - Encoded QR code
+ * @param options - Quiet zone and colors
+ * @returns SVG markup
+ */
+export function qrToSvg(qr: QrCode, options: QrRenderOptions = {}): string {
+  const margin = options.margin ?? 4;
+  const dark = options.dark ?? "#000000";
+  const light = options.light ?? "#ffffff";
+  const dim = qr.size + margin * 2;
+
+  const path: string[] = [];
+  qr.modules.forEach((row, y) => {
+    row.forEach((isDark, x) => {
+      if (isDark) path.push(`M${x + margin},${y + margin}h1v1h-1z`);
+    });
+  });
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${dim} ${dim}" shape-rendering="crispEdges">` +
+    `<rect width="100%" height="100%" fill="${light}"/>` +
+    `<path d="${path.join("")}" fill="${dark}"/>` +
+    `</svg>`
+  );
+}
+
+/**
+ * Render a QR code as an SVG data URL
+ */
+export function qrToSvgDataUrl(
+  qr: QrCode,
+  options: QrRenderOptions = {}
+): string {
+  return `data:image/svg+xml;base64,${btoa(qrToSvg(qr, options))}`;
+}
+
+// Bounds for requested PNG sizes; the image is built in memory
+const QR_PNG_MIN_SIZE = 64;
+const QR_PNG_MAX_SIZE = 1024;
+
+/**
+ * Render a QR code as a black-and-white PNG data URL
+ * @param qr - Encoded QR code
+ * @param size - Target image width/height in pixels, clamped to 64-1024;
+ *   modules are scaled by a whole number and centered, growing the image
+ *   if it is too small
+ * @param options - Quiet zone width
+ */
+export function qrToPngDataUrl(
+  qr: QrCode,
+  size = 256,
+  options: Pick<QrRenderOptions, "margin"> = {}
+): string {
+  size = Number.isFinite(size)
+    ? Math.min(QR_PNG_MAX_SIZE, Math.max(QR_PNG_MIN_SIZE, Math.round(size)))
+    : 256;
+  const margin = options.margin ?? 4;
+  const total = qr.size + margin * 2;
+  const scale = Math.max(1, Math.floor(size / total));
+  const dim = Math.max(size, total * scale);
+  const offset = Math.floor((dim - total * scale) / 2) + margin * scale;
+
+  // 1-bit grayscale rows, each prefixed with filter type 0 (bit 1 = white)
+  const rowBytes = Math.ceil(dim / 8);
+  const raw = new Uint8Array((rowBytes + 1) * dim);
+  for (let py = 0; py < dim; py++) {
+    const rowStart = py * (rowBytes + 1);
+    const my = Math.floor((py - offset) / scale);
+    for (let px = 0; px < dim; px++) {
+      const mx = Math.floor((px - offset) / scale);
+      const isDark =
+        py >= offset &&
+        px >= offset &&
+        my < qr.size &&
+        mx < qr.size &&
+        qr.modules[my][mx];
+      if (!isDark) raw[rowStart + 1 + (px >>> 3)] |= 0x80 >>> (px & 7);
+    }
+  }
+
+  const ihdr = new Uint8Array(13);
+  const view = new DataView(ihdr.buffer);
+  view.setUint32(0, dim);
+  view.setUint32(4, dim);
+  ihdr[8] = 1; // bit depth
+  ihdr[9] = 0; // grayscale
+
+  const png = concatBytes([
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", ihdr),
+    pngChunk("IDAT", zlibStore(raw)),
+    pngChunk("IEND", new Uint8Array(0)),
+  ]);
+  return `data:image/png;base64,${bytesToBase64(png)}`;
+}
+
+/* ---------------------------------------------------------------------------
+ * Minimal PNG helpers
+ * ------------------------------------------------------------------------- */
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const b of bytes) crc = crcTable[(crc ^ b) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+/**
+ * Wrap data in a zlib stream using uncompressed (stored) deflate blocks
+ */
+function zlibStore(data: Uint8Array): Uint8Array {
+  const MAX_BLOCK = 0xffff;
+  const numBlocks = Math.max(1, Math.ceil(data.length / MAX_BLOCK));
+  const out = new Uint8Array(2 + numBlocks * 5 + data.length + 4);
+  out[0] = 0x78;
+  out[1] = 0x01;
+  let pos = 2;
+  for (let i = 0; i < numBlocks; i++) {
+    const block = data.subarray(i * MAX_BLOCK, (i + 1) * MAX_BLOCK);
+    out[pos++] = i === numBlocks - 1 ? 1 : 0;
+    out[pos++] = block.length & 0xff;
+    out[pos++] = block.length >>> 8;
+    out[pos++] = ~block.length & 0xff;
+    out[pos++] = (~block.length >>> 8) & 0xff;
+    out.set(block, pos);
+    pos += block.length;
+  }
+
+  let a = 1;
+  let b = 0;
+  for (const byte of data) {
+    a = (a + byte) % 65521;
+    b = (b + a) % 65521;
+  }
+  new DataView(out.buffer).setUint32(pos, ((b << 16) | a) >>> 0);
+  return out;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let pos = 0;
+  for (const p of parts) {
+    out.set(p, pos);
+    pos += p.length;
+  }
+  return out;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
@@ -0,0 +1,278 @@
+/**
+ * Speaker and headphone test through Web Audio: left-only and right-only
+ * tones, a 20 Hz to 20 kHz sweep and a polarity check. Each step is played
+ * and the tester confirms what they heard, giving a pass/fail per step in
+ * the shared report format.
+ */
+import {
+  DeviceReport,
+  ReportGrade,
+  createReportId,
+  renderReportPage,
+  row,
+  verdict,
+} from "./device-report";
+
+export type AudioStepId = "left" | "right" | "sweep" | "polarity";
+
+export type AudioStepStatus = "pending" | "pass" | "fail";
+
+export interface AudioStep {
+  id: AudioStepId;
+  label: string;
+  // Question shown while the step plays
+  prompt: string;
+  durationMs: number;
+}
+
+export interface AudioStepResult {
+  id: AudioStepId;
+  label: string;
+  status: AudioStepStatus;
+}
+
+export type AudioOutputKind = "headphones" | "speakers";
+
+export interface AudioDeviceInfo {
+  // Model or SKU typed by the tester
+  name: string;
+  output: AudioOutputKind;
+}
+
+export interface AudioTestReport extends DeviceReport {
+  device: AudioDeviceInfo;
+  steps: AudioStepResult[];
+}
+
+export const AUDIO_HISTORY_KEY = "audioTestHistory";
+
+export const SWEEP_START_HZ = 20;
+export const SWEEP_END_HZ = 20000;
+const SWEEP_MS = 12000;
+const TONE_HZ = 440;
+// Polarity is easiest to judge on a low tone most speakers still play
+const POLARITY_HZ = 200;
+const POLARITY_TONE_MS = 2000;
+const POLARITY_GAP_MS = 500;
+// Fades keep tones from starting and stopping with a click
+const FADE_S = 0.02;
+const VOLUME = 0.25;
+
+export const AUDIO_STEPS: AudioStep[] = [
+  {
+    id: "left",
+    label: "Left channel",
+    prompt: "Only the left side should play",
+    durationMs: 2000,
+  },
+  {
+    id: "right",
+    label: "Right channel",
+    prompt: "Only the right side should play",
+    durationMs: 2000,
+  },
+  {
+    id: "sweep",
+    label: "Frequency sweep",
+    prompt:
+      "The tone should rise smoothly with no rattle, buzz or dropouts (very low and very high ends may be faint)",
+    durationMs: SWEEP_MS,
+  },
+  {
+    id: "polarity",
+    label: "Polarity",
+    prompt:
+      "The first tone should sound centered and fuller than the second, which sounds hollow or spread out",
+    durationMs: POLARITY_TONE_MS * 2 + POLARITY_GAP_MS,
+  },
+];
+
+export const AUDIO_GRADE_DESCRIPTIONS: Record<ReportGrade, string> = {
+  A: "Both channels, full sweep and polarity correct",
+  B: "Steps checked so far pass",
+  C: "Distortion in the sweep or reversed polarity",
+  F: "A channel is dead or swapped",
+  Incomplete: "No steps checked yet",
+};
+
+export const createAudioSteps = (): AudioStepResult[] =>
+  AUDIO_STEPS.map(({ id, label }) => ({ id, label, status: "pending" }));
+
+/**
+ * Frequency the sweep is playing `elapsedMs` after it started
+ */
+export function sweepFrequency(elapsedMs: number): number {
+  const t = Math.min(1, Math.max(0, elapsedMs / SWEEP_MS));
+  return SWEEP_START_HZ * Math.pow(SWEEP_END_HZ / SWEEP_START_HZ, t);
+}
+
+/**
+ * Schedule one tone into the given channels of a stereo merger. A gain of
+ * -1 on a channel inverts it for the polarity check.
+ */
+function scheduleTone(
+  context: AudioContext,
+  merger: ChannelMergerNode,
+  channels: { channel: number; gain: number }[],
+  start: number,
+  duration: number,
+  frequency: number,
+  sweepTo?: number
+): OscillatorNode {
+  const oscillator = context.createOscillator();
+  oscillator.frequency.setValueAtTime(frequency, start);
+  if (sweepTo) {
+    oscillator.frequency.exponentialRampToValueAtTime(
+      sweepTo,
+      start + duration
+    );
+  }
+
+  const envelope = context.createGain();
+  envelope.gain.setValueAtTime(0, start);
+  envelope.gain.linearRampToValueAtTime(VOLUME, start + FADE_S);
+  envelope.gain.setValueAtTime(VOLUME, start + duration - FADE_S);
+  envelope.gain.linearRampToValueAtTime(0, start + duration);
+  oscillator.connect(envelope);
+
+  for (const { channel, gain } of channels) {
+    const channelGain = context.createGain();
+    channelGain.gain.value = gain;
+    envelope.connect(channelGain).connect(merger, 0, channel);
+  }
+
+  oscillator.start(start);
+  oscillator.stop(start + duration);
+  return oscillator;
+}
+
+/**
+ * Play a step. Returns a function that stops it early.
+ */
+export function playAudioStep(
+  context: AudioContext,
+  step: AudioStep
+): () => void {
+  const merger = context.createChannelMerger(2);
+  merger.connect(context.destination);
+  const now = context.currentTime + 0.05;
+  const duration = step.durationMs / 1000;
+  const left = { channel: 0, gain: 1 };
+  const right = { channel: 1, gain: 1 };
+  const tone = (channels: { channel: number; gain: number }[]) =>
+    scheduleTone(context, merger, channels, now, duration, TONE_HZ);
+
+  let oscillators: OscillatorNode[];
+  switch (step.id) {
+    case "left":
+      oscillators = [tone([left])];
+      break;
+    case "right":
+      oscillators = [tone([right])];
+      break;
+    case "sweep":
+      oscillators = [
+        scheduleTone(
+          context,
+          merger,
+          [left, right],
+          now,
+          duration,
+          SWEEP_START_HZ,
+          SWEEP_END_HZ
+        ),
+      ];
+      break;
+    case "polarity": {
+      const length = POLARITY_TONE_MS / 1000;
+      const inverted = now + length + POLARITY_GAP_MS / 1000;
+      oscillators = [
+        scheduleTone(context, merger, [left, right], now, length, POLARITY_HZ),
+        scheduleTone(
+          context,
+          merger,
+          [left, { channel: 1, gain: -1 }],
+          inverted,
+          length,
+          POLARITY_HZ
+        ),
+      ];
+      break;
+    }
+  }
+
+  return () => {
+    for (const oscillator of oscillators) {
+      try {
+        oscillator.stop();
+      } catch {
+        // Already stopped
+      }
+    }
+    merger.disconnect();
+  };
+}
+
+export function gradeAudioReport(
+  report: Pick<AudioTestReport, "steps">
+): ReportGrade {
+  const status = (id: AudioStepId) =>
+    report.steps.find((s) => s.id === id)?.status ?? "pending";
+  if (report.steps.every((s) => s.status === "pending")) return "Incomplete";
+  if (status("left") === "fail" || status("right") === "fail") return "F";
+  if (report.steps.some((s) => s.status === "fail")) return "C";
+  if (report.steps.some((s) => s.status === "pending")) return "B";
+  return "A";
+}
+
+/**
+ * Build the report for the current step results. `base` carries the id
+ * and creation time of the report being updated.
+ */
+export function buildAudioReport(
+  base: Pick<AudioTestReport, "id" | "createdAt"> | null,
+  device: AudioDeviceInfo,
+  steps: AudioStepResult[]
+): AudioTestReport {
+  const now = Date.now();
+  const report = {
+    id: base?.id ?? createReportId(),
+    createdAt: base?.createdAt ?? now,
+    updatedAt: now,
+    device,
+    steps,
+  };
+  return { ...report, grade: gradeAudioReport(report) };
+}
+
+export function describeAudioDevice(device: AudioDeviceInfo): string {
+  return device.name || device.output[0].toUpperCase() + device.output.slice(1);
+}
+
+/**
+ * Render a report as a standalone HTML page sized for printing
+ */
+export function audioReportToHtml(report: AudioTestReport): string {
+  const sections = [
+    `<h2>Steps</h2>`,
+    `<table>${report.steps
+      .map((step) =>
+        row(
+          step.label,
+          verdict(
+            step.status === "pending" ? undefined : step.status === "pass"
+          )
+        )
+      )
+      .join("")}</table>`,
+  ];
+
+  return renderReportPage({
+    title: "Audio Test Report",
+    report,
+    subject: describeAudioDevice(report.device),
+    details: [`Output: ${report.device.output}`],
+    gradeDescription: AUDIO_GRADE_DESCRIPTIONS[report.grade],
+    sections,
+  });
+}
@@ -0,0 +1,144 @@
+/**
+ * USB barcode scanners act as keyboards ("keyboard wedge"): they type the
+ * code a few milliseconds per character and press Enter. Burst detection
+ * tells them apart from a person typing, and the settings decide what a
+ * scan does.
+ */
+
+export type ScanAction = "upc-lookup" | "comp-bundle" | "paste";
+
+export interface BarcodeScannerSettings {
+  enabled: boolean;
+  action: ScanAction;
+  // Bundle to run for "comp-bundle"
+  bundleId: string;
+}
+
+export const BARCODE_SCANNER_KEY = "barcodeScannerSettings";
+
+export const DEFAULT_BARCODE_SCANNER_SETTINGS: BarcodeScannerSettings = {
+  enabled: true,
+  action: "upc-lookup",
+  bundleId: "comps-core",
+};
+
+export const SCAN_ACTION_LABELS: Record<ScanAction, string> = {
+  "upc-lookup": "Look up on UPCItemDB",
+  "comp-bundle": "Run a comp search bundle",
+  paste: "Paste into the last focused field",
+};
+
+// Scanners send a key every 2-20 ms; even fast typists rarely go under 50
+export const MAX_SCAN_KEY_INTERVAL_MS = 35;
+// Shortest code worth treating as a scan (ISBN-10)
+export const MIN_SCAN_LENGTH = 10;
+
+/**
+ * Get scanner settings from sync storage, filling in defaults
+ */
+export async function getBarcodeScannerSettings(): Promise<BarcodeScannerSettings> {
+  return new Promise((resolve) => {
+    chrome.storage.sync.get([BARCODE_SCANNER_KEY], (result) => {
+      if (chrome.runtime.lastError) {
+        console.error(
+          "[Scanner] Error loading scanner settings:",
+          chrome.runtime.lastError
+        );
+        resolve(DEFAULT_BARCODE_SCANNER_SETTINGS);
+        return;
+      }
+      resolve({
+        ...DEFAULT_BARCODE_SCANNER_SETTINGS,
+        ...result[BARCODE_SCANNER_KEY],
+      });
+    });
+  });
+}
+
+/**
+ * Persist scanner settings to sync storage
+ */
+export async function saveBarcodeScannerSettings(
+  settings: BarcodeScannerSettings
+): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.sync.set({ [BARCODE_SCANNER_KEY]: settings }, () => {
+      if (chrome.runtime.lastError) {
+        console.error(
+          "[Scanner] Failed to save scanner settings:",
+          chrome.runtime.lastError
+        );
+      }
+      resolve();
+    });
+  });
+}
+
+/**
+ * Subscribe to settings changes. Returns an unsubscribe function.
+ */
+export function onBarcodeScannerSettingsChanged(
+  callback: (settings: BarcodeScannerSettings) => void
+): () => void {
+  const listener = (
+    changes: Record<string, { newValue?: unknown }>,
+    area: string
+  ) => {
+    if (area !== "sync" || !changes[BARCODE_SCANNER_KEY]) return;
+    callback({
+      ...DEFAULT_BARCODE_SCANNER_SETTINGS,
+      ...(changes[BARCODE_SCANNER_KEY].newValue as
+        | Partial<BarcodeScannerSettings>
+        | undefined),
+    });
+  };
+  chrome.storage.onChanged.addListener(listener);
+  return () => chrome.storage.onChanged.removeListener(listener);
+}
+
+export interface ScanDetector {
+  /**
+   * Feed a keydown. Returns the scanned code when this key is the Enter
+   * that ends a scanner burst, otherwise null.
+   */
+  keydown: (key: string, timeStamp: number) => string | null;
+  reset: () => void;
+}
+
+/**
+ * Track printable keys and their timing. A run of characters each typed
+ * within MAX_SCAN_KEY_INTERVAL_MS of the last, ended by Enter, is a scan;
+ * any slower key starts a new run.
+ */
+export function createScanDetector(
+  maxInterval = MAX_SCAN_KEY_INTERVAL_MS,
+  minLength = MIN_SCAN_LENGTH
+): ScanDetector {
+  let buffer = "";
+  let lastAt = -Infinity;
+
+  const reset = () => {
+    buffer = "";
+    lastAt = -Infinity;
+  };
+
+  const keydown = (key: string, timeStamp: number) => {
+    const fast = timeStamp - lastAt <= maxInterval;
+    lastAt = timeStamp;
+
+    if (key === "Enter") {
+      const code = fast && buffer.length >= minLength ? buffer : null;
+      reset();
+      return code;
+    }
+    if (key.length !== 1) {
+      // Shift for an ISBN's X is fine; anything else breaks the run
+      if (key !== "Shift") reset();
+      return null;
+    }
+    buffer = fast ? buffer + key : key;
+    return null;
+  };
+
+  return { keydown, reset };
+}
@@ -1,3 +1,5 @@
+import { fuzzyFilter } from "./fuzzy";
+
 export interface Bookmark {
   id: string;
   title: string;
@@ -60,19 +62,14 @@ export async function getAllBookmarks(): Promise<Bookmark[]> {
 }
 
 /**
- * Filter bookmarks by search query
+ * Filter bookmarks by fuzzy search query, best matches first
  */
 export function filterBookmarks(
   bookmarks: Bookmark[],
   query: string
 ): Bookmark[] {
-  if (!query.trim()) return bookmarks;
-
-  const lowerQuery = query.toLowerCase();
-  return bookmarks.filter((bookmark) => {
-    const title = bookmark.title?.toLowerCase() || "";
-    const url = bookmark.url?.toLowerCase() || "";
-
-    return title.includes(lowerQuery) || url.includes(lowerQuery);
-  });
+  return fuzzyFilter(bookmarks, query, (bookmark) => ({
+    title: { text: bookmark.title },
+    url: { text: bookmark.url, weight: 0.7 },
+  })).map((hit) => hit.item);
 }
@@ -0,0 +1,98 @@
+/**
+ * Guided button-by-button intake checklist. Steps follow the standard
+ * Gamepad API mapping, so button indexes match every controller Chrome
+ * reports as "standard".
+ */
+import { ControllerProfile } from "./controller-profiles";
+
+export type ChecklistStatus = "pending" | "verified" | "skipped" | "broken";
+
+export interface ChecklistStep {
+  id: string;
+  label: string;
+  // Index into Gamepad.buttons
+  button: number;
+}
+
+export interface ChecklistItem extends ChecklistStep {
+  status: ChecklistStatus;
+}
+
+export interface ChecklistResult {
+  completedAt: number;
+  items: ChecklistItem[];
+  // Labels of steps that were skipped or never reached
+  untested: string[];
+  // Labels of steps marked broken
+  failed: string[];
+  pass: boolean;
+}
+
+export const CHECKLIST_STEPS: ChecklistStep[] = [
+  { id: "a", label: "A / ✕", button: 0 },
+  { id: "b", label: "B / ○", button: 1 },
+  { id: "x", label: "X / □", button: 2 },
+  { id: "y", label: "Y / △", button: 3 },
+  { id: "lb", label: "Left Bumper (LB / L1)", button: 4 },
+  { id: "rb", label: "Right Bumper (RB / R1)", button: 5 },
+  { id: "lt", label: "Left Trigger (LT / L2)", button: 6 },
+  { id: "rt", label: "Right Trigger (RT / R2)", button: 7 },
+  { id: "dpad-up", label: "D-Pad Up", button: 12 },
+  { id: "dpad-down", label: "D-Pad Down", button: 13 },
+  { id: "dpad-left", label: "D-Pad Left", button: 14 },
+  { id: "dpad-right", label: "D-Pad Right", button: 15 },
+  { id: "l3", label: "Left Stick Click (L3)", button: 10 },
+  { id: "r3", label: "Right Stick Click (R3)", button: 11 },
+  { id: "select", label: "View / Share / Minus", button: 8 },
+  { id: "start", label: "Menu / Options / Plus", button: 9 },
+  { id: "home", label: "Home / PS / Guide", button: 16 },
+];
+
+/**
+ * Checklist steps labeled for a controller profile, plus the model's
+ * extra inputs such as the touchpad click or capture button
+ */
+export function checklistStepsFor(profile: ControllerProfile): ChecklistStep[] {
+  if (profile.id === "generic") return CHECKLIST_STEPS;
+  return [
+    ...CHECKLIST_STEPS.map((step) => ({
+      ...step,
+      label: profile.buttonLabels[step.button] ?? step.label,
+    })),
+    ...profile.extraInputs.map((input) => ({
+      id: `extra-${input.button}`,
+      label: input.label,
+      button: input.button,
+    })),
+  ];
+}
+
+/**
+ * Fresh checklist with every step pending
+ */
+export function createChecklist(
+  steps: ChecklistStep[] = CHECKLIST_STEPS
+): ChecklistItem[] {
+  return steps.map((step) => ({ ...step, status: "pending" }));
+}
+
+/**
+ * Summarize a checklist. Pending steps count as untested, so an
+ * abandoned run still reports what was missed.
+ */
+export function summarizeChecklist(items: ChecklistItem[]): ChecklistResult {
+  const untested = items
+    .filter((item) => item.status === "pending" || item.status === "skipped")
+    .map((item) => item.label);
+  const failed = items
+    .filter((item) => item.status === "broken")
+    .map((item) => item.label);
+
+  return {
+    completedAt: Date.now(),
+    items: items.map((item) => ({ ...item })),
+    untested,
+    failed,
+    pass: !untested.length && !failed.length,
+  };
+}
@@ -0,0 +1,38 @@
+/**
+ * Command menu source settings stored in sync storage
+ */
+export interface CMDKSettings {
+  enabledSources: {
+    tabs: boolean;
+    bookmarks: boolean;
+    history: boolean;
+    quickLinks: boolean;
+    tools: boolean;
+    searchProviders: boolean;
+    ebayCategories: boolean;
+  };
+  sourceOrder: string[];
+}
+
+export const CMDK_SETTINGS_KEY = "cmdkSettings";
+
+export const DEFAULT_CMDK_SETTINGS: CMDKSettings = {
+  enabledSources: {
+    tabs: true,
+    bookmarks: true,
+    history: true,
+    quickLinks: true,
+    tools: true,
+    searchProviders: true,
+    ebayCategories: true,
+  },
+  sourceOrder: [
+    "tabs",
+    "quickLinks",
+    "ebayCategories",
+    "bookmarks",
+    "tools",
+    "searchProviders",
+    "history",
+  ],
+};
@@ -0,0 +1,276 @@
+/**
+ * Controller profiles keyed on the USB vendor/product IDs in Gamepad.id.
+ * A profile supplies the model's button labels, face button glyphs, stick
+ * layout, the number of buttons it should report and any inputs beyond the
+ * standard 17 (touchpad click, capture, share).
+ */
+
+export type FaceStyle = "xbox" | "playstation" | "nintendo" | "generic";
+
+// Xbox and Switch pads put the left stick above the D-pad ("offset");
+// PlayStation and most 8BitDo pads swap them so the sticks sit side by
+// side below ("symmetric")
+export type StickLayout = "offset" | "symmetric";
+
+export interface ControllerExtraInput {
+  // Index into Gamepad.buttons
+  button: number;
+  label: string;
+  shape: "touchpad" | "button";
+}
+
+export interface ControllerProfile {
+  id: string;
+  name: string;
+  // Vendor ID plus product IDs; no product list matches the whole vendor
+  match: { vendor: string; products?: string[] }[];
+  face: FaceStyle;
+  stickLayout: StickLayout;
+  // Labels by button index
+  buttonLabels: string[];
+  // Buttons the controller should report; 0 when unknown
+  expectedButtons: number;
+  extraInputs: ControllerExtraInput[];
+  analogTriggers: boolean;
+}
+
+export interface GamepadIds {
+  vendorId: string;
+  productId: string;
+}
+
+// D-pad buttons are labeled the same on every model
+const DPAD = ["D-Up", "D-Down", "D-Left", "D-Right"];
+
+const XBOX_LABELS = [
+  "A",
+  "B",
+  "X",
+  "Y",
+  "LB",
+  "RB",
+  "LT",
+  "RT",
+  "View",
+  "Menu",
+  "LS",
+  "RS",
+  ...DPAD,
+  "Xbox",
+];
+
+const PLAYSTATION_LABELS = [
+  "Cross",
+  "Circle",
+  "Square",
+  "Triangle",
+  "L1",
+  "R1",
+  "L2",
+  "R2",
+  "Share",
+  "Options",
+  "L3",
+  "R3",
+  ...DPAD,
+  "PS",
+  "Touchpad",
+];
+
+const NINTENDO_LABELS = [
+  "B",
+  "A",
+  "Y",
+  "X",
+  "L",
+  "R",
+  "ZL",
+  "ZR",
+  "Minus",
+  "Plus",
+  "LS",
+  "RS",
+  ...DPAD,
+  "Home",
+  "Capture",
+];
+
+export const GENERIC_PROFILE: ControllerProfile = {
+  id: "generic",
+  name: "Generic Gamepad",
+  match: [],
+  face: "generic",
+  stickLayout: "offset",
+  buttonLabels: [
+    "A/✕",
+    "B/○",
+    "X/□",
+    "Y/△",
+    "L1/LB",
+    "R1/RB",
+    "L2/LT",
+    "R2/RT",
+    "Other",
+    "Start",
+    "L3",
+    "R3",
+    ...DPAD,
+    "Meta",
+    "Touch/Share",
+    "Extra1",
+    "Extra2",
+  ],
+  expectedButtons: 0,
+  extraInputs: [],
+  analogTriggers: true,
+};
+
+export const CONTROLLER_PROFILES: ControllerProfile[] = [
+  {
+    id: "dualsense",
+    name: "DualSense",
+    match: [{ vendor: "054c", products: ["0ce6", "0df2"] }],
+    face: "playstation",
+    stickLayout: "symmetric",
+    buttonLabels: PLAYSTATION_LABELS.map((label) =>
+      label === "Share" ? "Create" : label
+    ),
+    expectedButtons: 18,
+    extraInputs: [{ button: 17, label: "Touchpad", shape: "touchpad" }],
+    analogTriggers: true,
+  },
+  {
+    id: "dualshock4",
+    name: "DualShock 4",
+    match: [{ vendor: "054c", products: ["05c4", "09cc", "0ba0"] }],
+    face: "playstation",
+    stickLayout: "symmetric",
+    buttonLabels: PLAYSTATION_LABELS,
+    expectedButtons: 18,
+    extraInputs: [{ button: 17, label: "Touchpad", shape: "touchpad" }],
+    analogTriggers: true,
+  },
+  {
+    id: "xbox-series",
+    name: "Xbox Series X|S",
+    match: [{ vendor: "045e", products: ["0b12", "0b13", "0b20", "0b21"] }],
+    face: "xbox",
+    stickLayout: "offset",
+    buttonLabels: [...XBOX_LABELS, "Share"],
+    expectedButtons: 18,
+    extraInputs: [{ button: 17, label: "Share", shape: "button" }],
+    analogTriggers: true,
+  },
+  {
+    id: "xbox-one",
+    name: "Xbox One",
+    match: [
+      {
+        vendor: "045e",
+        products: [
+          "02d1",
+          "02dd",
+          "02e0",
+          "02e3",
+          "02ea",
+          "02fd",
+          "0b00",
+          "0b05",
+          "0b22",
+        ],
+      },
+    ],
+    face: "xbox",
+    stickLayout: "offset",
+    buttonLabels: XBOX_LABELS,
+    expectedButtons: 17,
+    extraInputs: [],
+    analogTriggers: true,
+  },
+  {
+    id: "xbox-360",
+    name: "Xbox 360",
+    match: [{ vendor: "045e", products: ["028e", "028f", "0719"] }],
+    face: "xbox",
+    stickLayout: "offset",
+    buttonLabels: XBOX_LABELS.map((label) =>
+      label === "View" ? "Back" : label === "Menu" ? "Start" : label
+    ),
+    expectedButtons: 17,
+    extraInputs: [],
+    analogTriggers: true,
+  },
+  {
+    id: "switch-pro",
+    name: "Switch Pro Controller",
+    match: [{ vendor: "057e", products: ["2009"] }],
+    face: "nintendo",
+    stickLayout: "offset",
+    buttonLabels: NINTENDO_LABELS,
+    expectedButtons: 18,
+    extraInputs: [{ button: 17, label: "Capture", shape: "button" }],
+    analogTriggers: false,
+  },
+  {
+    id: "8bitdo",
+    name: "8BitDo",
+    match: [{ vendor: "2dc8" }],
+    face: "nintendo",
+    stickLayout: "symmetric",
+    buttonLabels: NINTENDO_LABELS.slice(0, 17).map((label) =>
+      label === "Minus" ? "Select" : label === "Plus" ? "Start" : label
+    ),
+    expectedButtons: 17,
+    extraInputs: [],
+    analogTriggers: true,
+  },
+];
+
+// Face glyphs in bottom, right, left, top order (buttons 0-3)
+export const FACE_GLYPHS: Record<FaceStyle, string[]> = {
+  xbox: ["A", "B", "X", "Y"],
+  playstation: ["✕", "○", "□", "△"],
+  nintendo: ["B", "A", "Y", "X"],
+  generic: ["", "", "", ""],
+};
+
+/**
+ * Pull the vendor and product IDs out of a Gamepad.id string. Chrome uses
+ * "Name (... Vendor: 054c Product: 0ce6)", Firefox "054c-0ce6-Name".
+ */
+export function parseGamepadId(id: string): GamepadIds | null {
+  const named = id.match(
+    /Vendor:\s*([0-9a-f]{4})\s+Product:\s*([0-9a-f]{4})/i
+  );
+  if (named) {
+    return {
+      vendorId: named[1].toLowerCase(),
+      productId: named[2].toLowerCase(),
+    };
+  }
+  const firefox = id.match(/^([0-9a-f]{1,4})-([0-9a-f]{1,4})-/i);
+  if (firefox) {
+    return {
+      vendorId: firefox[1].toLowerCase().padStart(4, "0"),
+      productId: firefox[2].toLowerCase().padStart(4, "0"),
+    };
+  }
+  return null;
+}
+
+/**
+ * Find the profile for a controller, falling back to the generic layout
+ */
+export function matchControllerProfile(id: string): ControllerProfile {
+  const ids = parseGamepadId(id);
+  if (!ids) return GENERIC_PROFILE;
+  return (
+    CONTROLLER_PROFILES.find((profile) =>
+      profile.match.some(
+        (m) =>
+          m.vendor === ids.vendorId &&
+          (!m.products || m.products.includes(ids.productId))
+      )
+    ) ?? GENERIC_PROFILE
+  );
+}
@@ -0,0 +1,257 @@
+/**
+ * Controller test reports. Results from the sidepanel tests are collected
+ * into one report per controller, kept in a local history and exported as
+ * JSON or a printable HTML page for the item or POS ticket.
+ */
+import { ChecklistResult } from "./button-checklist";
+import { CircularityTestResult } from "./stick-circularity";
+import { PollingRateResult } from "./polling-rate";
+import { RumbleTestResult } from "./rumble-test";
+import { DriftTestResult } from "./stick-drift";
+import { TriggerTestResult } from "./trigger-test";
+import {
+  DeviceReport,
+  ReportGrade,
+  createReportId,
+  num,
+  renderReportPage,
+  row,
+  verdict,
+} from "./device-report";
+
+export type ControllerGrade = ReportGrade;
+
+export interface ControllerInfo {
+  // Gamepad.id as reported by the browser
+  id: string;
+  mapping: string;
+  // Matched controller profile name (see controller-profiles.ts)
+  profile?: string;
+}
+
+export interface ControllerTestResults {
+  buttons: ChecklistResult | null;
+  drift: DriftTestResult | null;
+  circularity: CircularityTestResult | null;
+  triggers: TriggerTestResult | null;
+  rumble: RumbleTestResult | null;
+  // Connection quality; shown in the report but not graded
+  polling: PollingRateResult | null;
+}
+
+export interface ControllerTestReport
+  extends DeviceReport,
+    ControllerTestResults {
+  controller: ControllerInfo;
+}
+
+export const CONTROLLER_HISTORY_KEY = "controllerTestHistory";
+
+export const GRADE_DESCRIPTIONS: Record<ControllerGrade, string> = {
+  A: "All tests run and passed",
+  B: "Tests run so far passed",
+  C: "Minor defects (stick range, triggers or rumble)",
+  F: "Broken button or stick drift",
+  Incomplete: "No tests run yet",
+};
+
+/**
+ * Grade from the results so far. Broken buttons and drift make a
+ * controller unsellable as-is; range and trigger issues are discounts.
+ */
+export function gradeReport(results: ControllerTestResults): ControllerGrade {
+  const { buttons, drift, circularity, triggers, rumble } = results;
+  const tests = [buttons, drift, circularity, triggers, rumble];
+  const run = tests.filter(Boolean);
+  if (!run.length) return "Incomplete";
+
+  if (buttons?.failed.length || (drift && !drift.pass)) return "F";
+  if (
+    (circularity && !circularity.pass) ||
+    (triggers && !triggers.pass) ||
+    (rumble && !rumble.pass)
+  ) {
+    return "C";
+  }
+  if (run.length < tests.length || buttons?.untested.length) return "B";
+  return "A";
+}
+
+/**
+ * Start an empty report for a controller
+ */
+export function createControllerReport(
+  controller: ControllerInfo
+): ControllerTestReport {
+  const now = Date.now();
+  return {
+    id: createReportId(),
+    createdAt: now,
+    updatedAt: now,
+    controller,
+    buttons: null,
+    drift: null,
+    circularity: null,
+    triggers: null,
+    rumble: null,
+    polling: null,
+    grade: "Incomplete",
+  };
+}
+
+/**
+ * Apply new test results to a report and re-grade it
+ */
+export function updateControllerReport(
+  report: ControllerTestReport,
+  results: Partial<ControllerTestResults>
+): ControllerTestReport {
+  const next = { ...report, ...results, updatedAt: Date.now() };
+  return { ...next, grade: gradeReport(next) };
+}
+
+/**
+ * Render a report as a standalone HTML page sized for printing
+ */
+export function reportToHtml(report: ControllerTestReport): string {
+  const { buttons, drift, circularity, triggers, rumble, polling } = report;
+  const sections: string[] = [];
+
+  sections.push(`<h2>Buttons ${verdict(buttons?.pass)}</h2>`);
+  if (buttons) {
+    sections.push(
+      `<table>${buttons.items
+        .map((item) =>
+          row(
+            item.label,
+            item.status === "verified"
+              ? `<span class="pass">Verified</span>`
+              : item.status === "broken"
+              ? `<span class="fail">Broken</span>`
+              : `<span class="muted">Untested</span>`
+          )
+        )
+        .join("")}</table>`
+    );
+  }
+
+  sections.push(`<h2>Stick Drift ${verdict(drift?.pass)}</h2>`);
+  if (drift) {
+    sections.push(
+      `<table><tr><th></th><td>Offset</td><td>Jitter</td><td>Max dev.</td><td>Deadzone</td></tr>${(
+        [
+          ["Left stick", drift.left],
+          ["Right stick", drift.right],
+        ] as const
+      )
+        .map(
+          ([label, s]) =>
+            `<tr><th>${label} ${verdict(s.pass)}</th><td>${num(
+              s.offset
+            )}</td><td>${num(s.jitter)}</td><td>${num(
+              s.maxDeviation
+            )}</td><td>${num(s.suggestedDeadzone, 2)}</td></tr>`
+        )
+        .join("")}</table>`
+    );
+  }
+
+  sections.push(`<h2>Stick Circularity ${verdict(circularity?.pass)}</h2>`);
+  if (circularity) {
+    sections.push(
+      `<table>${(
+        [
+          ["Left stick", circularity.left],
+          ["Right stick", circularity.right],
+        ] as const
+      )
+        .map(([label, s]) =>
+          row(
+            label,
+            `${verdict(s.pass)} avg. error ${(s.averageError * 100).toFixed(
+              1
+            )}%, coverage ${Math.round(s.coverage * 100)}%${
+              s.octants.some((o) => o.weak)
+                ? `, weak: ${s.octants
+                    .filter((o) => o.weak)
+                    .map((o) => o.label)
+                    .join(", ")}`
+                : ""
+            }`
+          )
+        )
+        .join("")}</table>`
+    );
+  }
+
+  sections.push(`<h2>Triggers ${verdict(triggers?.pass)}</h2>`);
+  if (triggers) {
+    sections.push(
+      `<table>${(
+        [
+          ["Left trigger", triggers.left],
+          ["Right trigger", triggers.right],
+        ] as const
+      )
+        .map(([label, t]) =>
+          row(
+            label,
+            t
+              ? `${verdict(t.pass)} max ${num(t.maxValue)}, rest ${num(
+                  t.restValue
+                )}${t.failures.length ? `, ${t.failures.join(", ")}` : ""}`
+              : `<span class="muted">Skipped</span>`
+          )
+        )
+        .join("")}</table>`
+    );
+  }
+
+  sections.push(`<h2>Rumble ${verdict(rumble?.pass)}</h2>`);
+  if (rumble) {
+    sections.push(
+      `<table>${rumble.effects
+        .map((effect) =>
+          row(
+            effect.label,
+            effect.status === "works"
+              ? `<span class="pass">Works</span>`
+              : effect.status === "failed"
+              ? `<span class="fail">Not felt</span>`
+              : effect.status === "unsupported"
+              ? `<span class="muted">Not supported</span>`
+              : `<span class="muted">Untested</span>`
+          )
+        )
+        .join("")}</table>`
+    );
+  }
+
+  if (polling) {
+    sections.push(
+      `<h2>Connection ${
+        polling.stable
+          ? `<span class="pass">STABLE</span>`
+          : `<span class="fail">UNSTABLE</span>`
+      }</h2>`,
+      `<table>${[
+        row("Report rate", `${polling.reportRateHz.toFixed(0)} Hz`),
+        row("Jitter", `${num(polling.jitterMs, 2)} ms`),
+        row("Dropped reports", String(polling.droppedFrames)),
+        row("Longest gap", `${num(polling.maxGapMs, 1)} ms`),
+      ].join("")}</table>`
+    );
+  }
+
+  return renderReportPage({
+    title: "Controller Test Report",
+    report,
+    subject: report.controller.id,
+    details: [
+      `Profile: ${report.controller.profile || "Unknown"}`,
+      `Mapping: ${report.controller.mapping || "none"}`,
+    ],
+    gradeDescription: GRADE_DESCRIPTIONS[report.grade],
+    sections,
+  });
+}
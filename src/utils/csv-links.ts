@@ -1,128 +1,204 @@
+import { fuzzyFilter } from "./fuzzy";
+import { CSVSource, getCSVSources } from "./csv-sources";
+import {
+  parseCsv,
+  parseCsvStream,
+  isBlankRecord,
+  CsvRecord,
+} from "./csv-parser";
+
 export interface CSVLink {
   id: string;
   title: string;
   url: string;
   category?: string;
   description?: string;
+  keywords?: string[];
+  // Provider icon name (e.g. "cart"), image URL or emoji
+  icon?: string;
+  // Short alias shown as a badge and matched ahead of other fields
+  shortcut?: string;
+  // Id of the CSV source the link came from
+  source?: string;
+  // Set when more than one source is enabled, for the source badge
+  sourceLabel?: string;
+}
+
+export interface CSVSkippedRow {
+  row: number; // Sheet row number (the header is row 1)
+  reason: string;
 }
 
-const CSV_URL =
-  "https://docs.google.com/spreadsheets/d/e/2PACX-1vSCj4wc4-d9BJO03Asa0FiHm3vYY2MOW7XcmKXM42kdBEoaCDxQNoqaIYBl5PSO_deooc1VnYl18bVo/pub?gid=9974464&single=true&output=csv";
+export interface CSVImportReport {
+  fetchedAt: number;
+  totalRows: number;
+  imported: number;
+  // Header columns that were recognized, in sheet order
+  columns: string[];
+  skipped: CSVSkippedRow[];
+}
+
+type CSVColumn = Exclude<keyof CSVLink, "id" | "source" | "sourceLabel">;
+
+// Accepted header names for each column (compared lowercase, without spaces)
+const COLUMN_ALIASES: Record<CSVColumn, string[]> = {
+  title: ["name", "title"],
+  url: ["url", "link", "href"],
+  category: ["category", "group"],
+  description: ["description", "desc", "notes"],
+  keywords: ["keywords", "tags"],
+  icon: ["icon"],
+  shortcut: ["shortcut", "alias"],
+};
+
+// Column order used by sheets without a header row
+const LEGACY_COLUMNS: CSVColumn[] = ["category", "title", "url", "description"];
 
 /**
- * Basic CSV row parser that supports quoted fields and commas inside quotes
+ * Map header cells to link columns; unknown headers are ignored
  */
-function parseCsvRow(row: string): string[] {
-  const out: string[] = [];
-  let current = "";
-  let inQuotes = false;
-  for (let i = 0; i < row.length; i++) {
-    const ch = row[i];
-    if (inQuotes) {
-      if (ch === '"') {
-        // Escaped quote
-        if (row[i + 1] === '"') {
-          current += '"';
-          i++;
-        } else {
-          inQuotes = false;
-        }
-      } else {
-        current += ch;
-      }
-    } else {
-      if (ch === ",") {
-        out.push(current.trim());
-        current = "";
-      } else if (ch === '"') {
-        inQuotes = true;
-      } else {
-        current += ch;
-      }
-    }
-  }
-  out.push(current.trim());
-  return out;
+function mapHeader(fields: string[]): (CSVColumn | null)[] {
+  return fields.map((cell) => {
+    const name = cell.toLowerCase().replace(/[\s_-]+/g, "");
+    const match = Object.entries(COLUMN_ALIASES).find(([, aliases]) =>
+      aliases.includes(name)
+    );
+    return match ? (match[0] as CSVColumn) : null;
+  });
 }
 
 /**
- * Parse CSV text into array of objects.
- * Handles both multi-line CSV and single-line flattened exports from Google Sheets.
- * Detects header to map columns in the order: Category, Name, URL, Description.
+ * Google Sheets occasionally serves the legacy 4-column sheet flattened
+ * onto a single line; split it back into rows
  */
-function parseCSV(csvText: string): CSVLink[] {
-  const text = (csvText || "").trim();
-  if (!text) return [];
-
-  // Normalize newlines
-  const normalized = text.replace(/\r\n?/g, "\n");
-
-  // Build rows with strict 4-column schema: Category, Name, URL, Description
-  const rows: string[][] = [];
-  const lines = normalized
-    .split("\n")
-    .map((l) => l.trim())
-    .filter(Boolean);
-
-  if (lines.length > 1) {
-    for (const line of lines) rows.push(line.split(",").map((v) => v.trim()));
-  } else {
-    const tokens = normalized.split(",").map((v) => v.trim());
-    for (let i = 0; i < tokens.length; i += 4)
-      rows.push(tokens.slice(i, i + 4));
+function unflattenRecords(records: CsvRecord[]): CsvRecord[] {
+  const width = LEGACY_COLUMNS.length;
+  if (records.length !== 1 || records[0].fields.length <= width) return records;
+  if (records[0].fields.length % width !== 0) return records;
+
+  const out: CsvRecord[] = [];
+  const { fields, line } = records[0];
+  for (let i = 0; i < fields.length; i += width) {
+    out.push({ fields: fields.slice(i, i + width), row: i / width + 1, line });
   }
+  return out;
+}
 
-  if (!rows.length) return [];
+/**
+ * Turn parsed CSV records into links, mapping columns by header name.
+ * Rows that cannot become a link are listed in the report with a reason.
+ */
+function recordsToLinks(
+  records: CsvRecord[],
+  sourceId: string
+): {
+  links: CSVLink[];
+  report: CSVImportReport;
+} {
+  const rows = unflattenRecords(records).filter((r) => !isBlankRecord(r));
+  const report: CSVImportReport = {
+    fetchedAt: Date.now(),
+    totalRows: 0,
+    imported: 0,
+    columns: [],
+    skipped: [],
+  };
+  if (!rows.length) return { links: [], report };
 
-  // Detect header by first row tokens
-  const header = rows[0].map((v) => v.toLowerCase());
-  const hasHeader =
-    header[0] === "category" &&
-    (header[1] === "name" || header[1] === "title") &&
-    header[2] === "url";
+  const headerColumns = mapHeader(rows[0].fields);
+  const hasHeader = headerColumns.includes("url");
+  const columns = hasHeader ? headerColumns : LEGACY_COLUMNS;
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+  report.columns = columns.filter((c): c is CSVColumn => c !== null);
+  report.totalRows = dataRows.length;
 
-  const startIndex = hasHeader ? 1 : 0;
   const links: CSVLink[] = [];
-  for (let i = startIndex; i < rows.length; i++) {
-    const row = rows[i];
-    // Pad to 4 columns
-    const category = (row[0] || "General").trim();
-    const title = (row[1] || `Link ${i}`).trim();
-    const url = (row[2] || "").trim();
-    const description = (row[3] || "").trim();
-    if (url.startsWith("http")) {
-      links.push({ id: `csv-link-${i}`, title, url, category, description });
+  for (const record of dataRows) {
+    if (record.error) {
+      report.skipped.push({ row: record.row, reason: record.error });
+      continue;
     }
+
+    const values: Partial<Record<CSVColumn, string>> = {};
+    columns.forEach((column, i) => {
+      const value = record.fields[i]?.trim();
+      if (column && value && !values[column]) values[column] = value;
+    });
+
+    const url = values.url || "";
+    if (!url) {
+      report.skipped.push({ row: record.row, reason: "Missing URL" });
+      continue;
+    }
+    if (!/^https?:\/\//i.test(url)) {
+      report.skipped.push({
+        row: record.row,
+        reason: `URL must start with http:// or https:// (got "${url}")`,
+      });
+      continue;
+    }
+
+    links.push({
+      id: `csv-link-${sourceId}-${record.row}`,
+      title: values.title || `Link ${record.row}`,
+      url,
+      category: values.category || "General",
+      description: values.description || "",
+      ...(values.keywords && {
+        keywords: values.keywords
+          .split(/[,;|]/)
+          .map((k) => k.trim())
+          .filter(Boolean),
+      }),
+      ...(values.icon && { icon: values.icon }),
+      ...(values.shortcut && { shortcut: values.shortcut }),
+      source: sourceId,
+    });
+  }
+
+  report.imported = links.length;
+  if (report.skipped.length) {
+    console.warn(`[CSV] Skipped rows in ${sourceId}:`, report.skipped);
   }
-  return links;
+  return { links, report };
 }
 
-const CACHE_KEY = "csvLinksCache";
-const CACHE_TIMESTAMP_KEY = "csvLinksCacheTimestamp";
-const CACHE_DURATION = 1000 * 60 * 30; // 30 minutes
+/**
+ * Parse CSV text into links plus an import report
+ */
+export function parseCSV(
+  csvText: string,
+  sourceId: string
+): {
+  links: CSVLink[];
+  report: CSVImportReport;
+} {
+  return recordsToLinks(parseCsv(csvText || ""), sourceId);
+}
+
+// Per-source storage keys, e.g. "csvLinksCache:corporate"
+const cacheKeys = (sourceId: string) => ({
+  links: `csvLinksCache:${sourceId}`,
+  timestamp: `csvLinksCacheTimestamp:${sourceId}`,
+  report: `csvLinksReport:${sourceId}`,
+});
 
 /**
- * Fetch CSV links from Google Sheets with caching
- * Returns an object with links and a flag indicating if this is initial load
+ * Fetch links from every enabled CSV source with per-source caching and
+ * merge them in source order. Returns an object with links and a flag
+ * indicating if any source had to be loaded without a cache.
  */
 export async function fetchCSVLinks(): Promise<{ links: CSVLink[]; isInitialLoad: boolean }> {
   try {
-    // Try to get cached data first
-    const result = await getCachedLinks();
-    if (result.cached) {
-      console.log("[CSV] Using cached links:", result.cached.length);
-      // Return cached data immediately, but refresh in background if expired
-      if (result.isExpired) {
-        console.log("[CSV] Cache expired, refreshing in background");
-        refreshLinksInBackground();
-      }
-      return { links: result.cached, isInitialLoad: false };
-    }
-
-    // No cache, fetch fresh data - this is initial load
-    console.log("[CSV] No cache found, fetching fresh data");
-    const links = await fetchFreshLinks();
-    return { links, isInitialLoad: true };
+    const sources = (await getCSVSources()).filter((s) => s.enabled);
+    const results = await Promise.all(sources.map(fetchSourceLinks));
+    return {
+      links: mergeSourceLinks(
+        sources,
+        results.map((r) => r.links)
+      ),
+      isInitialLoad: results.some((r) => r.isInitialLoad),
+    };
   } catch (error) {
     console.error("[CSV] Failed to fetch CSV links:", error);
     return { links: [], isInitialLoad: false };
@@ -130,57 +206,112 @@ export async function fetchCSVLinks(): Promise<{ links: CSVLink[]; isInitialLoad
 }
 
 /**
- * Get cached links if they exist
- * Returns cached links and whether they are expired
+ * Load one source from its cache, or fetch it when nothing is cached.
+ * Expired caches are returned immediately and refreshed in the background.
  */
-async function getCachedLinks(): Promise<{ cached: CSVLink[] | null; isExpired: boolean }> {
+async function fetchSourceLinks(
+  source: CSVSource
+): Promise<{ links: CSVLink[]; isInitialLoad: boolean }> {
+  const result = await getCachedLinks(source);
+  if (result.cached) {
+    console.log(`[CSV] Using cached links for ${source.id}:`, result.cached.length);
+    if (result.isExpired) {
+      console.log(`[CSV] Cache expired for ${source.id}, refreshing in background`);
+      refreshLinksInBackground(source);
+    }
+    return { links: result.cached, isInitialLoad: false };
+  }
+
+  console.log(`[CSV] No cache for ${source.id}, fetching fresh data`);
+  return { links: await fetchFreshLinks(source), isInitialLoad: true };
+}
+
+/**
+ * Merge per-source link lists, keeping the first link seen for each URL
+ */
+function mergeSourceLinks(sources: CSVSource[], lists: CSVLink[][]): CSVLink[] {
+  const seen = new Set<string>();
+  const merged: CSVLink[] = [];
+  lists.forEach((links, i) => {
+    const source = sources[i];
+    for (const link of links) {
+      const key = normalizeLinkUrl(link.url);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      merged.push({
+        ...link,
+        source: source.id,
+        sourceLabel: sources.length > 1 ? source.label : undefined,
+      });
+    }
+  });
+  return merged;
+}
+
+/**
+ * URL form used for de-duplication: lowercase host, no hash or trailing slash
+ */
+function normalizeLinkUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = "";
+    return parsed.toString().replace(/\/$/, "");
+  } catch {
+    return url.trim().replace(/\/$/, "");
+  }
+}
+
+/**
+ * Get cached links for a source if they exist
+ * Returns cached links and whether they are older than the source TTL
+ */
+async function getCachedLinks(
+  source: CSVSource
+): Promise<{ cached: CSVLink[] | null; isExpired: boolean }> {
+  const keys = cacheKeys(source.id);
   return new Promise((resolve) => {
-    chrome.storage.local.get([CACHE_KEY, CACHE_TIMESTAMP_KEY], (result) => {
+    chrome.storage.local.get([keys.links, keys.timestamp], (result) => {
       if (chrome.runtime.lastError) {
         resolve({ cached: null, isExpired: false });
         return;
       }
 
-      const cachedLinks = result[CACHE_KEY];
-      const timestamp = result[CACHE_TIMESTAMP_KEY];
+      const cachedLinks = result[keys.links];
+      const timestamp = result[keys.timestamp];
 
       if (!cachedLinks || !timestamp) {
         resolve({ cached: null, isExpired: false });
         return;
       }
 
-      // Check if cache is still valid
-      const now = Date.now();
-      const age = now - timestamp;
-
-      if (age > CACHE_DURATION) {
-        console.log("[CSV] Cache expired, but returning cached data");
-        // Return cached data but mark as expired so it refreshes in background
-        resolve({ cached: cachedLinks, isExpired: true });
-        return;
-      }
-
-      resolve({ cached: cachedLinks, isExpired: false });
+      // Return cached data even when expired so the menu renders instantly
+      const age = Date.now() - timestamp;
+      resolve({
+        cached: cachedLinks,
+        isExpired: age > source.ttlMinutes * 60 * 1000,
+      });
     });
   });
 }
 
 /**
- * Fetch fresh links and update cache
+ * Fetch fresh links for a source and update its cache
  */
-async function fetchFreshLinks(): Promise<CSVLink[]> {
+async function fetchFreshLinks(source: CSVSource): Promise<CSVLink[]> {
   try {
     // Try direct fetch first (works in popup context)
     try {
-      const response = await fetch(CSV_URL);
-      if (response.ok) {
-        const data = await response.text();
-        console.log("[CSV] Fetched data:", data.substring(0, 200)); // Debug
-        const links = parseCSV(data);
-        console.log("[CSV] Parsed links:", links); // Debug
+      const response = await fetch(source.url);
+      if (response.ok && response.body) {
+        // Parse rows as they stream in
+        const { links, report } = recordsToLinks(
+          await parseCsvStream(response.body),
+          source.id
+        );
+        console.log(`[CSV] Parsed links for ${source.id}:`, links.length, report); // Debug
 
         // Cache the results
-        await cacheLinks(links);
+        await cacheLinks(source.id, links, report);
         return links;
       }
     } catch (fetchError) {
@@ -193,7 +324,7 @@ async function fetchFreshLinks(): Promise<CSVLink[]> {
     // Fallback: Use background script to fetch
     return new Promise((resolve) => {
       chrome.runtime.sendMessage(
-        { action: "FETCH_CSV_LINKS", url: CSV_URL },
+        { action: "FETCH_CSV_LINKS", url: source.url },
         async (response) => {
           if (chrome.runtime.lastError) {
             console.error(
@@ -205,11 +336,11 @@ async function fetchFreshLinks(): Promise<CSVLink[]> {
           }
 
           if (response?.success && response?.data) {
-            const links = parseCSV(response.data);
-            console.log("[CSV] Parsed links from background:", links); // Debug
+            const { links, report } = parseCSV(response.data, source.id);
+            console.log(`[CSV] Parsed links for ${source.id} from background:`, links.length, report); // Debug
 
             // Cache the results
-            await cacheLinks(links);
+            await cacheLinks(source.id, links, report);
             resolve(links);
           } else {
             console.log("[CSV] No data from background:", response);
@@ -225,14 +356,20 @@ async function fetchFreshLinks(): Promise<CSVLink[]> {
 }
 
 /**
- * Cache links in chrome.storage.local
+ * Cache a source's links and import report in chrome.storage.local
  */
-async function cacheLinks(links: CSVLink[]): Promise<void> {
+async function cacheLinks(
+  sourceId: string,
+  links: CSVLink[],
+  report: CSVImportReport
+): Promise<void> {
+  const keys = cacheKeys(sourceId);
   return new Promise((resolve) => {
     chrome.storage.local.set(
       {
-        [CACHE_KEY]: links,
-        [CACHE_TIMESTAMP_KEY]: Date.now(),
+        [keys.links]: links,
+        [keys.timestamp]: Date.now(),
+        [keys.report]: report,
       },
       () => {
         if (chrome.runtime.lastError) {
@@ -241,7 +378,7 @@ async function cacheLinks(links: CSVLink[]): Promise<void> {
             chrome.runtime.lastError
           );
         } else {
-          console.log("[CSV] Links cached successfully");
+          console.log(`[CSV] Links cached successfully for ${sourceId}`);
         }
         resolve();
       }
@@ -250,33 +387,63 @@ async function cacheLinks(links: CSVLink[]): Promise<void> {
 }
 
 /**
- * Refresh links in the background without waiting
+ * Re-fetch a source now, bypassing its cache
  */
-function refreshLinksInBackground(): void {
+export async function refreshCSVLinks(source: CSVSource): Promise<CSVLink[]> {
+  return fetchFreshLinks(source);
+}
+
+/**
+ * Drop a source's cached links and report (e.g. after its URL changes
+ * or it is deleted)
+ */
+export async function clearCSVCache(sourceId: string): Promise<void> {
+  const keys = cacheKeys(sourceId);
+  return new Promise((resolve) => {
+    chrome.storage.local.remove([keys.links, keys.timestamp, keys.report], () =>
+      resolve()
+    );
+  });
+}
+
+/**
+ * Get the report from a source's most recent import, if any
+ */
+export async function getCSVImportReport(
+  sourceId: string
+): Promise<CSVImportReport | null> {
+  const keys = cacheKeys(sourceId);
+  return new Promise((resolve) => {
+    chrome.storage.local.get([keys.report], (result) => {
+      if (chrome.runtime.lastError) {
+        resolve(null);
+        return;
+      }
+      resolve(result[keys.report] || null);
+    });
+  });
+}
+
+/**
+ * Refresh a source in the background without waiting
+ */
+function refreshLinksInBackground(source: CSVSource): void {
   // Fire and forget - don't await
-  fetchFreshLinks().catch((error) => {
+  fetchFreshLinks(source).catch((error) => {
     console.error("[CSV] Background refresh failed:", error);
   });
 }
 
 /**
- * Filter CSV links by search query
+ * Filter CSV links by fuzzy search query, best matches first
  */
 export function filterCSVLinks(links: CSVLink[], query: string): CSVLink[] {
-  if (!query.trim()) return links;
-
-  const lowerQuery = query.toLowerCase();
-  return links.filter((link) => {
-    const title = link.title?.toLowerCase() || "";
-    const category = link.category?.toLowerCase() || "";
-    const description = link.description?.toLowerCase() || "";
-    const url = link.url?.toLowerCase() || "";
-
-    return (
-      title.includes(lowerQuery) ||
-      category.includes(lowerQuery) ||
-      description.includes(lowerQuery) ||
-      url.includes(lowerQuery)
-    );
-  });
+  return fuzzyFilter(links, query, (link) => ({
+    shortcut: { text: link.shortcut, weight: 1.2 },
+    title: { text: link.title },
+    keywords: { text: link.keywords?.join(" "), weight: 0.9 },
+    category: { text: link.category, weight: 0.8 },
+    description: { text: link.description, weight: 0.6 },
+    url: { text: link.url, weight: 0.7 },
+  })).map((hit) => hit.item);
 }
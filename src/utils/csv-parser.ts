@@ -0,0 +1,180 @@
+/**
+ * Streaming RFC 4180 CSV parser.
+ * Fields may be quoted; quoted fields can contain commas, line breaks and
+ * doubled quotes (""). CRLF, LF and lone CR all end a record. Input can be
+ * pushed in arbitrary chunks, so records split across network reads are
+ * reassembled correctly.
+ */
+
+export interface CsvRecord {
+  fields: string[];
+  // 1-based record number (matches the spreadsheet row number)
+  row: number;
+  // 1-based physical line the record starts on
+  line: number;
+  // Set when the record had malformed quoting; fields are best effort
+  error?: string;
+}
+
+type State =
+  | "fieldStart" // Beginning of a field
+  | "unquoted" // Inside an unquoted field
+  | "quoted" // Inside a quoted field
+  | "quoteInQuoted"; // Saw a quote inside a quoted field (end or escape)
+
+export class CsvParser {
+  private state: State = "fieldStart";
+  private field = "";
+  private fields: string[] = [];
+  private row = 1;
+  private line = 1;
+  private recordLine = 1;
+  private error: string | undefined;
+  // A record ended on CR; skip the LF that may follow (even in the next chunk)
+  private pendingCR = false;
+  // Previous character was CR, so a following LF is the same line break
+  private lastCR = false;
+
+  /**
+   * Feed the next chunk of text and return the records it completed
+   */
+  push(chunk: string): CsvRecord[] {
+    const records: CsvRecord[] = [];
+    for (let i = 0; i < chunk.length; i++) {
+      const ch = chunk[i];
+
+      if (this.pendingCR) {
+        this.pendingCR = false;
+        if (ch === "\n") continue;
+      }
+
+      switch (this.state) {
+        case "fieldStart":
+          if (ch === '"') {
+            this.state = "quoted";
+          } else if (ch === ",") {
+            this.endField();
+          } else if (ch === "\r" || ch === "\n") {
+            this.endRecord(records, ch);
+          } else {
+            this.field += ch;
+            this.state = "unquoted";
+          }
+          break;
+
+        case "unquoted":
+          if (ch === ",") {
+            this.endField();
+          } else if (ch === "\r" || ch === "\n") {
+            this.endRecord(records, ch);
+          } else {
+            if (ch === '"') this.error ??= "Unexpected quote in unquoted field";
+            this.field += ch;
+          }
+          break;
+
+        case "quoted":
+          if (ch === '"') {
+            this.state = "quoteInQuoted";
+          } else {
+            if (ch === "\r" || (ch === "\n" && !this.lastCR)) this.line++;
+            this.field += ch;
+          }
+          break;
+
+        case "quoteInQuoted":
+          if (ch === '"') {
+            this.field += '"';
+            this.state = "quoted";
+          } else if (ch === ",") {
+            this.endField();
+          } else if (ch === "\r" || ch === "\n") {
+            this.endRecord(records, ch);
+          } else {
+            // Text after a closing quote: keep it, but flag the row
+            this.error ??= "Unexpected text after closing quote";
+            this.field += ch;
+            this.state = "unquoted";
+          }
+          break;
+      }
+      this.lastCR = ch === "\r";
+    }
+    return records;
+  }
+
+  /**
+   * Flush the final record once all input has been pushed
+   */
+  end(): CsvRecord[] {
+    const records: CsvRecord[] = [];
+    if (this.state === "quoted") {
+      this.error ??= "Unterminated quoted field";
+    }
+    if (this.state !== "fieldStart" || this.fields.length > 0) {
+      this.endField();
+      records.push(this.takeRecord());
+    }
+    return records;
+  }
+
+  private endField() {
+    this.fields.push(this.field);
+    this.field = "";
+    this.state = "fieldStart";
+  }
+
+  private endRecord(records: CsvRecord[], terminator: string) {
+    this.endField();
+    records.push(this.takeRecord());
+    if (terminator === "\r") this.pendingCR = true;
+    this.line++;
+    this.recordLine = this.line;
+  }
+
+  private takeRecord(): CsvRecord {
+    const record: CsvRecord = {
+      fields: this.fields,
+      row: this.row++,
+      line: this.recordLine,
+    };
+    if (this.error) record.error = this.error;
+    this.fields = [];
+    this.error = undefined;
+    return record;
+  }
+}
+
+/**
+ * Parse a complete CSV document
+ */
+export function parseCsv(text: string): CsvRecord[] {
+  const parser = new CsvParser();
+  return [...parser.push(text), ...parser.end()];
+}
+
+/**
+ * Parse a CSV byte stream (e.g. a fetch response body) as it arrives
+ */
+export async function parseCsvStream(
+  stream: ReadableStream<Uint8Array>
+): Promise<CsvRecord[]> {
+  const parser = new CsvParser();
+  const decoder = new TextDecoder();
+  const reader = stream.getReader();
+  const records: CsvRecord[] = [];
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    records.push(...parser.push(decoder.decode(value, { stream: true })));
+  }
+  records.push(...parser.push(decoder.decode()), ...parser.end());
+  return records;
+}
+
+/**
+ * True when a record has no content (blank line or only empty fields)
+ */
+export function isBlankRecord(record: CsvRecord): boolean {
+  return record.fields.every((f) => !f.trim());
+}
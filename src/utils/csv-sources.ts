@@ -0,0 +1,105 @@
+/**
+ * Quick Link CSV sources. Each source is a published sheet with its own
+ * cache; enabled sources are merged in list order, so a source higher in
+ * the list wins when two sheets contain the same URL.
+ */
+export interface CSVSource {
+  id: string;
+  label: string;
+  url: string;
+  enabled: boolean;
+  ttlMinutes: number;
+}
+
+export const CSV_SOURCES_KEY = "csvLinkSources";
+
+export const DEFAULT_CSV_TTL_MINUTES = 30;
+
+export const DEFAULT_CSV_SOURCES: CSVSource[] = [
+  {
+    id: "corporate",
+    label: "Corporate",
+    url: "https://docs.google.com/spreadsheets/d/e/2PACX-1vSCj4wc4-d9BJO03Asa0FiHm3vYY2MOW7XcmKXM42kdBEoaCDxQNoqaIYBl5PSO_deooc1VnYl18bVo/pub?gid=9974464&single=true&output=csv",
+    enabled: true,
+    ttlMinutes: DEFAULT_CSV_TTL_MINUTES,
+  },
+];
+
+/**
+ * Get CSV sources from sync storage, falling back to the corporate sheet
+ * until the user saves their own list
+ */
+export async function getCSVSources(): Promise<CSVSource[]> {
+  return new Promise((resolve) => {
+    chrome.storage.sync.get([CSV_SOURCES_KEY], (result) => {
+      if (chrome.runtime.lastError) {
+        console.error(
+          "[CSV] Error loading CSV sources:",
+          chrome.runtime.lastError
+        );
+        resolve(DEFAULT_CSV_SOURCES);
+        return;
+      }
+      const stored = result[CSV_SOURCES_KEY];
+      resolve(Array.isArray(stored) ? stored : DEFAULT_CSV_SOURCES);
+    });
+  });
+}
+
+/**
+ * Persist CSV sources to sync storage
+ */
+export async function saveCSVSources(sources: CSVSource[]): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.sync.set({ [CSV_SOURCES_KEY]: sources }, () => {
+      if (chrome.runtime.lastError) {
+        console.error(
+          "[CSV] Failed to save CSV sources:",
+          chrome.runtime.lastError
+        );
+      }
+      resolve();
+    });
+  });
+}
+
+/**
+ * Subscribe to source changes made from another extension page.
+ * Returns an unsubscribe function.
+ */
+export function onCSVSourcesChanged(
+  callback: (sources: CSVSource[]) => void
+): () => void {
+  const listener = (
+    changes: Record<string, { newValue?: unknown }>,
+    area: string
+  ) => {
+    if (area !== "sync" || !changes[CSV_SOURCES_KEY]) return;
+    const next = changes[CSV_SOURCES_KEY].newValue;
+    callback(Array.isArray(next) ? next : DEFAULT_CSV_SOURCES);
+  };
+  chrome.storage.onChanged.addListener(listener);
+  return () => chrome.storage.onChanged.removeListener(listener);
+}
+
+/**
+ * Validate a sheet URL. Returns an error message, or null when valid.
+ */
+export function validateCSVSourceUrl(url: string): string | null {
+  const value = url.trim();
+  if (!value) return "Sheet URL is required";
+  try {
+    const parsed = new URL(value);
+    if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+      return "URL must start with http:// or https://";
+    }
+  } catch {
+    return "Enter a valid URL";
+  }
+  return null;
+}
+
+export function createCSVSourceId(): string {
+  const random = Math.random().toString(36).slice(2, 8);
+  return `source-${Date.now().toString(36)}-${random}`;
+}
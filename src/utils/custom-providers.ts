@@ -0,0 +1,121 @@
+/**
+ * Serializable search provider definition stored in chrome.storage.sync.
+ * Icons are stored as keys into `providerIcons` (SearchProviders.tsx) since
+ * React components cannot be persisted.
+ */
+export interface CustomProvider {
+  id: string;
+  name: string;
+  trigger: string[];
+  searchUrl: string;
+  color: string;
+  icon: string;
+}
+
+export const CUSTOM_PROVIDERS_KEY = "customSearchProviders";
+
+/**
+ * Get user-defined search providers from sync storage
+ */
+export async function getCustomProviders(): Promise<CustomProvider[]> {
+  return new Promise((resolve) => {
+    chrome.storage.sync.get([CUSTOM_PROVIDERS_KEY], (result) => {
+      if (chrome.runtime.lastError) {
+        console.error(
+          "[Providers] Error loading custom providers:",
+          chrome.runtime.lastError
+        );
+        resolve([]);
+        return;
+      }
+
+      const stored = result[CUSTOM_PROVIDERS_KEY];
+      resolve(Array.isArray(stored) ? stored.filter(isValidProvider) : []);
+    });
+  });
+}
+
+/**
+ * Persist user-defined search providers to sync storage
+ */
+export async function saveCustomProviders(
+  providers: CustomProvider[]
+): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.sync.set({ [CUSTOM_PROVIDERS_KEY]: providers }, () => {
+      if (chrome.runtime.lastError) {
+        console.error(
+          "[Providers] Failed to save custom providers:",
+          chrome.runtime.lastError
+        );
+      }
+      resolve();
+    });
+  });
+}
+
+/**
+ * Subscribe to custom provider changes made from another extension page.
+ * Returns an unsubscribe function.
+ */
+export function onCustomProvidersChanged(
+  callback: (providers: CustomProvider[]) => void
+): () => void {
+  const listener = (
+    changes: Record<string, { newValue?: unknown }>,
+    area: string
+  ) => {
+    if (area !== "sync" || !changes[CUSTOM_PROVIDERS_KEY]) return;
+    const next = changes[CUSTOM_PROVIDERS_KEY].newValue;
+    callback(Array.isArray(next) ? next.filter(isValidProvider) : []);
+  };
+  chrome.storage.onChanged.addListener(listener);
+  return () => chrome.storage.onChanged.removeListener(listener);
+}
+
+/**
+ * Validate a provider URL template. Returns an error message or null.
+ */
+export function validateSearchUrl(searchUrl: string): string | null {
+  const value = searchUrl.trim();
+  if (!value) return "URL is required";
+  if (!value.includes("{query}")) return "URL must contain {query}";
+  try {
+    const url = new URL(value.replace("{query}", "test"));
+    if (url.protocol !== "https:" && url.protocol !== "http:") {
+      return "URL must start with http:// or https://";
+    }
+  } catch (_) {
+    return "URL is not valid";
+  }
+  return null;
+}
+
+/**
+ * Split a comma/space separated trigger string into normalized trigger words
+ */
+export function parseTriggers(input: string): string[] {
+  const seen = new Set<string>();
+  for (const part of input.split(/[\s,]+/)) {
+    const trigger = part.trim().toLowerCase();
+    if (trigger) seen.add(trigger);
+  }
+  return Array.from(seen);
+}
+
+export function createCustomProviderId(): string {
+  return `custom-${Date.now().toString(36)}-${Math.random()
+    .toString(36)
+    .slice(2, 6)}`;
+}
+
+function isValidProvider(value: unknown): value is CustomProvider {
+  if (!value || typeof value !== "object") return false;
+  const provider = value as Record<string, unknown>;
+  return (
+    typeof provider.id === "string" &&
+    typeof provider.name === "string" &&
+    Array.isArray(provider.trigger) &&
+    typeof provider.searchUrl === "string"
+  );
+}
@@ -0,0 +1,203 @@
+/**
+ * Shared pieces of the intake test reports (controllers, keyboards, ...):
+ * grades, the local report history and the printable HTML page. Each
+ * device kind keeps its own history key and decides its own grade.
+ */
+
+export type ReportGrade = "A" | "B" | "C" | "F" | "Incomplete";
+
+export interface DeviceReport {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  grade: ReportGrade;
+}
+
+const MAX_HISTORY = 100;
+
+export function createReportId(): string {
+  // The random part keeps ids unique across windows saving in the same ms
+  const random = Math.random().toString(36).slice(2, 8);
+  return `report-${Date.now().toString(36)}-${random}`;
+}
+
+/**
+ * Id and creation time for a new report; kept while the test runs so each
+ * autosave replaces the previous one
+ */
+export function newReportBase(): Pick<DeviceReport, "id" | "createdAt"> {
+  return { id: createReportId(), createdAt: Date.now() };
+}
+
+/**
+ * Load saved reports for a history key, newest first
+ */
+export async function getReports<T extends DeviceReport>(
+  key: string
+): Promise<T[]> {
+  return new Promise((resolve) => {
+    chrome.storage.local.get([key], (result) => {
+      if (chrome.runtime.lastError) {
+        console.error(
+          "[Report] Error loading test history:",
+          chrome.runtime.lastError
+        );
+        resolve([]);
+        return;
+      }
+      resolve(result[key] || []);
+    });
+  });
+}
+
+async function saveReports<T extends DeviceReport>(
+  key: string,
+  reports: T[]
+): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.local.set({ [key]: reports.slice(0, MAX_HISTORY) }, () => {
+      if (chrome.runtime.lastError) {
+        console.error(
+          "[Report] Failed to save test history:",
+          chrome.runtime.lastError
+        );
+      }
+      resolve();
+    });
+  });
+}
+
+/**
+ * Add a report to a history, replacing an earlier save of the same report
+ */
+export async function saveReport<T extends DeviceReport>(
+  key: string,
+  report: T
+): Promise<void> {
+  const reports = await getReports<T>(key);
+  await saveReports(key, [
+    report,
+    ...reports.filter((r) => r.id !== report.id),
+  ]);
+}
+
+/**
+ * Remove a report from a history
+ */
+export async function deleteReport(key: string, id: string): Promise<void> {
+  const reports = await getReports(key);
+  await saveReports(key, reports.filter((r) => r.id !== id));
+}
+
+/**
+ * Subscribe to changes of one history. Returns an unsubscribe function.
+ */
+export function onReportsChanged<T extends DeviceReport>(
+  key: string,
+  callback: (reports: T[]) => void
+): () => void {
+  const listener = (
+    changes: Record<string, { newValue?: unknown }>,
+    area: string
+  ) => {
+    if (area !== "local" || !changes[key]) return;
+    const next = changes[key].newValue;
+    callback(Array.isArray(next) ? next : []);
+  };
+  chrome.storage.onChanged.addListener(listener);
+  return () => chrome.storage.onChanged.removeListener(listener);
+}
+
+export function reportToJson(report: DeviceReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+/**
+ * File name like "keyboard-report-2024-05-01-lx3k2a.json"
+ */
+export function reportFileName(
+  kind: string,
+  report: DeviceReport,
+  extension: "json" | "html"
+): string {
+  const date = new Date(report.createdAt).toISOString().slice(0, 10);
+  return `${kind}-report-${date}-${report.id.replace(
+    "report-",
+    ""
+  )}.${extension}`;
+}
+
+export const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+export const verdict = (pass: boolean | undefined) =>
+  pass === undefined
+    ? `<span class="muted">Not run</span>`
+    : pass
+    ? `<span class="pass">PASS</span>`
+    : `<span class="fail">FAIL</span>`;
+
+export const num = (value: number, digits = 3) => value.toFixed(digits);
+
+export function row(label: string, value: string): string {
+  return `<tr><th>${escapeHtml(label)}</th><td>${value}</td></tr>`;
+}
+
+/**
+ * Wrap report sections in a standalone HTML page sized for printing.
+ * `details` lines are plain text and get escaped; `sections` are HTML.
+ */
+export function renderReportPage({
+  title,
+  report,
+  subject,
+  details,
+  gradeDescription,
+  sections,
+}: {
+  title: string;
+  report: DeviceReport;
+  subject: string;
+  details: string[];
+  gradeDescription: string;
+  sections: string[];
+}): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font: 13px/1.4 system-ui, sans-serif; color: #111; margin: 24px; }
+  h1 { font-size: 18px; margin: 0 0 4px; }
+  h2 { font-size: 14px; margin: 16px 0 4px; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { text-align: left; padding: 2px 8px 2px 0; border-bottom: 1px solid #eee; }
+  th { font-weight: 500; }
+  .grade { font-size: 32px; font-weight: 700; float: right; }
+  .muted { color: #888; }
+  .pass { color: #15803d; font-weight: 600; }
+  .fail { color: #dc2626; font-weight: 600; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<div class="grade">${report.grade}</div>
+<h1>${escapeHtml(title)}</h1>
+<div>${escapeHtml(subject)}</div>
+<div class="muted">${[
+    ...details,
+    `Tested ${new Date(report.updatedAt).toLocaleString()}`,
+    `Report ${report.id}`,
+  ]
+    .map(escapeHtml)
+    .join(" &middot; ")}</div>
+<div class="muted">${escapeHtml(gradeDescription)}</div>
+${sections.join("\n")}
+</body>
+</html>`;
+}
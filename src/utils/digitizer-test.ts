@@ -0,0 +1,307 @@
+/**
+ * Touchscreen and stylus digitizer test. The screen is split into a grid;
+ * the tester paints it with a finger or pen and any cell that never
+ * registers a pointer is a possible dead zone. Pointer capabilities
+ * (multi-touch, pressure, tilt) are recorded alongside.
+ */
+import {
+  DeviceReport,
+  ReportGrade,
+  createReportId,
+  escapeHtml,
+  renderReportPage,
+  row,
+  verdict,
+} from "./device-report";
+
+export interface DigitizerGrid {
+  columns: number;
+  rows: number;
+  // Cell size in CSS pixels
+  cellSize: number;
+}
+
+export interface GridCell {
+  column: number;
+  row: number;
+}
+
+export interface PointerStats {
+  // Pointer types seen ("touch", "pen"); mouse input is ignored
+  pointerTypes: string[];
+  // Most touch points down at the same time
+  maxTouchPoints: number;
+  pressureSupported: boolean;
+  minPressure: number;
+  maxPressure: number;
+  tiltSupported: boolean;
+  // Largest tilt seen from vertical, in degrees
+  maxTilt: number;
+}
+
+export interface DigitizerDeviceInfo {
+  // Model or SKU typed by the tester
+  name: string;
+  // Screen size in CSS pixels
+  width: number;
+  height: number;
+  pixelRatio: number;
+  // navigator.maxTouchPoints as reported by the browser
+  reportedTouchPoints: number;
+}
+
+export interface DigitizerTestReport extends DeviceReport {
+  device: DigitizerDeviceInfo;
+  grid: DigitizerGrid;
+  coverage: number;
+  uncovered: GridCell[];
+  pointers: PointerStats;
+}
+
+export const DIGITIZER_HISTORY_KEY = "digitizerTestHistory";
+
+export const DIGITIZER_CELL_SIZE = 48;
+// Up to this many unregistered cells are treated as spots to recheck
+// rather than a dead zone
+export const MAX_MISSED_CELLS = 3;
+
+export const DIGITIZER_GRADE_DESCRIPTIONS: Record<ReportGrade, string> = {
+  A: "Whole screen registers touch or pen",
+  B: "Whole screen registers; multi-touch not checked",
+  C: "A few cells never registered (possible dead spots)",
+  F: "Dead zones: areas of the screen never registered",
+  Incomplete: "Painting not finished yet",
+};
+
+export function createDigitizerGrid(
+  width: number,
+  height: number,
+  cellSize = DIGITIZER_CELL_SIZE
+): DigitizerGrid {
+  return {
+    columns: Math.max(1, Math.ceil(width / cellSize)),
+    rows: Math.max(1, Math.ceil(height / cellSize)),
+    cellSize,
+  };
+}
+
+export function createPointerStats(): PointerStats {
+  return {
+    pointerTypes: [],
+    maxTouchPoints: 0,
+    pressureSupported: false,
+    minPressure: 1,
+    maxPressure: 0,
+    tiltSupported: false,
+    maxTilt: 0,
+  };
+}
+
+/**
+ * Mark every cell along the segment from (x0, y0) to (x1, y1), so fast
+ * strokes don't skip cells between pointer events. Calls `onCover` with
+ * the index of each newly covered cell and returns how many there were.
+ */
+export function coverSegment(
+  covered: Uint8Array,
+  grid: DigitizerGrid,
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number,
+  onCover?: (cell: number) => void
+): number {
+  const steps = Math.max(
+    1,
+    Math.ceil(Math.hypot(x1 - x0, y1 - y0) / (grid.cellSize / 2))
+  );
+  let added = 0;
+  for (let i = 0; i <= steps; i++) {
+    const x = x0 + ((x1 - x0) * i) / steps;
+    const y = y0 + ((y1 - y0) * i) / steps;
+    const column = Math.floor(x / grid.cellSize);
+    const row = Math.floor(y / grid.cellSize);
+    if (column < 0 || row < 0 || column >= grid.columns || row >= grid.rows) {
+      continue;
+    }
+    const cell = row * grid.columns + column;
+    if (!covered[cell]) {
+      covered[cell] = 1;
+      added++;
+      onCover?.(cell);
+    }
+  }
+  return added;
+}
+
+/**
+ * Fold one pointer event into the stats. `activeTouches` is the number of
+ * touch pointers currently down, including this one.
+ */
+export function recordPointer(
+  stats: PointerStats,
+  e: Pick<PointerEvent, "pointerType" | "pressure" | "tiltX" | "tiltY">,
+  activeTouches: number
+): PointerStats {
+  const pointerTypes = stats.pointerTypes.includes(e.pointerType)
+    ? stats.pointerTypes
+    : [...stats.pointerTypes, e.pointerType];
+  // Hardware without pressure reports 0.5 while pressed
+  const hasPressure =
+    e.pointerType !== "mouse" && e.pressure > 0 && e.pressure !== 0.5;
+  const tilt = Math.max(Math.abs(e.tiltX || 0), Math.abs(e.tiltY || 0));
+
+  return {
+    pointerTypes,
+    maxTouchPoints: Math.max(stats.maxTouchPoints, activeTouches),
+    pressureSupported: stats.pressureSupported || hasPressure,
+    minPressure: hasPressure
+      ? Math.min(stats.minPressure, e.pressure)
+      : stats.minPressure,
+    maxPressure: hasPressure
+      ? Math.max(stats.maxPressure, e.pressure)
+      : stats.maxPressure,
+    tiltSupported: stats.tiltSupported || (e.pointerType === "pen" && tilt > 0),
+    maxTilt:
+      e.pointerType === "pen" ? Math.max(stats.maxTilt, tilt) : stats.maxTilt,
+  };
+}
+
+export function uncoveredCells(
+  covered: Uint8Array,
+  grid: DigitizerGrid
+): GridCell[] {
+  const cells: GridCell[] = [];
+  covered.forEach((value, i) => {
+    if (!value) {
+      cells.push({
+        column: i % grid.columns,
+        row: Math.floor(i / grid.columns),
+      });
+    }
+  });
+  return cells;
+}
+
+export function gradeDigitizerReport(
+  report: Pick<DigitizerTestReport, "uncovered" | "pointers" | "device">
+): ReportGrade {
+  // A mouse or touchpad never reaches the digitizer, so it can't pass
+  const digitizerUsed = report.pointers.pointerTypes.some(
+    (type) => type === "touch" || type === "pen"
+  );
+  if (!digitizerUsed) return "Incomplete";
+  if (report.uncovered.length > MAX_MISSED_CELLS) return "F";
+  if (report.uncovered.length) return "C";
+  if (
+    report.device.reportedTouchPoints > 1 &&
+    report.pointers.maxTouchPoints < 2
+  ) {
+    return "B";
+  }
+  return "A";
+}
+
+/**
+ * Build the report when the tester finishes painting. `base` carries the
+ * id and creation time of an earlier finish of the same session.
+ */
+export function buildDigitizerReport(
+  base: Pick<DigitizerTestReport, "id" | "createdAt"> | null,
+  device: DigitizerDeviceInfo,
+  grid: DigitizerGrid,
+  covered: Uint8Array,
+  pointers: PointerStats
+): DigitizerTestReport {
+  const uncovered = uncoveredCells(covered, grid);
+  const now = Date.now();
+  const report = {
+    id: base?.id ?? createReportId(),
+    createdAt: base?.createdAt ?? now,
+    updatedAt: now,
+    device,
+    grid,
+    coverage: 1 - uncovered.length / covered.length,
+    uncovered,
+    pointers,
+  };
+  return { ...report, grade: gradeDigitizerReport(report) };
+}
+
+export function describeDigitizerDevice(device: DigitizerDeviceInfo): string {
+  return device.name || `${device.width}×${device.height} touchscreen`;
+}
+
+export const cellLabel = (cell: GridCell) =>
+  `column ${cell.column + 1}, row ${cell.row + 1}`;
+
+/**
+ * Render a report as a standalone HTML page sized for printing. Includes
+ * a small map of the grid with dead cells in red.
+ */
+export function digitizerReportToHtml(report: DigitizerTestReport): string {
+  const { grid, pointers } = report;
+  const map = `<svg viewBox="0 0 ${grid.columns} ${
+    grid.rows
+  }" width="320" style="border:1px solid #ccc">${report.uncovered
+    .map(
+      (c) =>
+        `<rect x="${c.column}" y="${c.row}" width="1" height="1" fill="#dc2626" />`
+    )
+    .join("")}</svg>`;
+
+  const sections = [
+    `<h2>Coverage ${verdict(!report.uncovered.length)}</h2>`,
+    `<table>${[
+      row(
+        "Registered",
+        `${Math.round(report.coverage * 100)}% of ${
+          grid.columns * grid.rows
+        } cells`
+      ),
+      ...(report.uncovered.length
+        ? [
+            row(
+              "Possible dead zones",
+              escapeHtml(report.uncovered.map(cellLabel).join("; "))
+            ),
+          ]
+        : []),
+    ].join("")}</table>`,
+    map,
+    `<h2>Pointer</h2>`,
+    `<table>${[
+      row("Input types", escapeHtml(pointers.pointerTypes.join(", "))),
+      row(
+        "Multi-touch",
+        `${pointers.maxTouchPoints} at once (device reports ${report.device.reportedTouchPoints})`
+      ),
+      row(
+        "Pressure",
+        pointers.pressureSupported
+          ? `Yes (${pointers.minPressure.toFixed(
+              2
+            )}–${pointers.maxPressure.toFixed(2)})`
+          : "Not detected"
+      ),
+      row(
+        "Pen tilt",
+        pointers.tiltSupported
+          ? `Yes (up to ${Math.round(pointers.maxTilt)}°)`
+          : "Not detected"
+      ),
+    ].join("")}</table>`,
+  ];
+
+  return renderReportPage({
+    title: "Digitizer Test Report",
+    report,
+    subject: describeDigitizerDevice(report.device),
+    details: [
+      `Screen: ${report.device.width}×${report.device.height} CSS px`,
+      `Grid: ${grid.columns}×${grid.rows}`,
+    ],
+    gradeDescription: DIGITIZER_GRADE_DESCRIPTIONS[report.grade],
+    sections,
+  });
+}
@@ -0,0 +1,234 @@
+/**
+ * Display intake test: fullscreen solid colors, gradients and a uniformity
+ * grid for spotting dead/stuck pixels, backlight bleed and banding. Defects
+ * marked by the tester are kept in a graded report in the shared format.
+ */
+import {
+  DeviceReport,
+  ReportGrade,
+  createReportId,
+  escapeHtml,
+  renderReportPage,
+  row,
+  verdict,
+} from "./device-report";
+
+export type DisplayPatternKind = "solid" | "gradient" | "banding" | "grid";
+
+export interface DisplayPattern {
+  id: string;
+  name: string;
+  kind: DisplayPatternKind;
+  // CSS background for solid and gradient patterns
+  background?: string;
+  // What to look for on this pattern
+  hint: string;
+}
+
+export type DefectType = "pixel" | "bleed" | "uniformity";
+
+export interface DisplayDefect {
+  // Position as a fraction of the screen, so markers survive a resize
+  x: number;
+  y: number;
+  // Position in physical pixels
+  px: number;
+  py: number;
+  type: DefectType;
+  pattern: string;
+}
+
+export interface DisplayInfo {
+  // Model or SKU typed by the tester
+  name: string;
+  // Physical resolution (CSS pixels x devicePixelRatio)
+  width: number;
+  height: number;
+  pixelRatio: number;
+}
+
+export interface DisplayTestReport extends DeviceReport {
+  display: DisplayInfo;
+  // Pattern ids shown at least once
+  viewed: string[];
+  defects: DisplayDefect[];
+}
+
+export const DISPLAY_HISTORY_KEY = "displayTestHistory";
+
+// This many dead or stuck pixels fails a panel outright
+export const MAX_PIXEL_DEFECTS = 3;
+
+export const DEFECT_LABELS: Record<DefectType, string> = {
+  pixel: "Dead/stuck pixel",
+  bleed: "Backlight bleed",
+  uniformity: "Uniformity / tint",
+};
+
+export const DISPLAY_PATTERNS: DisplayPattern[] = [
+  {
+    id: "white",
+    name: "White",
+    kind: "solid",
+    background: "#ffffff",
+    hint: "Dark specks are dead pixels",
+  },
+  {
+    id: "black",
+    name: "Black",
+    kind: "solid",
+    background: "#000000",
+    hint: "Bright dots are stuck pixels; glowing edges or corners are backlight bleed (dim the room)",
+  },
+  {
+    id: "red",
+    name: "Red",
+    kind: "solid",
+    background: "#ff0000",
+    hint: "Black or off-color dots are dead red subpixels",
+  },
+  {
+    id: "green",
+    name: "Green",
+    kind: "solid",
+    background: "#00ff00",
+    hint: "Black or off-color dots are dead green subpixels",
+  },
+  {
+    id: "blue",
+    name: "Blue",
+    kind: "solid",
+    background: "#0000ff",
+    hint: "Black or off-color dots are dead blue subpixels",
+  },
+  {
+    id: "grid",
+    name: "Uniformity Grid",
+    kind: "grid",
+    background: "#808080",
+    hint: "Every cell should be the same gray; look for darker corners, clouding or tint",
+  },
+  {
+    id: "gray-gradient",
+    name: "Gray Gradient",
+    kind: "gradient",
+    background: "linear-gradient(to right, #000000, #ffffff)",
+    hint: "Should be smooth; visible steps or color casts mean banding",
+  },
+  {
+    id: "rgb-gradient",
+    name: "Color Gradients",
+    kind: "gradient",
+    background:
+      "linear-gradient(to right, #000000, #ff0000) top / 100% 33.4% no-repeat, linear-gradient(to right, #000000, #00ff00) center / 100% 33.4% no-repeat, linear-gradient(to right, #000000, #0000ff) bottom / 100% 33.4% no-repeat",
+    hint: "Each band should fade evenly without steps",
+  },
+  {
+    id: "banding",
+    name: "Banding Steps",
+    kind: "banding",
+    hint: "All 32 steps should be distinct; merged neighbors mean crushed shadows or highlights",
+  },
+];
+
+export const DISPLAY_GRADE_DESCRIPTIONS: Record<ReportGrade, string> = {
+  A: "Every pattern checked, no defects",
+  B: "Patterns checked so far look clean",
+  C: "Minor defects (a few pixels, bleed or uniformity)",
+  F: `${MAX_PIXEL_DEFECTS} or more dead/stuck pixels`,
+  Incomplete: "No patterns checked yet",
+};
+
+export function gradeDisplayReport(
+  report: Pick<DisplayTestReport, "viewed" | "defects">
+): ReportGrade {
+  if (!report.viewed.length) return "Incomplete";
+  const pixels = report.defects.filter((d) => d.type === "pixel").length;
+  if (pixels >= MAX_PIXEL_DEFECTS) return "F";
+  if (report.defects.length) return "C";
+  if (report.viewed.length < DISPLAY_PATTERNS.length) return "B";
+  return "A";
+}
+
+/**
+ * Build the report for the current session. `base` carries the id and
+ * creation time of the report being updated.
+ */
+export function buildDisplayReport(
+  base: Pick<DisplayTestReport, "id" | "createdAt"> | null,
+  display: DisplayInfo,
+  viewed: string[],
+  defects: DisplayDefect[]
+): DisplayTestReport {
+  const now = Date.now();
+  const report = {
+    id: base?.id ?? createReportId(),
+    createdAt: base?.createdAt ?? now,
+    updatedAt: now,
+    display,
+    viewed,
+    defects,
+  };
+  return { ...report, grade: gradeDisplayReport(report) };
+}
+
+export function describeDisplay(display: DisplayInfo): string {
+  return display.name || `${display.width}×${display.height} display`;
+}
+
+/**
+ * Render a report as a standalone HTML page sized for printing
+ */
+export function displayReportToHtml(report: DisplayTestReport): string {
+  const patternName = (id: string) =>
+    DISPLAY_PATTERNS.find((p) => p.id === id)?.name ?? id;
+  const missed = DISPLAY_PATTERNS.filter((p) => !report.viewed.includes(p.id));
+
+  const sections = [
+    `<h2>Patterns</h2>`,
+    `<table>${[
+      row("Checked", `${report.viewed.length} of ${DISPLAY_PATTERNS.length}`),
+      ...(missed.length
+        ? [
+            row(
+              "Not checked",
+              escapeHtml(missed.map((p) => p.name).join(", "))
+            ),
+          ]
+        : []),
+    ].join("")}</table>`,
+    `<h2>Defects ${verdict(
+      report.viewed.length ? !report.defects.length : undefined
+    )}</h2>`,
+  ];
+  if (report.defects.length) {
+    sections.push(
+      `<table>${report.defects
+        .map((defect, i) =>
+          row(
+            `${i + 1}. ${DEFECT_LABELS[defect.type]}`,
+            escapeHtml(
+              `at ${defect.px}, ${defect.py} px (${Math.round(
+                defect.x * 100
+              )}% across, ${Math.round(defect.y * 100)}% down) on ${patternName(
+                defect.pattern
+              )}`
+            )
+          )
+        )
+        .join("")}</table>`
+    );
+  }
+
+  return renderReportPage({
+    title: "Display Test Report",
+    report,
+    subject: describeDisplay(report.display),
+    details: [
+      `Resolution: ${report.display.width}×${report.display.height}`,
+      `Pixel ratio: ${report.display.pixelRatio}`,
+    ],
+    gradeDescription: DISPLAY_GRADE_DESCRIPTIONS[report.grade],
+    sections,
+  });
+}
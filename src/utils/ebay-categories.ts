@@ -0,0 +1,399 @@
+import { fuzzyFilter } from "./fuzzy";
+import { FrecencyData, frecencyScore } from "./frecency";
+
+/**
+ * Local copy of the eBay category tree for offline CMDK lookups.
+ * The background downloads the tree (eBay Taxonomy API format) and keeps a
+ * flattened copy in IndexedDB; the palette searches it in memory.
+ */
+
+export interface EbayCategory {
+  id: string;
+  name: string;
+  // Ancestor names from the top level down, not including this category
+  ancestors: string[];
+  leaf: boolean;
+}
+
+export interface EbayCategoryMeta {
+  treeVersion: string;
+  fetchedAt: number;
+  count: number;
+}
+
+export interface EbayCategoryHit {
+  category: EbayCategory;
+  // Full breadcrumb, e.g. "Video Games & Consoles > Video Games"
+  path: string;
+}
+
+// Search-ready copy of one category, built once per loaded tree
+interface IndexedCategory {
+  category: EbayCategory;
+  path: string;
+  lowerName: string;
+  lowerPath: string;
+  // Word starts and camel humps of the name, e.g. "ps4c" for
+  // "PlayStation 4 Consoles"
+  initials: string;
+}
+
+export interface EbayCategoryIndex {
+  entries: IndexedCategory[];
+}
+
+// Node shape returned by the Taxonomy API getCategoryTree call
+interface CategoryTreeNode {
+  category: { categoryId: string; categoryName: string };
+  leafCategoryTreeNode?: boolean;
+  childCategoryTreeNodes?: CategoryTreeNode[];
+}
+
+interface CategoryTree {
+  categoryTreeVersion: string;
+  rootCategoryNode: CategoryTreeNode;
+}
+
+// Served by the PayMore web app, see docs/EBAY_CATEGORY_TREE.md
+export const EBAY_CATEGORY_TREE_URL =
+  "https://paymore-extension.vercel.app/api/ebay-category-tree";
+// Per-query lookup used until the tree has been downloaded
+export const EBAY_CATEGORY_SEARCH_URL =
+  "https://paymore-extension.vercel.app/api/ebay-categories";
+// Small stand-in tree bundled with the extension for dev builds and tests
+export const EBAY_CATEGORY_SAMPLE_PATH = "/ebay-category-tree.json";
+// chrome.storage.local key that points the download at another endpoint
+export const EBAY_CATEGORY_URL_OVERRIDE_KEY = "ebayCategoryTreeUrl";
+export const EBAY_CATEGORY_REFRESH_ALARM = "refreshEbayCategories";
+export const EBAY_CATEGORY_REFRESH_MINUTES = 60 * 24 * 7;
+
+const META_KEY = "ebayCategoryTreeMeta";
+const DB_NAME = "ebayCategories";
+const DB_VERSION = 1;
+const STORE = "categories";
+const PATH_SEPARATOR = " > ";
+// Fuzzy points added per point of frecency, capped so a recent but poor
+// match can't outrank a much better one
+const RECENT_WEIGHT = 0.2;
+const MAX_RECENT_BONUS = 20;
+// Trees up to this size are fuzzy scored in full, typo retries included.
+// Larger ones are narrowed with cheap string checks first.
+const FULL_SCAN_LIMIT = 2000;
+// Most categories fuzzy scored per search on a large tree
+const MAX_SCORED = 300;
+
+export const frecencyKeyForEbayCategory = (id: string) => `ebay-cat:${id}`;
+
+export const ebayCategoryPath = (category: EbayCategory) =>
+  [...category.ancestors, category.name].join(PATH_SEPARATOR);
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: "id" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Flatten a category tree into a list, skipping the unnamed root node
+ */
+export function flattenCategoryTree(tree: CategoryTree): EbayCategory[] {
+  const categories: EbayCategory[] = [];
+  const stack: { node: CategoryTreeNode; ancestors: string[] }[] = (
+    tree.rootCategoryNode.childCategoryTreeNodes || []
+  ).map((node) => ({ node, ancestors: [] }));
+
+  while (stack.length) {
+    const { node, ancestors } = stack.pop()!;
+    const children = node.childCategoryTreeNodes || [];
+    categories.push({
+      id: node.category.categoryId,
+      name: node.category.categoryName,
+      ancestors,
+      leaf: node.leafCategoryTreeNode ?? !children.length,
+    });
+    const childAncestors = [...ancestors, node.category.categoryName];
+    for (const child of children) {
+      stack.push({ node: child, ancestors: childAncestors });
+    }
+  }
+  return categories;
+}
+
+/**
+ * Replace the stored categories in a single transaction so readers never
+ * see a half-written tree
+ */
+async function storeCategories(categories: EbayCategory[]): Promise<void> {
+  const db = await openDb();
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORE, "readwrite");
+      const store = tx.objectStore(STORE);
+      store.clear();
+      for (const category of categories) store.put(category);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Load every stored category. Returns an empty list before the first
+ * download has finished.
+ */
+export async function getEbayCategories(): Promise<EbayCategory[]> {
+  try {
+    const db = await openDb();
+    try {
+      return await new Promise((resolve, reject) => {
+        const request = db
+          .transaction(STORE, "readonly")
+          .objectStore(STORE)
+          .getAll();
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    } finally {
+      db.close();
+    }
+  } catch (error) {
+    console.error("[eBay Categories] Failed to read cache:", error);
+    return [];
+  }
+}
+
+export async function getEbayCategoryMeta(): Promise<EbayCategoryMeta | null> {
+  return new Promise((resolve) => {
+    chrome.storage.local.get([META_KEY], (result) => {
+      resolve((result[META_KEY] as EbayCategoryMeta) || null);
+    });
+  });
+}
+
+function saveEbayCategoryMeta(meta: EbayCategoryMeta): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.local.set({ [META_KEY]: meta }, () => resolve());
+  });
+}
+
+/**
+ * Endpoint to download from: the storage override if set, the bundled
+ * stand-in under `wxt` dev, otherwise the production API
+ */
+export async function getEbayCategoryTreeUrl(): Promise<string> {
+  const override = await new Promise<unknown>((resolve) => {
+    chrome.storage.local.get([EBAY_CATEGORY_URL_OVERRIDE_KEY], (result) =>
+      resolve(result[EBAY_CATEGORY_URL_OVERRIDE_KEY])
+    );
+  });
+  if (typeof override === "string" && override) return override;
+  if (import.meta.env.COMMAND === "serve") {
+    return chrome.runtime.getURL(EBAY_CATEGORY_SAMPLE_PATH);
+  }
+  return EBAY_CATEGORY_TREE_URL;
+}
+
+/**
+ * Download the category tree and store it. The tree is only re-flattened
+ * when its version changed, unless forced.
+ */
+export async function refreshEbayCategories(
+  force = false
+): Promise<EbayCategoryMeta> {
+  const response = await fetch(await getEbayCategoryTreeUrl());
+  if (!response.ok) {
+    throw new Error(`Category tree request failed: ${response.status}`);
+  }
+  const tree = (await response.json()) as CategoryTree;
+  if (!tree?.rootCategoryNode) {
+    throw new Error("Category tree response has no root node");
+  }
+
+  const previous = await getEbayCategoryMeta();
+  const treeVersion = String(tree.categoryTreeVersion ?? "");
+  let count = previous?.count ?? 0;
+  if (force || !previous || previous.treeVersion !== treeVersion) {
+    const categories = flattenCategoryTree(tree);
+    await storeCategories(categories);
+    count = categories.length;
+  }
+
+  const meta: EbayCategoryMeta = { treeVersion, fetchedAt: Date.now(), count };
+  await saveEbayCategoryMeta(meta);
+  return meta;
+}
+
+/**
+ * Whether the stored tree is missing or older than the refresh interval
+ */
+export function isEbayCategoryCacheStale(
+  meta: EbayCategoryMeta | null,
+  now = Date.now()
+): boolean {
+  if (!meta || !meta.count) return true;
+  return now - meta.fetchedAt > EBAY_CATEGORY_REFRESH_MINUTES * 60 * 1000;
+}
+
+function nameInitials(name: string): string {
+  let initials = "";
+  for (let i = 0; i < name.length; i++) {
+    const ch = name[i];
+    const prev = name[i - 1];
+    const wordStart = i === 0 || !/[a-z0-9]/i.test(prev);
+    const hump = /[a-z]/.test(prev) && /[A-Z]/.test(ch);
+    if ((wordStart && /[a-z0-9]/i.test(ch)) || hump) initials += ch;
+  }
+  return initials.toLowerCase();
+}
+
+function isSubsequence(query: string, text: string): boolean {
+  let i = 0;
+  for (let j = 0; j < text.length && i < query.length; j++) {
+    if (text[j] === query[i]) i++;
+  }
+  return i === query.length;
+}
+
+/**
+ * Precompute lowercase names, breadcrumbs and initials so each search only
+ * does cheap string checks before fuzzy scoring
+ */
+export function buildEbayCategoryIndex(
+  categories: EbayCategory[]
+): EbayCategoryIndex {
+  return {
+    entries: categories.map((category) => {
+      const path = ebayCategoryPath(category);
+      return {
+        category,
+        path,
+        lowerName: category.name.toLowerCase(),
+        lowerPath: path.toLowerCase(),
+        initials: nameInitials(category.name),
+      };
+    }),
+  };
+}
+
+/**
+ * Pick at most MAX_SCORED entries worth fuzzy scoring, best bets first:
+ * recent or word-start name hits, then mid-word name hits, then names and
+ * breadcrumbs that merely contain the query in order
+ */
+function narrowCandidates(
+  entries: IndexedCategory[],
+  query: string,
+  frecency: FrecencyData
+): IndexedCategory[] {
+  const needle = query.trim().toLowerCase();
+  const compact = needle.replace(/\s+/g, "");
+  const tiers: IndexedCategory[][] = [[], [], [], []];
+  for (const entry of entries) {
+    if (!isSubsequence(compact, entry.lowerPath)) continue;
+    const { lowerName } = entry;
+    if (
+      frecency[frecencyKeyForEbayCategory(entry.category.id)] ||
+      lowerName.startsWith(needle) ||
+      lowerName.includes(` ${needle}`) ||
+      entry.initials.startsWith(compact)
+    ) {
+      tiers[0].push(entry);
+    } else if (lowerName.includes(needle)) {
+      tiers[1].push(entry);
+    } else if (isSubsequence(compact, lowerName)) {
+      tiers[2].push(entry);
+    } else {
+      tiers[3].push(entry);
+    }
+  }
+  return tiers.flat().slice(0, MAX_SCORED);
+}
+
+/**
+ * Fuzzy search categories by name, then by breadcrumb. Listings can only
+ * go in leaf categories, so parents are left out unless asked for.
+ * Recently used categories get a bonus from their frecency score.
+ */
+export function searchEbayCategories(
+  index: EbayCategoryIndex,
+  query: string,
+  frecency: FrecencyData = {},
+  { leafOnly = true, limit = 3 } = {}
+): EbayCategoryHit[] {
+  if (!query.trim()) return [];
+  const entries = leafOnly
+    ? index.entries.filter((e) => e.category.leaf)
+    : index.entries;
+  const large = entries.length > FULL_SCAN_LIMIT;
+  const candidates = large
+    ? narrowCandidates(entries, query, frecency)
+    : entries;
+  const hits = fuzzyFilter(
+    candidates,
+    query,
+    (entry) => ({
+      name: { text: entry.category.name },
+      path: { text: entry.path, weight: 0.7 },
+    }),
+    { typos: !large }
+  );
+
+  const now = Date.now();
+  return hits
+    .map((hit) => {
+      const recent = frecencyScore(
+        frecency[frecencyKeyForEbayCategory(hit.item.category.id)],
+        now
+      );
+      return {
+        hit,
+        score: hit.score + Math.min(recent * RECENT_WEIGHT, MAX_RECENT_BONUS),
+      };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ hit }) => ({
+      category: hit.item.category,
+      path: hit.item.path,
+    }));
+}
+
+/**
+ * Ask the category API for suggestions when nothing is cached yet, e.g.
+ * before the first download or when the tree endpoint is unreachable
+ */
+export async function lookupEbayCategoriesOnline(
+  query: string
+): Promise<EbayCategoryHit[]> {
+  try {
+    const res = await fetch(
+      `${EBAY_CATEGORY_SEARCH_URL}?q=${encodeURIComponent(query)}`
+    );
+    const data = await res.json().catch(() => ({}));
+    const suggestions: {
+      categoryId: string;
+      categoryName: string;
+      categoryPath: string;
+    }[] = data.suggestions || [];
+    return suggestions.slice(0, 1).map((s) => ({
+      category: {
+        id: s.categoryId,
+        name: s.categoryName,
+        ancestors: s.categoryPath.split(PATH_SEPARATOR).slice(0, -1),
+        leaf: true,
+      },
+      path: s.categoryPath,
+    }));
+  } catch (err) {
+    console.error("Failed to fetch eBay suggestions:", err);
+    return [];
+  }
+}
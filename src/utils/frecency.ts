@@ -0,0 +1,157 @@
+/**
+ * Frecency (frequency + recency) tracking for CMDK selections.
+ * Each selection is recorded under a stable key (normalized URL for anything
+ * that opens a page, `tool:<id>` for tools) so the same link accumulates
+ * usage no matter which source it was picked from.
+ */
+
+export interface FrecencyEntry {
+  count: number;
+  lastUsed: number;
+  // Most recent selection timestamps, newest first (capped at MAX_VISITS)
+  visits: number[];
+}
+
+export type FrecencyData = Record<string, FrecencyEntry>;
+
+const STORAGE_KEY = "cmdkFrecency";
+const MAX_VISITS = 10;
+const MAX_ENTRIES = 500;
+const DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * Build a frecency key for a URL. Hash fragments and trailing slashes are
+ * ignored so the same page maps to one key.
+ */
+export function frecencyKeyForUrl(url: string): string {
+  try {
+    const u = new URL(url);
+    u.hash = "";
+    return `url:${u.href.replace(/\/$/, "")}`;
+  } catch (_) {
+    return `url:${url.trim()}`;
+  }
+}
+
+/**
+ * Load recorded selections from chrome.storage.local
+ */
+export async function getFrecencyData(): Promise<FrecencyData> {
+  return new Promise((resolve) => {
+    chrome.storage.local.get([STORAGE_KEY], (result) => {
+      if (chrome.runtime.lastError) {
+        console.error(
+          "[Frecency] Error loading usage data:",
+          chrome.runtime.lastError
+        );
+        resolve({});
+        return;
+      }
+      resolve(result[STORAGE_KEY] || {});
+    });
+  });
+}
+
+/**
+ * Record that an item was selected and persist the updated data
+ */
+export async function recordSelection(key: string): Promise<FrecencyData> {
+  const data = await getFrecencyData();
+  const now = Date.now();
+  const prev = data[key];
+
+  data[key] = {
+    count: (prev?.count || 0) + 1,
+    lastUsed: now,
+    visits: [now, ...(prev?.visits || [])].slice(0, MAX_VISITS),
+  };
+
+  const pruned = pruneEntries(data, now);
+  return new Promise((resolve) => {
+    chrome.storage.local.set({ [STORAGE_KEY]: pruned }, () => {
+      if (chrome.runtime.lastError) {
+        console.error(
+          "[Frecency] Failed to save usage data:",
+          chrome.runtime.lastError
+        );
+      }
+      resolve(pruned);
+    });
+  });
+}
+
+/**
+ * Clear all recorded selections
+ */
+export async function clearFrecencyData(): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.local.remove(STORAGE_KEY, () => resolve());
+  });
+}
+
+/**
+ * Weight a single selection by how long ago it happened
+ */
+function recencyWeight(age: number): number {
+  if (age <= 4 * DAY) return 100;
+  if (age <= 14 * DAY) return 70;
+  if (age <= 31 * DAY) return 50;
+  if (age <= 90 * DAY) return 30;
+  return 10;
+}
+
+/**
+ * Score an entry: the average recency weight of its sampled visits,
+ * scaled by the total number of selections.
+ */
+export function frecencyScore(
+  entry: FrecencyEntry | undefined,
+  now = Date.now()
+): number {
+  if (!entry || !entry.count) return 0;
+  const visits = entry.visits?.length ? entry.visits : [entry.lastUsed];
+  const total = visits.reduce((sum, t) => sum + recencyWeight(now - t), 0);
+  return (entry.count * total) / visits.length;
+}
+
+/**
+ * Return the highest-scoring items that have been selected before.
+ * Items sharing a key are collapsed to the first occurrence, so callers
+ * should pass items in order of preferred source.
+ */
+export function rankByFrecency<T>(
+  items: T[],
+  keyOf: (item: T) => string,
+  data: FrecencyData,
+  limit = 5
+): T[] {
+  const now = Date.now();
+  const seen = new Set<string>();
+  const scored: { item: T; score: number }[] = [];
+
+  for (const item of items) {
+    const key = keyOf(item);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    const score = frecencyScore(data[key], now);
+    if (score > 0) scored.push({ item, score });
+  }
+
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map((s) => s.item);
+}
+
+/**
+ * Keep storage bounded by dropping the lowest-scoring entries
+ */
+function pruneEntries(data: FrecencyData, now: number): FrecencyData {
+  const keys = Object.keys(data);
+  if (keys.length <= MAX_ENTRIES) return data;
+
+  const kept = keys
+    .sort((a, b) => frecencyScore(data[b], now) - frecencyScore(data[a], now))
+    .slice(0, MAX_ENTRIES);
+  return Object.fromEntries(kept.map((k) => [k, data[k]]));
+}
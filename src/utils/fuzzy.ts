@@ -0,0 +1,217 @@
+/**
+ * Fuzzy matching shared by the CMDK sources.
+ * Query characters must appear in order in the text; the best alignment is
+ * found with dynamic programming so word starts, acronyms ("ebsld" for
+ * "eBay sold") and consecutive runs score higher than scattered hits.
+ * Queries of 4+ characters also tolerate one typo by retrying with each
+ * single character dropped.
+ */
+
+/** Half-open character range [start, end) in the matched text */
+export type MatchRange = [number, number];
+
+export interface FuzzyResult {
+  score: number;
+  ranges: MatchRange[];
+}
+
+export interface FuzzyHit<T> {
+  item: T;
+  score: number;
+}
+
+export interface FuzzyField {
+  text: string | undefined;
+  weight?: number;
+}
+
+export interface FuzzyOptions {
+  // Retry longer queries with one character dropped. Costs a full
+  // alignment per query character, so large lists turn it off.
+  typos?: boolean;
+}
+
+const SCORE_MATCH = 1;
+const BONUS_BOUNDARY = 8;
+const BONUS_CAMEL = 7;
+const BONUS_DIGIT = 5;
+const BONUS_FIRST_CHAR = 4;
+const BONUS_CONSECUTIVE = 4;
+const PENALTY_GAP_OPEN = 3;
+const PENALTY_GAP_EXTEND = 0.5;
+const PENALTY_LEADING = 0.25;
+const PENALTY_TYPO = 6;
+const TYPO_MIN_QUERY = 4;
+
+const SEPARATORS = /[\s\-_./:?&=#+,()[\]|]/;
+
+/**
+ * Bonus for matching at position i, based on the character before it
+ */
+function positionBonus(text: string, i: number): number {
+  if (i === 0) return BONUS_BOUNDARY + BONUS_FIRST_CHAR;
+  const prev = text[i - 1];
+  const ch = text[i];
+  if (SEPARATORS.test(prev)) return BONUS_BOUNDARY;
+  if (/[a-z]/.test(prev) && /[A-Z]/.test(ch)) return BONUS_CAMEL;
+  if (/[a-zA-Z]/.test(prev) !== /[a-zA-Z]/.test(ch) && /\d/.test(prev + ch))
+    return BONUS_DIGIT;
+  return 0;
+}
+
+/**
+ * Find the best in-order alignment of query in text.
+ * Returns null when the query is not a subsequence of the text.
+ */
+function alignSubsequence(query: string, text: string): FuzzyResult | null {
+  const n = query.length;
+  const m = text.length;
+  if (!n) return { score: 0, ranges: [] };
+  if (n > m) return null;
+
+  const lowerText = text.toLowerCase();
+  const NONE = -Infinity;
+  // score[i * m + j]: best score with query[i] matched at text[j]
+  const score = new Float64Array(n * m).fill(NONE);
+  const prev = new Int32Array(n * m).fill(-1);
+
+  const bonuses = new Float64Array(m);
+  for (let j = 0; j < m; j++) bonuses[j] = positionBonus(text, j);
+
+  for (let j = 0; j < m; j++) {
+    if (lowerText[j] === query[0]) {
+      score[j] = SCORE_MATCH + bonuses[j] - Math.min(j, 20) * PENALTY_LEADING;
+    }
+  }
+
+  for (let i = 1; i < n; i++) {
+    const row = i * m;
+    const prevRow = (i - 1) * m;
+    // Best predecessor that leaves a gap before j: max over k < j - 1
+    let gapBest = NONE;
+    let gapIdx = -1;
+    for (let j = i; j < m; j++) {
+      if (j >= 2) {
+        const candidate = score[prevRow + j - 2] - PENALTY_GAP_OPEN;
+        gapBest -= PENALTY_GAP_EXTEND;
+        if (candidate > gapBest) {
+          gapBest = candidate;
+          gapIdx = j - 2;
+        }
+      }
+      if (lowerText[j] !== query[i]) continue;
+
+      const consecutive = score[prevRow + j - 1] + BONUS_CONSECUTIVE;
+      let best = NONE;
+      let from = -1;
+      if (consecutive > best) {
+        best = consecutive;
+        from = j - 1;
+      }
+      if (gapBest > best) {
+        best = gapBest;
+        from = gapIdx;
+      }
+      if (best === NONE) continue;
+      score[row + j] = best + SCORE_MATCH + bonuses[j];
+      prev[row + j] = from;
+    }
+  }
+
+  const lastRow = (n - 1) * m;
+  let bestEnd = -1;
+  let bestScore = NONE;
+  for (let j = n - 1; j < m; j++) {
+    if (score[lastRow + j] > bestScore) {
+      bestScore = score[lastRow + j];
+      bestEnd = j;
+    }
+  }
+  if (bestEnd < 0) return null;
+
+  const positions: number[] = [];
+  for (let i = n - 1, j = bestEnd; i >= 0 && j >= 0; i--) {
+    positions.push(j);
+    j = prev[i * m + j];
+  }
+  positions.reverse();
+
+  return { score: bestScore, ranges: toRanges(positions) };
+}
+
+function toRanges(positions: number[]): MatchRange[] {
+  const ranges: MatchRange[] = [];
+  for (const p of positions) {
+    const last = ranges[ranges.length - 1];
+    if (last && last[1] === p) last[1] = p + 1;
+    else ranges.push([p, p + 1]);
+  }
+  return ranges;
+}
+
+function normalizeQuery(query: string): string {
+  return query.toLowerCase().replace(/\s+/g, "");
+}
+
+/**
+ * Score how well query matches text. Returns null when it does not match
+ * well enough to be shown.
+ */
+export function fuzzyMatch(
+  query: string,
+  text: string,
+  { typos = true }: FuzzyOptions = {}
+): FuzzyResult | null {
+  const q = normalizeQuery(query);
+  if (!q || !text) return null;
+
+  const threshold = q.length;
+  const exact = alignSubsequence(q, text);
+  if (exact && exact.score >= threshold) return exact;
+  // A contiguous substring always matches, even mid-word ("a" in
+  // "banana"), keeping its low score so word-start matches rank first
+  const needle = query.trim().toLowerCase();
+  if (exact && text.toLowerCase().includes(needle)) return exact;
+  if (!typos || q.length < TYPO_MIN_QUERY) return null;
+
+  // One-typo tolerance: retry with each query character dropped
+  let best: FuzzyResult | null = null;
+  for (let i = 0; i < q.length; i++) {
+    const reduced = q.slice(0, i) + q.slice(i + 1);
+    const result = alignSubsequence(reduced, text);
+    if (result && (!best || result.score > best.score)) best = result;
+  }
+  if (!best) return null;
+  best.score -= PENALTY_TYPO;
+  return best.score >= threshold - 1 ? best : null;
+}
+
+/**
+ * Match query against several fields of each item, keep items where any
+ * field matches, and sort by weighted best-field score (stable for ties).
+ * An empty query returns every item in its original order.
+ */
+export function fuzzyFilter<T>(
+  items: T[],
+  query: string,
+  fields: (item: T) => Record<string, FuzzyField>,
+  options: FuzzyOptions = {}
+): FuzzyHit<T>[] {
+  if (!normalizeQuery(query)) {
+    return items.map((item) => ({ item, score: 0 }));
+  }
+
+  const hits: FuzzyHit<T>[] = [];
+  for (const item of items) {
+    let bestScore = -Infinity;
+    for (const field of Object.values(fields(item))) {
+      if (!field.text) continue;
+      const result = fuzzyMatch(query, field.text, options);
+      if (!result) continue;
+      bestScore = Math.max(bestScore, result.score * (field.weight ?? 1));
+    }
+    if (bestScore > -Infinity) hits.push({ item, score: bestScore });
+  }
+
+  return hits.sort((a, b) => b.score - a.score);
+}
@@ -1,3 +1,5 @@
+import { fuzzyFilter } from "./fuzzy";
+
 export interface HistoryItem {
   id: string;
   title: string;
@@ -43,19 +45,14 @@ export async function getRecentHistory(maxResults = 50): Promise<HistoryItem[]>
 }
 
 /**
- * Filter history items by search query
+ * Filter history items by fuzzy search query, best matches first
  */
 export function filterHistory(
   historyItems: HistoryItem[],
   query: string
 ): HistoryItem[] {
-  if (!query.trim()) return historyItems;
-
-  const lowerQuery = query.toLowerCase();
-  return historyItems.filter((item) => {
-    const title = item.title?.toLowerCase() || "";
-    const url = item.url?.toLowerCase() || "";
-
-    return title.includes(lowerQuery) || url.includes(lowerQuery);
-  });
+  return fuzzyFilter(historyItems, query, (item) => ({
+    title: { text: item.title },
+    url: { text: item.url, weight: 0.7 },
+  })).map((hit) => hit.item);
 }
@@ -0,0 +1,126 @@
+/**
+ * Product identifier recognition and check-digit math for barcodes typed
+ * or scanned into the extension.
+ */
+
+export type BarcodeType = "upc-a" | "ean-13" | "isbn-10" | "isbn-13";
+
+export type IdentifierType = BarcodeType | "asin" | "imei";
+
+export interface BarcodeMatch {
+  type: BarcodeType;
+  // Digits only, without hyphens or spaces
+  code: string;
+  valid: boolean;
+}
+
+export interface IdentifierMatch {
+  type: IdentifierType;
+  code: string;
+  // null for identifiers without a check digit (ASIN)
+  valid: boolean | null;
+}
+
+export const BARCODE_LABELS: Record<BarcodeType, string> = {
+  "upc-a": "UPC-A",
+  "ean-13": "EAN-13",
+  "isbn-10": "ISBN-10",
+  "isbn-13": "ISBN-13",
+};
+
+export const IDENTIFIER_LABELS: Record<IdentifierType, string> = {
+  ...BARCODE_LABELS,
+  asin: "ASIN",
+  imei: "IMEI",
+};
+
+/**
+ * GTIN check digit (UPC-A, EAN-8/13, ISBN-13) for the digits before it:
+ * weights alternate 3 and 1 starting from the rightmost digit
+ */
+export function gtinCheckDigit(body: string): number {
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    const digit = Number(body[body.length - 1 - i]);
+    sum += i % 2 === 0 ? digit * 3 : digit;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+export function isValidGtin(code: string): boolean {
+  if (!/^\d{8,14}$/.test(code)) return false;
+  return gtinCheckDigit(code.slice(0, -1)) === Number(code[code.length - 1]);
+}
+
+/**
+ * ISBN-10: weighted sum (10 down to 1) divisible by 11, X standing for 10
+ */
+export function isValidIsbn10(code: string): boolean {
+  if (!/^\d{9}[\dX]$/i.test(code)) return false;
+  let sum = 0;
+  for (let i = 0; i < 10; i++) {
+    const value = /x/i.test(code[i]) ? 10 : Number(code[i]);
+    sum += value * (10 - i);
+  }
+  return sum % 11 === 0;
+}
+
+/**
+ * Luhn check (IMEI, card numbers): doubling every second digit from the
+ * right, the digit sum must be divisible by 10
+ */
+export function isValidLuhn(code: string): boolean {
+  if (!/^\d+$/.test(code)) return false;
+  let sum = 0;
+  for (let i = 0; i < code.length; i++) {
+    let digit = Number(code[code.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Recognize a UPC-A, EAN-13 or ISBN barcode. ISBN-13s are EAN-13s in the
+ * 978/979 "Bookland" range. Returns null for anything of the wrong shape.
+ */
+export function matchBarcode(input: string): BarcodeMatch | null {
+  const code = input.trim().replace(/[\s-]/g, "").toUpperCase();
+
+  if (/^\d{12}$/.test(code)) {
+    return { type: "upc-a", code, valid: isValidGtin(code) };
+  }
+  if (/^\d{13}$/.test(code)) {
+    const type = /^97[89]/.test(code) ? "isbn-13" : "ean-13";
+    return { type, code, valid: isValidGtin(code) };
+  }
+  if (/^\d{9}[\dX]$/.test(code)) {
+    return { type: "isbn-10", code, valid: isValidIsbn10(code) };
+  }
+  return null;
+}
+
+/**
+ * Recognize any supported identifier: the barcodes above, a 15-digit IMEI
+ * or an Amazon ASIN. Non-book ASINs start with B0; book ASINs are the
+ * ISBN-10 and are reported as such. Ten plain digits are usually a phone
+ * number, so they only count as an ISBN-10 when the check digit fits.
+ */
+export function classifyIdentifier(input: string): IdentifierMatch | null {
+  const code = input.trim().replace(/[\s-]/g, "").toUpperCase();
+
+  if (/^\d{15}$/.test(code)) {
+    return { type: "imei", code, valid: isValidLuhn(code) };
+  }
+  if (/^B0[A-Z0-9]{8}$/.test(code)) {
+    return { type: "asin", code, valid: null };
+  }
+  const barcode = matchBarcode(code);
+  if (barcode?.type === "isbn-10" && !barcode.valid && /^\d+$/.test(code)) {
+    return null;
+  }
+  return barcode;
+}
@@ -0,0 +1,282 @@
+/**
+ * Physical keyboard layouts for the keyboard tester. Keys are identified by
+ * KeyboardEvent.code, which names the physical position regardless of the
+ * OS language setting. Widths are in key units (1u = one letter key).
+ */
+
+export type KeyboardLayoutId = "ansi" | "iso" | "laptop";
+
+export interface KeyDef {
+  // KeyboardEvent.code; empty for gaps and keys the browser never sees (Fn)
+  code: string;
+  label: string;
+  width?: number;
+}
+
+export interface KeyboardSection {
+  id: string;
+  // Width of every row in key units
+  width: number;
+  rows: KeyDef[][];
+}
+
+export interface KeyboardLayout {
+  id: KeyboardLayoutId;
+  name: string;
+  sections: KeyboardSection[];
+}
+
+const gap = (width: number): KeyDef => ({ code: "", label: "", width });
+
+const letters = (chars: string): KeyDef[] =>
+  chars.split("").map((c) => ({ code: `Key${c}`, label: c }));
+
+const fKeys = (from: number, to: number): KeyDef[] =>
+  Array.from({ length: to - from + 1 }, (_, i) => ({
+    code: `F${from + i}`,
+    label: `F${from + i}`,
+  }));
+
+const NUMBER_ROW: KeyDef[] = [
+  { code: "Backquote", label: "`" },
+  ...Array.from({ length: 10 }, (_, i) => ({
+    code: `Digit${(i + 1) % 10}`,
+    label: String((i + 1) % 10),
+  })),
+  { code: "Minus", label: "-" },
+  { code: "Equal", label: "=" },
+  { code: "Backspace", label: "Backspace", width: 2 },
+];
+
+const FUNCTION_ROW: KeyDef[] = [
+  { code: "Escape", label: "Esc" },
+  gap(1),
+  ...fKeys(1, 4),
+  gap(0.5),
+  ...fKeys(5, 8),
+  gap(0.5),
+  ...fKeys(9, 12),
+];
+
+const BRACKETS: KeyDef[] = [
+  { code: "BracketLeft", label: "[" },
+  { code: "BracketRight", label: "]" },
+];
+
+const HOME_PUNCTUATION: KeyDef[] = [
+  { code: "Semicolon", label: ";" },
+  { code: "Quote", label: "'" },
+];
+
+const BOTTOM_PUNCTUATION: KeyDef[] = [
+  { code: "Comma", label: "," },
+  { code: "Period", label: "." },
+  { code: "Slash", label: "/" },
+];
+
+const FULL_BOTTOM_ROW: KeyDef[] = [
+  { code: "ControlLeft", label: "Ctrl", width: 1.25 },
+  { code: "MetaLeft", label: "Win", width: 1.25 },
+  { code: "AltLeft", label: "Alt", width: 1.25 },
+  { code: "Space", label: "Space", width: 6.25 },
+  { code: "AltRight", label: "Alt", width: 1.25 },
+  { code: "MetaRight", label: "Win", width: 1.25 },
+  { code: "ContextMenu", label: "Menu", width: 1.25 },
+  { code: "ControlRight", label: "Ctrl", width: 1.25 },
+];
+
+const NAVIGATION: KeyboardSection = {
+  id: "navigation",
+  width: 3,
+  rows: [
+    [
+      { code: "PrintScreen", label: "PrtSc" },
+      { code: "ScrollLock", label: "ScrLk" },
+      { code: "Pause", label: "Pause" },
+    ],
+    [
+      { code: "Insert", label: "Ins" },
+      { code: "Home", label: "Home" },
+      { code: "PageUp", label: "PgUp" },
+    ],
+    [
+      { code: "Delete", label: "Del" },
+      { code: "End", label: "End" },
+      { code: "PageDown", label: "PgDn" },
+    ],
+    [gap(3)],
+    [gap(1), { code: "ArrowUp", label: "↑" }, gap(1)],
+    [
+      { code: "ArrowLeft", label: "←" },
+      { code: "ArrowDown", label: "↓" },
+      { code: "ArrowRight", label: "→" },
+    ],
+  ],
+};
+
+// Tall keys (+ and Enter) appear on both rows they span
+const NUMPAD: KeyboardSection = {
+  id: "numpad",
+  width: 4,
+  rows: [
+    [
+      { code: "NumLock", label: "Num" },
+      { code: "NumpadDivide", label: "/" },
+      { code: "NumpadMultiply", label: "*" },
+      { code: "NumpadSubtract", label: "-" },
+    ],
+    [
+      { code: "Numpad7", label: "7" },
+      { code: "Numpad8", label: "8" },
+      { code: "Numpad9", label: "9" },
+      { code: "NumpadAdd", label: "+" },
+    ],
+    [
+      { code: "Numpad4", label: "4" },
+      { code: "Numpad5", label: "5" },
+      { code: "Numpad6", label: "6" },
+      { code: "NumpadAdd", label: "+" },
+    ],
+    [
+      { code: "Numpad1", label: "1" },
+      { code: "Numpad2", label: "2" },
+      { code: "Numpad3", label: "3" },
+      { code: "NumpadEnter", label: "Ent" },
+    ],
+    [
+      { code: "Numpad0", label: "0", width: 2 },
+      { code: "NumpadDecimal", label: "." },
+      { code: "NumpadEnter", label: "Ent" },
+    ],
+  ],
+};
+
+const ANSI_MAIN: KeyboardSection = {
+  id: "main",
+  width: 15,
+  rows: [
+    FUNCTION_ROW,
+    NUMBER_ROW,
+    [
+      { code: "Tab", label: "Tab", width: 1.5 },
+      ...letters("QWERTYUIOP"),
+      ...BRACKETS,
+      { code: "Backslash", label: "\\", width: 1.5 },
+    ],
+    [
+      { code: "CapsLock", label: "Caps", width: 1.75 },
+      ...letters("ASDFGHJKL"),
+      ...HOME_PUNCTUATION,
+      { code: "Enter", label: "Enter", width: 2.25 },
+    ],
+    [
+      { code: "ShiftLeft", label: "Shift", width: 2.25 },
+      ...letters("ZXCVBNM"),
+      ...BOTTOM_PUNCTUATION,
+      { code: "ShiftRight", label: "Shift", width: 2.75 },
+    ],
+    FULL_BOTTOM_ROW,
+  ],
+};
+
+// ISO adds the key left of Z, moves Backslash next to the tall Enter key
+const ISO_MAIN: KeyboardSection = {
+  id: "main",
+  width: 15,
+  rows: [
+    FUNCTION_ROW,
+    NUMBER_ROW,
+    [
+      { code: "Tab", label: "Tab", width: 1.5 },
+      ...letters("QWERTYUIOP"),
+      ...BRACKETS,
+      { code: "Enter", label: "Enter", width: 1.5 },
+    ],
+    [
+      { code: "CapsLock", label: "Caps", width: 1.75 },
+      ...letters("ASDFGHJKL"),
+      ...HOME_PUNCTUATION,
+      { code: "Backslash", label: "#" },
+      { code: "Enter", label: "", width: 1.25 },
+    ],
+    [
+      { code: "ShiftLeft", label: "Shift", width: 1.25 },
+      { code: "IntlBackslash", label: "\\" },
+      ...letters("ZXCVBNM"),
+      ...BOTTOM_PUNCTUATION,
+      { code: "ShiftRight", label: "Shift", width: 2.75 },
+    ],
+    FULL_BOTTOM_ROW,
+  ],
+};
+
+const LAPTOP_MAIN: KeyboardSection = {
+  id: "main",
+  width: 15,
+  rows: [
+    [
+      { code: "Escape", label: "Esc" },
+      ...fKeys(1, 12),
+      { code: "Delete", label: "Del", width: 2 },
+    ],
+    NUMBER_ROW,
+    ANSI_MAIN.rows[2],
+    ANSI_MAIN.rows[3],
+    [
+      { code: "ShiftLeft", label: "Shift", width: 2.25 },
+      ...letters("ZXCVBNM"),
+      ...BOTTOM_PUNCTUATION,
+      { code: "ShiftRight", label: "Shift", width: 1.75 },
+      { code: "ArrowUp", label: "↑" },
+    ],
+    [
+      { code: "", label: "Fn" },
+      { code: "ControlLeft", label: "Ctrl", width: 1.25 },
+      { code: "MetaLeft", label: "Win", width: 1.25 },
+      { code: "AltLeft", label: "Alt", width: 1.25 },
+      { code: "Space", label: "Space", width: 6 },
+      { code: "AltRight", label: "Alt", width: 1.25 },
+      { code: "ArrowLeft", label: "←" },
+      { code: "ArrowDown", label: "↓" },
+      { code: "ArrowRight", label: "→" },
+    ],
+  ],
+};
+
+export const KEYBOARD_LAYOUTS: KeyboardLayout[] = [
+  {
+    id: "ansi",
+    name: "ANSI (US)",
+    sections: [ANSI_MAIN, NAVIGATION, NUMPAD],
+  },
+  {
+    id: "iso",
+    name: "ISO (UK/EU)",
+    sections: [ISO_MAIN, NAVIGATION, NUMPAD],
+  },
+  {
+    id: "laptop",
+    name: "Laptop",
+    sections: [LAPTOP_MAIN],
+  },
+];
+
+export function getKeyboardLayout(id: KeyboardLayoutId): KeyboardLayout {
+  return KEYBOARD_LAYOUTS.find((l) => l.id === id) || KEYBOARD_LAYOUTS[0];
+}
+
+/**
+ * Every testable key of a layout once, in layout order. Keys drawn twice
+ * (ISO and numpad Enter) keep their first, labeled appearance.
+ */
+export function layoutKeys(layout: KeyboardLayout): KeyDef[] {
+  const seen = new Map<string, KeyDef>();
+  for (const section of layout.sections) {
+    for (const row of section.rows) {
+      for (const key of row) {
+        if (key.code && !seen.has(key.code)) seen.set(key.code, key);
+      }
+    }
+  }
+  return [...seen.values()];
+}
@@ -0,0 +1,231 @@
+/**
+ * Keyboard intake test. Tracks each physical key's presses from keydown /
+ * keyup events, flags chatter (a switch bouncing into a second keydown)
+ * and stuck keys, and builds a graded report in the shared report format.
+ */
+import {
+  DeviceReport,
+  ReportGrade,
+  createReportId,
+  escapeHtml,
+  renderReportPage,
+  row,
+  verdict,
+} from "./device-report";
+import {
+  KeyboardLayout,
+  KeyboardLayoutId,
+  layoutKeys,
+} from "./keyboard-layouts";
+
+export interface KeyRecord {
+  presses: number;
+  down: boolean;
+  downAt: number;
+  // Repeated keydowns closer together than CHATTER_MS
+  chatter: number;
+  stuck: boolean;
+}
+
+export type KeyStatus = "untested" | "ok" | "chatter" | "stuck";
+
+export interface KeyResult {
+  code: string;
+  label: string;
+  presses: number;
+  status: KeyStatus;
+}
+
+export interface KeyboardInfo {
+  layout: KeyboardLayoutId;
+  layoutName: string;
+  // Model or SKU typed by the tester
+  name: string;
+}
+
+export interface KeyboardTestReport extends DeviceReport {
+  keyboard: KeyboardInfo;
+  keys: KeyResult[];
+  // KeyboardEvent.code values, for an unambiguous list in the report
+  untested: string[];
+  stuck: string[];
+  chatter: string[];
+  // Keys pressed that the chosen layout doesn't have (media keys, wrong layout)
+  extraKeys: string[];
+}
+
+export const KEYBOARD_HISTORY_KEY = "keyboardTestHistory";
+
+// Two keydowns of the same key this close together are switch bounce; even
+// a fast double tap is several times slower
+export const CHATTER_MS = 35;
+// A key held longer than this is reported stuck
+export const STUCK_MS = 3000;
+
+export const KEYBOARD_GRADE_DESCRIPTIONS: Record<ReportGrade, string> = {
+  A: "Every key tested and working",
+  B: "Keys tested so far work",
+  C: "Chattering keys (double typing)",
+  F: "Stuck key",
+  Incomplete: "No keys pressed yet",
+};
+
+const emptyRecord = (): KeyRecord => ({
+  presses: 0,
+  down: false,
+  downAt: 0,
+  chatter: 0,
+  stuck: false,
+});
+
+/**
+ * Apply a keydown. Auto-repeat events only keep the key held; a key first
+ * seen repeating was already down when the test started.
+ */
+export function recordKeyDown(
+  record: KeyRecord | undefined,
+  now: number,
+  repeat: boolean
+): KeyRecord {
+  const prev = record || emptyRecord();
+  if (repeat) {
+    return prev.down ? prev : { ...prev, down: true, downAt: now };
+  }
+  const chattered = prev.presses > 0 && now - prev.downAt < CHATTER_MS;
+  return {
+    ...prev,
+    presses: prev.presses + 1,
+    down: true,
+    downAt: now,
+    chatter: prev.chatter + (chattered ? 1 : 0),
+  };
+}
+
+/**
+ * Apply a keyup. Some keys (PrintScreen on Windows) only ever send keyup,
+ * so a release without a keydown still counts as a press.
+ */
+export function recordKeyUp(
+  record: KeyRecord | undefined,
+  now: number
+): KeyRecord {
+  const prev = record || emptyRecord();
+  if (!prev.down) {
+    return { ...prev, presses: prev.presses + 1, downAt: now };
+  }
+  const held = now - prev.downAt;
+  return {
+    ...prev,
+    down: false,
+    stuck: prev.stuck || held >= STUCK_MS,
+  };
+}
+
+/**
+ * Flag keys held past STUCK_MS. Returns the same object when nothing
+ * changed so it can be used directly as a state updater.
+ */
+export function markStuckKeys(
+  records: Record<string, KeyRecord>,
+  now: number
+): Record<string, KeyRecord> {
+  let next = records;
+  for (const [code, record] of Object.entries(records)) {
+    if (record.down && !record.stuck && now - record.downAt >= STUCK_MS) {
+      if (next === records) next = { ...records };
+      next[code] = { ...record, stuck: true };
+    }
+  }
+  return next;
+}
+
+function keyStatus(record: KeyRecord | undefined): KeyStatus {
+  if (!record) return "untested";
+  if (record.stuck) return "stuck";
+  if (record.chatter) return "chatter";
+  return record.presses ? "ok" : "untested";
+}
+
+export function gradeKeyboardReport(
+  report: Pick<KeyboardTestReport, "keys" | "untested" | "stuck" | "chatter">
+): ReportGrade {
+  if (report.untested.length === report.keys.length) return "Incomplete";
+  if (report.stuck.length) return "F";
+  if (report.chatter.length) return "C";
+  if (report.untested.length) return "B";
+  return "A";
+}
+
+/**
+ * Build the report for the current key records. `base` carries the id and
+ * creation time of the report being updated.
+ */
+export function buildKeyboardReport(
+  base: Pick<KeyboardTestReport, "id" | "createdAt"> | null,
+  keyboard: KeyboardInfo,
+  layout: KeyboardLayout,
+  records: Record<string, KeyRecord>
+): KeyboardTestReport {
+  const keys: KeyResult[] = layoutKeys(layout).map((key) => ({
+    code: key.code,
+    label: key.label,
+    presses: records[key.code]?.presses ?? 0,
+    status: keyStatus(records[key.code]),
+  }));
+  const codes = (status: KeyStatus) =>
+    keys.filter((k) => k.status === status).map((k) => k.code);
+  const known = new Set(keys.map((k) => k.code));
+
+  const now = Date.now();
+  const report = {
+    id: base?.id ?? createReportId(),
+    createdAt: base?.createdAt ?? now,
+    updatedAt: now,
+    keyboard,
+    keys,
+    untested: codes("untested"),
+    stuck: codes("stuck"),
+    chatter: codes("chatter"),
+    extraKeys: Object.keys(records).filter(
+      (code) => !known.has(code) && records[code].presses > 0
+    ),
+  };
+  return { ...report, grade: gradeKeyboardReport(report) };
+}
+
+/**
+ * Render a report as a standalone HTML page sized for printing
+ */
+export function keyboardReportToHtml(report: KeyboardTestReport): string {
+  const list = (codes: string[]) =>
+    codes.length
+      ? escapeHtml(codes.join(", "))
+      : `<span class="muted">None</span>`;
+  const tested = report.keys.length - report.untested.length;
+
+  const sections = [
+    `<h2>Keys ${verdict(
+      report.untested.length === report.keys.length
+        ? undefined
+        : !report.stuck.length && !report.chatter.length
+    )}</h2>`,
+    `<table>${[
+      row("Tested", `${tested} of ${report.keys.length}`),
+      row("Stuck", list(report.stuck)),
+      row("Chatter", list(report.chatter)),
+      row("Untested", list(report.untested)),
+      ...(report.extraKeys.length
+        ? [row("Other keys", list(report.extraKeys))]
+        : []),
+    ].join("")}</table>`,
+  ];
+
+  return renderReportPage({
+    title: "Keyboard Test Report",
+    report,
+    subject: report.keyboard.name || `${report.keyboard.layoutName} keyboard`,
+    details: [`Layout: ${report.keyboard.layoutName}`],
+    gradeDescription: KEYBOARD_GRADE_DESCRIPTIONS[report.grade],
+    sections,
+  });
+}
@@ -0,0 +1,275 @@
+/**
+ * Enterprise policy from chrome.storage.managed (schema in
+ * public/managed_schema.json). Policy values are layered under user
+ * settings: they seed each setting until the user changes it, and keys
+ * listed in `lockedSettings` always use the policy value.
+ */
+import { CSVSource, CSV_SOURCES_KEY } from "./csv-sources";
+import { CustomProvider, CUSTOM_PROVIDERS_KEY } from "./custom-providers";
+import {
+  CMDKSettings,
+  CMDK_SETTINGS_KEY,
+  DEFAULT_CMDK_SETTINGS,
+} from "./cmdk-settings";
+
+export type ManagedSettingKey =
+  | "csvSources"
+  | "enabledSources"
+  | "sourceOrder"
+  | "customProviders"
+  | "contextMenuEntries"
+  | "controllerAutoOpen";
+
+export interface ManagedConfig {
+  csvSources?: CSVSource[];
+  enabledSources?: Partial<CMDKSettings["enabledSources"]>;
+  sourceOrder?: string[];
+  customProviders?: CustomProvider[];
+  // Selection context-menu entries to show (see CONTEXT_MENU_ENTRIES)
+  contextMenuEntries?: string[];
+  controllerAutoOpen?: boolean;
+  lockedSettings?: ManagedSettingKey[];
+}
+
+// Selection context-menu entries an administrator can enable
+export const CONTEXT_MENU_ENTRIES = [
+  "search-ebay-sold",
+  "search-google-upc",
+  "search-google-mpn",
+  "search-upc",
+  "search-price-charting",
+  "comp-search",
+] as const;
+
+// Policy values last written into user storage, used to tell whether the
+// user has since changed a setting
+const APPLIED_POLICY_KEY = "managedPolicyApplied";
+
+const MANAGED_KEYS: ManagedSettingKey[] = [
+  "csvSources",
+  "enabledSources",
+  "sourceOrder",
+  "customProviders",
+  "contextMenuEntries",
+  "controllerAutoOpen",
+];
+
+/**
+ * Read the managed policy. Resolves to an empty config when no policy is
+ * installed or the browser does not support managed storage.
+ */
+export async function getManagedConfig(): Promise<ManagedConfig> {
+  return new Promise((resolve) => {
+    if (!chrome.storage?.managed) {
+      resolve({});
+      return;
+    }
+    chrome.storage.managed.get(null, (result) => {
+      if (chrome.runtime.lastError) {
+        resolve({});
+        return;
+      }
+      resolve((result || {}) as ManagedConfig);
+    });
+  });
+}
+
+/**
+ * Subscribe to policy updates pushed by the browser.
+ * Returns an unsubscribe function.
+ */
+export function onManagedConfigChanged(
+  callback: (config: ManagedConfig) => void
+): () => void {
+  const listener = (_changes: unknown, area: string) => {
+    if (area !== "managed") return;
+    getManagedConfig().then(callback);
+  };
+  chrome.storage.onChanged.addListener(listener);
+  return () => chrome.storage.onChanged.removeListener(listener);
+}
+
+/**
+ * True when the policy sets a value for the key and locks it
+ */
+export function isSettingLocked(
+  config: ManagedConfig,
+  key: ManagedSettingKey
+): boolean {
+  return (
+    config[key] !== undefined && !!config.lockedSettings?.includes(key)
+  );
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Layer a policy value under the user's value. Objects are layered per
+ * property so a policy can set only some sources.
+ */
+function layerValue<T>(
+  config: ManagedConfig,
+  key: ManagedSettingKey,
+  userValue: T | undefined,
+  appliedValue: unknown
+): T | undefined {
+  const managed = config[key] as T | undefined;
+  if (managed === undefined) return userValue;
+
+  const isObject =
+    typeof managed === "object" && managed !== null && !Array.isArray(managed);
+  if (isObject) {
+    const user = (userValue ?? {}) as Record<string, unknown>;
+    const applied = (appliedValue ?? {}) as Record<string, unknown>;
+    const next = { ...user };
+    for (const [prop, value] of Object.entries(managed)) {
+      const userChanged =
+        prop in user && !sameValue(user[prop], applied[prop]);
+      if (isSettingLocked(config, key) || !userChanged) next[prop] = value;
+    }
+    return next as T;
+  }
+
+  const userChanged =
+    userValue !== undefined && !sameValue(userValue, appliedValue);
+  return isSettingLocked(config, key) || !userChanged ? managed : userValue;
+}
+
+function storageGet(
+  area: "sync" | "local",
+  keys: string[]
+): Promise<Record<string, any>> {
+  return new Promise((resolve) => {
+    chrome.storage[area].get(keys, (result) => {
+      if (chrome.runtime.lastError) {
+        console.error(
+          `[Managed] Error reading ${area} storage:`,
+          chrome.runtime.lastError
+        );
+        resolve({});
+        return;
+      }
+      resolve(result || {});
+    });
+  });
+}
+
+function storageSet(
+  area: "sync" | "local",
+  items: Record<string, unknown>
+): Promise<void> {
+  return new Promise((resolve) => {
+    if (!Object.keys(items).length) {
+      resolve();
+      return;
+    }
+    chrome.storage[area].set(items, () => {
+      if (chrome.runtime.lastError) {
+        console.error(
+          `[Managed] Failed to write ${area} storage:`,
+          chrome.runtime.lastError
+        );
+      }
+      resolve();
+    });
+  });
+}
+
+/**
+ * Write the policy into the user's settings storage, keeping values the
+ * user has changed unless the key is locked. Only changed keys are
+ * written, so calling this from a storage listener does not loop.
+ */
+export async function applyManagedConfig(config: ManagedConfig): Promise<void> {
+  const [sync, local] = await Promise.all([
+    storageGet("sync", [CSV_SOURCES_KEY, CUSTOM_PROVIDERS_KEY, CMDK_SETTINGS_KEY]),
+    storageGet("local", ["autoShowModal", APPLIED_POLICY_KEY]),
+  ]);
+  const applied: ManagedConfig = local[APPLIED_POLICY_KEY] || {};
+  const syncUpdates: Record<string, unknown> = {};
+  const localUpdates: Record<string, unknown> = {};
+
+  const csvSources = layerValue(
+    config,
+    "csvSources",
+    sync[CSV_SOURCES_KEY],
+    applied.csvSources
+  );
+  if (csvSources && !sameValue(csvSources, sync[CSV_SOURCES_KEY])) {
+    syncUpdates[CSV_SOURCES_KEY] = csvSources;
+  }
+
+  const customProviders = layerValue(
+    config,
+    "customProviders",
+    sync[CUSTOM_PROVIDERS_KEY],
+    applied.customProviders
+  );
+  if (
+    customProviders &&
+    !sameValue(customProviders, sync[CUSTOM_PROVIDERS_KEY])
+  ) {
+    syncUpdates[CUSTOM_PROVIDERS_KEY] = customProviders;
+  }
+
+  const userSettings: CMDKSettings | undefined = sync[CMDK_SETTINGS_KEY];
+  const cmdkSettings: CMDKSettings = {
+    enabledSources: {
+      ...DEFAULT_CMDK_SETTINGS.enabledSources,
+      ...layerValue(
+        config,
+        "enabledSources",
+        userSettings?.enabledSources,
+        applied.enabledSources
+      ),
+    },
+    sourceOrder:
+      layerValue(
+        config,
+        "sourceOrder",
+        userSettings?.sourceOrder,
+        applied.sourceOrder
+      ) ?? DEFAULT_CMDK_SETTINGS.sourceOrder,
+  };
+  const touchesCmdk =
+    config.enabledSources !== undefined || config.sourceOrder !== undefined;
+  if (touchesCmdk && !sameValue(cmdkSettings, userSettings)) {
+    syncUpdates[CMDK_SETTINGS_KEY] = cmdkSettings;
+  }
+
+  const autoShowModal = layerValue(
+    config,
+    "controllerAutoOpen",
+    local.autoShowModal,
+    applied.controllerAutoOpen
+  );
+  if (autoShowModal !== undefined && autoShowModal !== local.autoShowModal) {
+    localUpdates.autoShowModal = autoShowModal;
+  }
+
+  const nextApplied: ManagedConfig = {};
+  for (const key of MANAGED_KEYS) {
+    if (config[key] !== undefined) {
+      (nextApplied as Record<string, unknown>)[key] = config[key];
+    }
+  }
+  if (!sameValue(nextApplied, applied)) {
+    localUpdates[APPLIED_POLICY_KEY] = nextApplied;
+  }
+
+  await Promise.all([
+    storageSet("sync", syncUpdates),
+    storageSet("local", localUpdates),
+  ]);
+}
+
+/**
+ * Storage keys the policy writes to, for re-applying locks when a
+ * locked setting is changed from another page
+ */
+export const MANAGED_STORAGE_KEYS = {
+  sync: [CSV_SOURCES_KEY, CUSTOM_PROVIDERS_KEY, CMDK_SETTINGS_KEY],
+  local: ["autoShowModal"],
+};
@@ -0,0 +1,238 @@
+/**
+ * Webcam and microphone intake check. Lists the capture devices the browser
+ * reports, probes each camera's supported resolutions and records the peak
+ * level of each microphone. Whether a picture or recording is actually
+ * right is confirmed by the tester, so every device ends up pass or fail.
+ */
+import {
+  DeviceReport,
+  ReportGrade,
+  createReportId,
+  escapeHtml,
+  renderReportPage,
+  row,
+  verdict,
+} from "./device-report";
+
+export type MediaDeviceStatus = "untested" | "pass" | "fail";
+
+export interface Resolution {
+  width: number;
+  height: number;
+}
+
+export interface CameraResult {
+  deviceId: string;
+  label: string;
+  // Resolutions the camera accepted when asked for them exactly
+  resolutions: Resolution[];
+  // Largest size and frame rate from the track capabilities, if reported
+  maxWidth: number | null;
+  maxHeight: number | null;
+  maxFrameRate: number | null;
+  status: MediaDeviceStatus;
+  // getUserMedia error name, e.g. "NotReadableError" when the camera is busy
+  error?: string;
+}
+
+export interface MicrophoneResult {
+  deviceId: string;
+  label: string;
+  // Highest level seen, 0 to 1 of full scale
+  peakLevel: number;
+  status: MediaDeviceStatus;
+  error?: string;
+}
+
+export interface MediaCheckDeviceInfo {
+  // Model or SKU typed by the tester
+  name: string;
+}
+
+export interface MediaCheckReport extends DeviceReport {
+  device: MediaCheckDeviceInfo;
+  cameras: CameraResult[];
+  microphones: MicrophoneResult[];
+}
+
+export const MEDIA_HISTORY_KEY = "mediaCheckHistory";
+
+// Speaking normally near a working mic peaks well above this
+export const QUIET_LEVEL = 0.05;
+
+// Sizes asked for when probing a camera, smallest first
+export const STANDARD_RESOLUTIONS: Resolution[] = [
+  { width: 320, height: 240 },
+  { width: 640, height: 480 },
+  { width: 1280, height: 720 },
+  { width: 1920, height: 1080 },
+  { width: 2560, height: 1440 },
+  { width: 3840, height: 2160 },
+];
+
+export const MEDIA_GRADE_DESCRIPTIONS: Record<ReportGrade, string> = {
+  A: "Every camera and microphone works",
+  B: "Devices checked so far work",
+  C: "Works, but a microphone is very quiet",
+  F: "A camera or microphone doesn't work",
+  Incomplete: "No devices checked yet",
+};
+
+export const formatResolution = ({ width, height }: Resolution) =>
+  `${width}×${height}`;
+
+/**
+ * Ask the camera for each standard resolution up to its reported maximum
+ * and keep the ones it delivers. Leaves the track at the largest size found.
+ */
+export async function probeResolutions(
+  track: MediaStreamTrack
+): Promise<Resolution[]> {
+  const capabilities = track.getCapabilities?.() ?? {};
+  const maxWidth = capabilities.width?.max ?? Infinity;
+  const maxHeight = capabilities.height?.max ?? Infinity;
+  const found: Resolution[] = [];
+
+  for (const size of STANDARD_RESOLUTIONS) {
+    if (size.width > maxWidth || size.height > maxHeight) continue;
+    try {
+      await track.applyConstraints({
+        width: { exact: size.width },
+        height: { exact: size.height },
+      });
+      const settings = track.getSettings();
+      if (settings.width === size.width && settings.height === size.height) {
+        found.push(size);
+      }
+    } catch {
+      // OverconstrainedError: the camera can't do this size
+    }
+  }
+
+  const largest = found[found.length - 1];
+  if (largest) {
+    await track
+      .applyConstraints({ width: largest.width, height: largest.height })
+      .catch(() => {});
+  }
+  return found;
+}
+
+/**
+ * Peak level of one analyser frame, 0 to 1 of full scale
+ */
+export function peakLevel(samples: Float32Array): number {
+  let peak = 0;
+  for (const sample of samples) {
+    peak = Math.max(peak, Math.abs(sample));
+  }
+  return Math.min(1, peak);
+}
+
+export function gradeMediaReport(
+  report: Pick<MediaCheckReport, "cameras" | "microphones">
+): ReportGrade {
+  const devices = [...report.cameras, ...report.microphones];
+  if (!devices.some((d) => d.status !== "untested")) return "Incomplete";
+  if (devices.some((d) => d.status === "fail")) return "F";
+  if (
+    report.microphones.some(
+      (m) => m.status === "pass" && m.peakLevel < QUIET_LEVEL
+    )
+  ) {
+    return "C";
+  }
+  if (devices.some((d) => d.status === "untested")) return "B";
+  return "A";
+}
+
+/**
+ * Build the report for the current results. `base` carries the id and
+ * creation time of the report being updated.
+ */
+export function buildMediaReport(
+  base: Pick<MediaCheckReport, "id" | "createdAt"> | null,
+  device: MediaCheckDeviceInfo,
+  cameras: CameraResult[],
+  microphones: MicrophoneResult[]
+): MediaCheckReport {
+  const now = Date.now();
+  const report = {
+    id: base?.id ?? createReportId(),
+    createdAt: base?.createdAt ?? now,
+    updatedAt: now,
+    device,
+    cameras,
+    microphones,
+  };
+  return { ...report, grade: gradeMediaReport(report) };
+}
+
+export function describeMediaDevice(report: MediaCheckReport): string {
+  return (
+    report.device.name ||
+    report.cameras[0]?.label ||
+    report.microphones[0]?.label ||
+    "Camera and microphone"
+  );
+}
+
+const statusVerdict = (status: MediaDeviceStatus) =>
+  verdict(status === "untested" ? undefined : status === "pass");
+
+/**
+ * Render a report as a standalone HTML page sized for printing
+ */
+export function mediaReportToHtml(report: MediaCheckReport): string {
+  const sections = [`<h2>Cameras</h2>`];
+  sections.push(
+    report.cameras.length
+      ? `<table>${report.cameras
+          .map((camera) =>
+            row(
+              camera.label,
+              `${statusVerdict(camera.status)} ${escapeHtml(
+                camera.error ||
+                  [
+                    camera.resolutions.map(formatResolution).join(", "),
+                    camera.maxFrameRate
+                      ? `up to ${Math.round(camera.maxFrameRate)} fps`
+                      : "",
+                  ]
+                    .filter(Boolean)
+                    .join(", ")
+              )}`
+            )
+          )
+          .join("")}</table>`
+      : `<p class="muted">None found</p>`
+  );
+
+  sections.push(`<h2>Microphones</h2>`);
+  sections.push(
+    report.microphones.length
+      ? `<table>${report.microphones
+          .map((mic) =>
+            row(
+              mic.label,
+              `${statusVerdict(mic.status)} ${escapeHtml(
+                mic.error || `peak level ${Math.round(mic.peakLevel * 100)}%`
+              )}`
+            )
+          )
+          .join("")}</table>`
+      : `<p class="muted">None found</p>`
+  );
+
+  return renderReportPage({
+    title: "Camera & Microphone Report",
+    report,
+    subject: describeMediaDevice(report),
+    details: [
+      `${report.cameras.length} camera(s)`,
+      `${report.microphones.length} microphone(s)`,
+    ],
+    gradeDescription: MEDIA_GRADE_DESCRIPTIONS[report.grade],
+    sections,
+  });
+}
@@ -0,0 +1,127 @@
+/**
+ * Controller report-rate measurement from Gamepad.timestamp. The browser
+ * bumps the timestamp whenever a new report arrives, so the gaps between
+ * changes give the effective polling rate, its jitter and dropped reports.
+ */
+
+export interface HistogramBucket {
+  fromMs: number;
+  toMs: number;
+  count: number;
+}
+
+export interface PollingRateResult {
+  testedAt: number;
+  durationMs: number;
+  // Intervals between reports that were measured
+  samples: number;
+  reportRateHz: number;
+  meanIntervalMs: number;
+  medianIntervalMs: number;
+  // Standard deviation of the intervals
+  jitterMs: number;
+  // Reports estimated missing from gaps well above the usual interval
+  droppedFrames: number;
+  maxGapMs: number;
+  // Average time from the browser receiving a report to the page reading it
+  meanAgeMs: number;
+  histogram: HistogramBucket[];
+  stable: boolean;
+}
+
+export const POLLING_THRESHOLDS = {
+  // Jitter above this share of the median interval is flagged
+  maxJitterRatio: 0.5,
+  // Share of expected reports allowed to go missing
+  maxDropRate: 0.02,
+  // A gap this many times the median counts as dropped reports
+  dropGapFactor: 1.5,
+};
+
+const HISTOGRAM_BUCKETS = 24;
+
+function median(values: number[]): number {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Bucket intervals from 0 to twice the median; the last bucket collects
+ * everything slower
+ */
+function buildHistogram(
+  intervals: number[],
+  medianMs: number
+): HistogramBucket[] {
+  const span = Math.max(medianMs * 2, 2);
+  const width = span / HISTOGRAM_BUCKETS;
+  const buckets: HistogramBucket[] = Array.from(
+    { length: HISTOGRAM_BUCKETS },
+    (_, i) => ({
+      fromMs: i * width,
+      toMs: i === HISTOGRAM_BUCKETS - 1 ? Infinity : (i + 1) * width,
+      count: 0,
+    })
+  );
+  for (const interval of intervals) {
+    const i = Math.min(HISTOGRAM_BUCKETS - 1, Math.floor(interval / width));
+    buckets[i].count++;
+  }
+  return buckets;
+}
+
+/**
+ * Summarize report intervals and ages collected over a sampling window
+ */
+export function analyzePollingIntervals(
+  intervals: number[],
+  ages: number[],
+  durationMs: number,
+  thresholds = POLLING_THRESHOLDS
+): PollingRateResult {
+  const count = intervals.length;
+  const medianIntervalMs = median(intervals);
+  const meanIntervalMs = count
+    ? intervals.reduce((sum, v) => sum + v, 0) / count
+    : 0;
+  const jitterMs = count
+    ? Math.sqrt(
+        intervals.reduce((sum, v) => sum + (v - meanIntervalMs) ** 2, 0) /
+          count
+      )
+    : 0;
+
+  let droppedFrames = 0;
+  if (medianIntervalMs > 0) {
+    for (const interval of intervals) {
+      if (interval > medianIntervalMs * thresholds.dropGapFactor) {
+        droppedFrames += Math.round(interval / medianIntervalMs) - 1;
+      }
+    }
+  }
+
+  const expected = count + droppedFrames;
+  const stable =
+    count > 0 &&
+    jitterMs <= medianIntervalMs * thresholds.maxJitterRatio &&
+    droppedFrames <= expected * thresholds.maxDropRate;
+
+  return {
+    testedAt: Date.now(),
+    durationMs,
+    samples: count,
+    reportRateHz: medianIntervalMs > 0 ? 1000 / medianIntervalMs : 0,
+    meanIntervalMs,
+    medianIntervalMs,
+    jitterMs,
+    droppedFrames,
+    maxGapMs: count ? Math.max(...intervals) : 0,
+    meanAgeMs: ages.length
+      ? ages.reduce((sum, v) => sum + v, 0) / ages.length
+      : 0,
+    histogram: buildHistogram(intervals, medianIntervalMs),
+    stable,
+  };
+}
@@ -0,0 +1,154 @@
+/**
+ * Named provider bundles ("comp searches") that run one query against
+ * several search providers and open the results in a tab group.
+ */
+export interface ProviderBundle {
+  id: string;
+  name: string;
+  trigger: string[];
+  providerIds: string[];
+}
+
+// Minimal provider shape needed to build URLs (SearchProvider satisfies it)
+export interface BundleProvider {
+  id: string;
+  searchUrl: string;
+}
+
+export const PROVIDER_BUNDLES_KEY = "searchProviderBundles";
+
+export const DEFAULT_BUNDLES: ProviderBundle[] = [
+  {
+    id: "comps-core",
+    name: "Comps: eBay sold + PriceCharting + Amazon",
+    trigger: ["comp", "comps"],
+    providerIds: ["ebay", "pricecharting", "amazon"],
+  },
+  {
+    id: "comps-retail",
+    name: "Comps: eBay sold + Amazon + Best Buy",
+    trigger: ["retail"],
+    providerIds: ["ebay", "amazon", "bestbuy"],
+  },
+];
+
+/**
+ * Get provider bundles from sync storage, falling back to the defaults
+ * until the user saves their own list
+ */
+export async function getProviderBundles(): Promise<ProviderBundle[]> {
+  return new Promise((resolve) => {
+    chrome.storage.sync.get([PROVIDER_BUNDLES_KEY], (result) => {
+      if (chrome.runtime.lastError) {
+        console.error(
+          "[Bundles] Error loading provider bundles:",
+          chrome.runtime.lastError
+        );
+        resolve(DEFAULT_BUNDLES);
+        return;
+      }
+      const stored = result[PROVIDER_BUNDLES_KEY];
+      resolve(Array.isArray(stored) ? stored : DEFAULT_BUNDLES);
+    });
+  });
+}
+
+/**
+ * Persist provider bundles to sync storage
+ */
+export async function saveProviderBundles(
+  bundles: ProviderBundle[]
+): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.sync.set({ [PROVIDER_BUNDLES_KEY]: bundles }, () => {
+      if (chrome.runtime.lastError) {
+        console.error(
+          "[Bundles] Failed to save provider bundles:",
+          chrome.runtime.lastError
+        );
+      }
+      resolve();
+    });
+  });
+}
+
+/**
+ * Subscribe to bundle changes made from another extension page.
+ * Returns an unsubscribe function.
+ */
+export function onProviderBundlesChanged(
+  callback: (bundles: ProviderBundle[]) => void
+): () => void {
+  const listener = (
+    changes: Record<string, { newValue?: unknown }>,
+    area: string
+  ) => {
+    if (area !== "sync" || !changes[PROVIDER_BUNDLES_KEY]) return;
+    const next = changes[PROVIDER_BUNDLES_KEY].newValue;
+    callback(Array.isArray(next) ? next : DEFAULT_BUNDLES);
+  };
+  chrome.storage.onChanged.addListener(listener);
+  return () => chrome.storage.onChanged.removeListener(listener);
+}
+
+/**
+ * Build the search URL for every provider in the bundle, skipping
+ * providers that no longer exist
+ */
+export function buildBundleUrls(
+  bundle: ProviderBundle,
+  providers: BundleProvider[],
+  query: string
+): string[] {
+  const encoded = encodeURIComponent(query.trim());
+  return bundle.providerIds
+    .map((id) => providers.find((p) => p.id === id))
+    .filter((p): p is BundleProvider => Boolean(p))
+    .map((p) => p.searchUrl.replace("{query}", encoded));
+}
+
+/**
+ * If input starts with a bundle trigger followed by a space, return the
+ * matching bundle and the remaining query
+ */
+export function findBundleByTrigger(
+  input: string,
+  bundles: ProviderBundle[]
+): { bundle: ProviderBundle; query: string } | null {
+  const lower = input.toLowerCase().trimStart();
+  for (const bundle of bundles) {
+    for (const trigger of bundle.trigger) {
+      if (lower.startsWith(`${trigger} `)) {
+        return {
+          bundle,
+          query: input.trimStart().slice(trigger.length).trim(),
+        };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Ask the background to open every URL in a new tab group named after
+ * the query
+ */
+export async function openBundleSearch(
+  urls: string[],
+  query: string
+): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.runtime.sendMessage(
+      { action: "OPEN_COMP_SEARCH", urls, title: query.trim() },
+      (response) => {
+        if (chrome.runtime.lastError || !response?.success) {
+          console.error(
+            "[Bundles] Error opening comp search:",
+            chrome.runtime.lastError || response?.error
+          );
+        }
+        resolve();
+      }
+    );
+  });
+}
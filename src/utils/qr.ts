@@ -0,0 +1,58 @@
+/**
+ * QR helpers for extension pages. Encoding happens in the background
+ * (see src/lib/qrcode.ts) so every page gets the same output.
+ */
+export interface QrSource {
+  text: string;
+  kind: "selection" | "url";
+  title: string;
+}
+
+/**
+ * Get the selected text on the active page, or its URL when nothing is
+ * selected
+ */
+export async function getQrSource(): Promise<QrSource | null> {
+  return new Promise((resolve) => {
+    chrome.runtime.sendMessage({ action: "GET_QR_SOURCE" }, (response) => {
+      if (chrome.runtime.lastError || !response?.success || !response.text) {
+        console.error(
+          "[QR] Error getting QR source:",
+          chrome.runtime.lastError || response?.error
+        );
+        resolve(null);
+        return;
+      }
+      resolve({
+        text: response.text,
+        kind: response.kind,
+        title: response.title,
+      });
+    });
+  });
+}
+
+/**
+ * Encode text as a PNG QR code data URL
+ */
+export async function generateQrDataUrl(
+  text: string,
+  size = 256
+): Promise<string | null> {
+  return new Promise((resolve) => {
+    chrome.runtime.sendMessage(
+      { action: "generateQr", text, size },
+      (response) => {
+        if (chrome.runtime.lastError || !response?.success) {
+          console.error(
+            "[QR] Error generating QR code:",
+            chrome.runtime.lastError || response?.error
+          );
+          resolve(null);
+          return;
+        }
+        resolve(response.dataUrl);
+      }
+    );
+  });
+}
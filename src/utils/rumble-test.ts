@@ -0,0 +1,155 @@
+/**
+ * Rumble motor test through Gamepad.vibrationActuator. Each effect is
+ * played in turn and the tester confirms whether they felt it.
+ */
+
+export type RumbleStatus = "pending" | "works" | "failed" | "unsupported";
+
+export interface RumbleEffect {
+  id: string;
+  label: string;
+  type: GamepadHapticEffectType;
+  params: GamepadEffectParameters;
+}
+
+export interface RumbleEffectResult {
+  id: string;
+  label: string;
+  status: RumbleStatus;
+}
+
+export interface RumbleTestResult {
+  testedAt: number;
+  effects: RumbleEffectResult[];
+  pass: boolean;
+}
+
+const RUMBLE_DURATION_MS = 800;
+
+export const RUMBLE_EFFECTS: RumbleEffect[] = [
+  {
+    id: "strong",
+    label: "Strong motor (left grip)",
+    type: "dual-rumble",
+    params: { strongMagnitude: 1, weakMagnitude: 0 },
+  },
+  {
+    id: "weak",
+    label: "Weak motor (right grip)",
+    type: "dual-rumble",
+    params: { strongMagnitude: 0, weakMagnitude: 1 },
+  },
+  {
+    id: "dual",
+    label: "Both motors",
+    type: "dual-rumble",
+    params: { strongMagnitude: 1, weakMagnitude: 1 },
+  },
+  {
+    id: "left-trigger",
+    label: "Left trigger motor",
+    type: "trigger-rumble",
+    params: { leftTrigger: 1 },
+  },
+  {
+    id: "right-trigger",
+    label: "Right trigger motor",
+    type: "trigger-rumble",
+    params: { rightTrigger: 1 },
+  },
+];
+
+// The actuator's `effects` list is newer than the TypeScript DOM types
+type ActuatorWithEffects = GamepadHapticActuator & {
+  effects?: GamepadHapticEffectType[];
+};
+
+/**
+ * Effect types the controller supports, or null when the browser doesn't
+ * say. An empty list means the controller has no rumble at all.
+ */
+export function getSupportedEffects(
+  gamepad: Gamepad
+): GamepadHapticEffectType[] | null {
+  const actuator = gamepad.vibrationActuator as ActuatorWithEffects | null;
+  if (!actuator) return [];
+  return Array.isArray(actuator.effects) ? actuator.effects : null;
+}
+
+/**
+ * Play an effect. Resolves to false when the controller rejects it, which
+ * browsers do for effect types the hardware lacks.
+ */
+export async function playRumbleEffect(
+  gamepad: Gamepad,
+  effect: RumbleEffect
+): Promise<boolean> {
+  if (!gamepad.vibrationActuator) return false;
+  try {
+    await gamepad.vibrationActuator.playEffect(effect.type, {
+      duration: RUMBLE_DURATION_MS,
+      startDelay: 0,
+      ...effect.params,
+    });
+    return true;
+  } catch (error) {
+    console.error(`[Rumble] Failed to play ${effect.id}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Stop any effect that is still playing
+ */
+export function stopRumble(gamepad: Gamepad | null | undefined): void {
+  gamepad?.vibrationActuator?.reset().catch(() => {});
+}
+
+/**
+ * Summarize effect outcomes. Unsupported effects don't count against the
+ * controller; a test with no working motor at all fails.
+ */
+export function summarizeRumble(
+  effects: RumbleEffectResult[]
+): RumbleTestResult {
+  return {
+    testedAt: Date.now(),
+    effects: effects.map((e) => ({ ...e })),
+    pass:
+      effects.some((e) => e.status === "works") &&
+      !effects.some((e) => e.status === "failed" || e.status === "pending"),
+  };
+}
+
+/**
+ * Whether rumble is allowed by the extension setting (on by default)
+ */
+export async function getVibrationEnabled(): Promise<boolean> {
+  return new Promise((resolve) => {
+    chrome.storage.local.get(["vibrationEnabled"], (result) => {
+      if (chrome.runtime.lastError) {
+        console.error(
+          "[Rumble] Error loading vibration setting:",
+          chrome.runtime.lastError
+        );
+        resolve(true);
+        return;
+      }
+      resolve(result.vibrationEnabled !== false);
+    });
+  });
+}
+
+export async function setVibrationEnabled(enabled: boolean): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.local.set({ vibrationEnabled: enabled }, () => {
+      if (chrome.runtime.lastError) {
+        console.error(
+          "[Rumble] Failed to save vibration setting:",
+          chrome.runtime.lastError
+        );
+      }
+      resolve();
+    });
+  });
+}
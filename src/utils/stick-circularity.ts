@@ -0,0 +1,116 @@
+/**
+ * Stick range-of-motion analysis. While the tester rotates a stick around
+ * its gate, the furthest reach seen at each angle is kept; a healthy stick
+ * traces a near circle, worn gates and bad potentiometers leave flat spots.
+ */
+
+// Angular resolution of the trace; a multiple of 16 so octant edges fall
+// on bin edges
+export const TRACE_BINS = 64;
+
+// Octants are counter-clockwise from the right, with up as north
+export const OCTANT_LABELS = ["E", "NE", "N", "NW", "W", "SW", "S", "SE"];
+
+// Reach below this in any octant flags the sector as weak
+export const DEFAULT_MIN_OCTANT_REACH = 0.9;
+
+// Share of the trace that must be covered before a verdict is given
+export const MIN_TRACE_COVERAGE = 0.9;
+
+// Ignore readings near center; they say nothing about the outer range
+const MIN_SAMPLE_RADIUS = 0.3;
+
+export interface OctantReach {
+  label: string;
+  reach: number;
+  weak: boolean;
+}
+
+export interface StickCircularityResult {
+  // Mean distance of the traced outline from the unit circle, 0..1
+  averageError: number;
+  // Share of the trace bins that received a reading
+  coverage: number;
+  octants: OctantReach[];
+  // Max reach per trace bin, for drawing the outline
+  trace: number[];
+  pass: boolean;
+}
+
+export interface CircularityTestResult {
+  testedAt: number;
+  minReach: number;
+  left: StickCircularityResult;
+  right: StickCircularityResult;
+  pass: boolean;
+}
+
+/**
+ * Create an empty trace with one max-reach slot per bin
+ */
+export function createStickTrace(): number[] {
+  return new Array(TRACE_BINS).fill(0);
+}
+
+/**
+ * Angle of a stick reading in radians, 0..2π counter-clockwise from the
+ * right. Gamepad Y grows downward, so it is flipped.
+ */
+export function stickAngle(x: number, y: number): number {
+  const angle = Math.atan2(-y, x);
+  return angle < 0 ? angle + Math.PI * 2 : angle;
+}
+
+/**
+ * Record a reading in the trace. Returns true when it extended the reach
+ * in its bin, so callers can skip redrawing otherwise.
+ */
+export function addTraceSample(trace: number[], x: number, y: number): boolean {
+  const radius = Math.hypot(x, y);
+  if (radius < MIN_SAMPLE_RADIUS) return false;
+
+  const bin =
+    Math.floor((stickAngle(x, y) / (Math.PI * 2)) * trace.length) %
+    trace.length;
+  if (radius <= trace[bin]) return false;
+  trace[bin] = radius;
+  return true;
+}
+
+/**
+ * Score a trace: average circularity error over the covered bins and the
+ * max reach in each octant
+ */
+export function analyzeCircularity(
+  trace: number[],
+  minReach = DEFAULT_MIN_OCTANT_REACH
+): StickCircularityResult {
+  const covered = trace.filter((r) => r > 0);
+  const coverage = covered.length / trace.length;
+  const averageError = covered.length
+    ? covered.reduce((sum, r) => sum + Math.abs(1 - r), 0) / covered.length
+    : 0;
+
+  // Octants are centered on their direction, so E spans -22.5°..22.5°
+  const perOctant = trace.length / OCTANT_LABELS.length;
+  const reaches = new Array(OCTANT_LABELS.length).fill(0);
+  trace.forEach((r, bin) => {
+    const octant = Math.floor(
+      ((bin + perOctant / 2) % trace.length) / perOctant
+    );
+    reaches[octant] = Math.max(reaches[octant], r);
+  });
+  const octants = OCTANT_LABELS.map((label, i) => ({
+    label,
+    reach: reaches[i],
+    weak: reaches[i] < minReach,
+  }));
+
+  return {
+    averageError,
+    coverage,
+    octants,
+    trace: [...trace],
+    pass: coverage >= MIN_TRACE_COVERAGE && !octants.some((o) => o.weak),
+  };
+}
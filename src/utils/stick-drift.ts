@@ -0,0 +1,153 @@
+/**
+ * Hands-off stick drift analysis for the controller tester. Samples are
+ * taken while the sticks are at rest; any offset from center or noise
+ * around it means the stick will register input the player didn't give.
+ */
+
+export interface StickSample {
+  x: number;
+  y: number;
+}
+
+export interface DriftThresholds {
+  // Largest allowed distance of the resting average from center
+  maxOffset: number;
+  // Largest allowed RMS noise around the resting average
+  maxJitter: number;
+  // Largest allowed single reading away from center
+  maxDeviation: number;
+  // How long to sample, in milliseconds
+  durationMs: number;
+}
+
+export interface StickDriftResult {
+  samples: number;
+  meanX: number;
+  meanY: number;
+  offset: number;
+  jitter: number;
+  maxDeviation: number;
+  // Smallest deadzone that would hide every reading taken
+  suggestedDeadzone: number;
+  pass: boolean;
+  // Which thresholds were exceeded
+  failures: ("offset" | "jitter" | "deviation")[];
+}
+
+export interface DriftTestResult {
+  testedAt: number;
+  durationMs: number;
+  thresholds: DriftThresholds;
+  left: StickDriftResult;
+  right: StickDriftResult;
+  pass: boolean;
+}
+
+export const DRIFT_THRESHOLDS_KEY = "controllerDriftThresholds";
+
+export const DEFAULT_DRIFT_THRESHOLDS: DriftThresholds = {
+  maxOffset: 0.05,
+  maxJitter: 0.02,
+  maxDeviation: 0.1,
+  durationMs: 3000,
+};
+
+/**
+ * Summarize resting samples for one stick and check them against the
+ * thresholds. An empty sample set fails, since nothing was measured.
+ */
+export function analyzeStickDrift(
+  samples: StickSample[],
+  thresholds: DriftThresholds
+): StickDriftResult {
+  const count = samples.length;
+  if (!count) {
+    return {
+      samples: 0,
+      meanX: 0,
+      meanY: 0,
+      offset: 0,
+      jitter: 0,
+      maxDeviation: 0,
+      suggestedDeadzone: 0,
+      pass: false,
+      failures: [],
+    };
+  }
+
+  let sumX = 0;
+  let sumY = 0;
+  let maxDeviation = 0;
+  for (const { x, y } of samples) {
+    sumX += x;
+    sumY += y;
+    maxDeviation = Math.max(maxDeviation, Math.hypot(x, y));
+  }
+  const meanX = sumX / count;
+  const meanY = sumY / count;
+
+  let sumSq = 0;
+  for (const { x, y } of samples) {
+    sumSq += (x - meanX) ** 2 + (y - meanY) ** 2;
+  }
+  const jitter = Math.sqrt(sumSq / count);
+  const offset = Math.hypot(meanX, meanY);
+
+  const failures: StickDriftResult["failures"] = [];
+  if (offset > thresholds.maxOffset) failures.push("offset");
+  if (jitter > thresholds.maxJitter) failures.push("jitter");
+  if (maxDeviation > thresholds.maxDeviation) failures.push("deviation");
+
+  return {
+    samples: count,
+    meanX,
+    meanY,
+    offset,
+    jitter,
+    maxDeviation,
+    suggestedDeadzone: Math.ceil(maxDeviation * 100) / 100,
+    pass: failures.length === 0,
+    failures,
+  };
+}
+
+/**
+ * Load the saved drift thresholds, filling any missing values with defaults
+ */
+export async function getDriftThresholds(): Promise<DriftThresholds> {
+  return new Promise((resolve) => {
+    chrome.storage.local.get([DRIFT_THRESHOLDS_KEY], (result) => {
+      if (chrome.runtime.lastError) {
+        console.error(
+          "[Drift] Error loading thresholds:",
+          chrome.runtime.lastError
+        );
+        resolve(DEFAULT_DRIFT_THRESHOLDS);
+        return;
+      }
+      resolve({
+        ...DEFAULT_DRIFT_THRESHOLDS,
+        ...(result[DRIFT_THRESHOLDS_KEY] || {}),
+      });
+    });
+  });
+}
+
+/**
+ * Save drift thresholds
+ */
+export async function saveDriftThresholds(
+  thresholds: DriftThresholds
+): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.local.set({ [DRIFT_THRESHOLDS_KEY]: thresholds }, () => {
+      if (chrome.runtime.lastError) {
+        console.error(
+          "[Drift] Failed to save thresholds:",
+          chrome.runtime.lastError
+        );
+      }
+      resolve();
+    });
+  });
+}
@@ -1,3 +1,5 @@
+import { fuzzyFilter } from "./fuzzy";
+
 export interface TabInfo {
   id: number;
   title: string;
@@ -78,19 +80,13 @@ export class TabManager {
   }
 
   /**
-   * Filter tabs by search query
+   * Filter tabs by fuzzy search query, best matches first
    */
   static filterTabs(tabs: TabInfo[], query: string): TabInfo[] {
-    if (!query.trim()) {
-      return tabs;
-    }
-
-    const lowerQuery = query.toLowerCase();
-    return tabs.filter((tab) => {
-      const title = tab.title?.toLowerCase() || "";
-      const url = tab.url?.toLowerCase() || "";
-      return title.includes(lowerQuery) || url.includes(lowerQuery);
-    });
+    return fuzzyFilter(tabs, query, (tab) => ({
+      title: { text: tab.title },
+      url: { text: tab.url, weight: 0.7 },
+    })).map((hit) => hit.item);
   }
 
   /**
@@ -0,0 +1,158 @@
+/**
+ * Analog trigger press-release analysis. The tester squeezes a trigger
+ * slowly to the bottom and lets it back out; the recorded value curve
+ * shows sticky, partially registering or jumpy triggers.
+ */
+
+export interface TriggerSample {
+  // Milliseconds since recording started
+  t: number;
+  value: number;
+}
+
+export type TriggerFailure =
+  | "range"
+  | "return"
+  | "deadTravel"
+  | "jumps"
+  | "reversals";
+
+export interface TriggerCurveResult {
+  maxValue: number;
+  // Value when recording stopped
+  restValue: number;
+  returnsToZero: boolean;
+  // Share of the range skipped on the way up to max, 0..1
+  topDeadTravel: number;
+  // Steps larger than the jump threshold between consecutive readings
+  jumps: number;
+  // Times the value moved against the press or release direction
+  reversals: number;
+  distinctLevels: number;
+  // Only reports fully off or fully on (e.g. Switch Pro triggers)
+  digital: boolean;
+  // Downsampled values for drawing the curve
+  curve: number[];
+  pass: boolean;
+  failures: TriggerFailure[];
+}
+
+export interface TriggerTestResult {
+  testedAt: number;
+  left: TriggerCurveResult | null;
+  right: TriggerCurveResult | null;
+  pass: boolean;
+}
+
+export const TRIGGER_THRESHOLDS = {
+  // Lowest acceptable value at full press
+  minMaxValue: 0.95,
+  // Highest acceptable value once released
+  maxRestValue: 0.02,
+  // Largest share of the range allowed to be skipped just below max
+  maxTopDeadTravel: 0.1,
+  // Single-reading step counted as a jump
+  jumpSize: 0.2,
+  // Movement against the direction of travel counted as a reversal
+  reversalSize: 0.03,
+};
+
+// Readings at or below this count as released
+export const TRIGGER_REST_LEVEL = 0.02;
+
+const CURVE_POINTS = 100;
+
+function downsample(values: number[], points: number): number[] {
+  if (values.length <= points) return values;
+  const step = values.length / points;
+  return Array.from(
+    { length: points },
+    (_, i) => values[Math.floor(i * step)]
+  );
+}
+
+/**
+ * Analyze one recorded press-release cycle. Samples should start at the
+ * first reading above rest and end after the trigger is let go.
+ */
+export function analyzeTriggerCurve(
+  samples: TriggerSample[],
+  thresholds = TRIGGER_THRESHOLDS
+): TriggerCurveResult {
+  const values = samples.map((s) => s.value);
+  const maxValue = values.length ? Math.max(...values) : 0;
+  const restValue = values.length ? values[values.length - 1] : 0;
+  const returnsToZero = restValue <= thresholds.maxRestValue;
+  const distinctLevels = new Set(values.map((v) => v.toFixed(3))).size;
+  const digital = values.every((v) => v <= TRIGGER_REST_LEVEL || v >= 0.99);
+
+  // Plateau at the top: first to last reading within a hair of max
+  const plateauLevel = maxValue - 0.01;
+  const plateauStart = values.findIndex((v) => v >= plateauLevel);
+  let plateauEnd = plateauStart;
+  for (let i = values.length - 1; i >= 0; i--) {
+    if (values[i] >= plateauLevel) {
+      plateauEnd = i;
+      break;
+    }
+  }
+
+  // Dead travel: how far below max the press curve stopped rising before
+  // it snapped to the top. Readings after max is first reached are ignored,
+  // so holding the trigger down doesn't count against it.
+  let topDeadTravel = 0;
+  if (!digital && plateauStart > 0 && maxValue > 0) {
+    const lastBelowTop = Math.max(...values.slice(0, plateauStart));
+    topDeadTravel = Math.max(0, (maxValue - lastBelowTop) / maxValue);
+  }
+
+  let jumps = 0;
+  let reversals = 0;
+  if (!digital) {
+    // Pressing: value should only rise until the plateau ends
+    let runningMax = 0;
+    let inDip = false;
+    for (let i = 0; i < values.length; i++) {
+      const v = values[i];
+      if (i > 0 && Math.abs(v - values[i - 1]) > thresholds.jumpSize) jumps++;
+
+      if (i <= plateauEnd) {
+        runningMax = Math.max(runningMax, v);
+        const dipping = v < runningMax - thresholds.reversalSize;
+        if (dipping && !inDip) reversals++;
+        inDip = dipping;
+      }
+    }
+
+    // Releasing: value should only fall after the plateau
+    let runningMin = maxValue;
+    let inBump = false;
+    for (let i = plateauEnd + 1; i < values.length; i++) {
+      runningMin = Math.min(runningMin, values[i]);
+      const bumping = values[i] > runningMin + thresholds.reversalSize;
+      if (bumping && !inBump) reversals++;
+      inBump = bumping;
+    }
+  }
+
+  const failures: TriggerFailure[] = [];
+  if (maxValue < thresholds.minMaxValue) failures.push("range");
+  if (!returnsToZero) failures.push("return");
+  if (topDeadTravel > thresholds.maxTopDeadTravel) failures.push("deadTravel");
+  if (jumps > 0) failures.push("jumps");
+  if (reversals > 0) failures.push("reversals");
+
+  return {
+    maxValue,
+    restValue,
+    returnsToZero,
+    topDeadTravel,
+    jumps,
+    reversals,
+    distinctLevels,
+    digital,
+    curve: downsample(values, CURVE_POINTS),
+    pass: failures.length === 0,
+    failures,
+  };
+}
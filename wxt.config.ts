@@ -1,4 +1,9 @@
-import { defineConfig, type WxtViteConfig } from "wxt";
+import {
+  defineConfig,
+  type ResolvedPublicFile,
+  type Wxt,
+  type WxtViteConfig,
+} from "wxt";
 import tailwindcss from "@tailwindcss/vite";
 
 // See https://wxt.dev/api/config.html
@@ -8,10 +13,20 @@ export default defineConfig({
   vite: () => ({ plugins: [tailwindcss()] } as WxtViteConfig),
   outDir: ".output", // Base output directory
   outDirTemplate: "paymore-lite", // Custom output directory name (removes browser/manifest folder nesting)
+  hooks: {
+    // The stand-in eBay category tree is only fetched under `wxt` dev
+    "build:publicAssets": (wxt: Wxt, files: ResolvedPublicFile[]) => {
+      if (wxt.config.command === "serve") return;
+      const index = files.findIndex(
+        (file) => file.relativeDest === "ebay-category-tree.json"
+      );
+      if (index >= 0) files.splice(index, 1);
+    },
+  },
   contentScripts: [
     {
       matches: ["<all_urls>"],
-      entries: ["controller-activity"],
+      entries: ["controller-activity", "barcode-scanner"],
     },
   ],
   manifest: {
@@ -30,6 +45,10 @@ export default defineConfig({
       // Needed for CMDK bookmarks and history
       "bookmarks",
       "history",
+      // Needed to group comp search results into a named tab group
+      "tabGroups",
+      // Needed to refresh the cached eBay category tree
+      "alarms",
     ],
     host_permissions: ["<all_urls>"],
     icons: {
@@ -46,6 +65,10 @@ export default defineConfig({
       default_path: "sidepanel.html",
     },
     options_page: "options.html",
+    // Enterprise policy (chrome.storage.managed), see public/managed_schema.json
+    storage: {
+      managed_schema: "managed_schema.json",
+    },
     web_accessible_resources: [
       {
         resources: ["install.html"],
@@ -58,6 +81,11 @@ export default defineConfig({
         run_at: "document_idle",
         js: ["controller-activity.js"],
       },
+      {
+        matches: ["<all_urls>"],
+        run_at: "document_idle",
+        js: ["barcode-scanner.js"],
+      },
     ],
     commands: {
       _execute_action: {